@@ -0,0 +1,60 @@
+import postgres from 'postgres';
+import * as fs from 'fs';
+
+/**
+ * One-off migration for multi-group support. Run before `db:push`:
+ * creates the default 'playgroup' group, assigns every existing schedule and
+ * cycle to it and makes every existing user a member, so the new NOT NULL
+ * `group_id` columns can be added to populated tables. Safe to re-run.
+ */
+
+const env = Object.fromEntries(
+  fs.readFileSync('.env.local', 'utf8')
+    .split('\n')
+    .filter(l => l.includes('=') && !l.startsWith('#'))
+    .map(l => {
+      const idx = l.indexOf('=');
+      const key = l.slice(0, idx).trim();
+      const val = l.slice(idx + 1).trim().replace(/^["']|["']$/g, '');
+      return [key, val];
+    })
+);
+
+const sql = postgres(env['DATABASE_URL'], { ssl: 'require' });
+
+async function main() {
+  await sql`
+    CREATE TABLE IF NOT EXISTS groups (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      slug text NOT NULL,
+      name text NOT NULL,
+      created_at timestamp NOT NULL DEFAULT now()
+    )`;
+  await sql`CREATE UNIQUE INDEX IF NOT EXISTS groups_slug_unique ON groups (slug)`;
+  await sql`INSERT INTO groups (slug, name) VALUES ('playgroup', 'Playgroup') ON CONFLICT DO NOTHING`;
+  const [group] = await sql`SELECT id FROM groups WHERE slug = 'playgroup'`;
+
+  for (const table of ['cycle_schedules', 'cycles']) {
+    await sql`ALTER TABLE ${sql(table)} ADD COLUMN IF NOT EXISTS group_id uuid REFERENCES groups(id)`;
+    await sql`UPDATE ${sql(table)} SET group_id = ${group.id} WHERE group_id IS NULL`;
+    await sql`ALTER TABLE ${sql(table)} ALTER COLUMN group_id SET NOT NULL`;
+  }
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS group_members (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      group_id uuid NOT NULL REFERENCES groups(id),
+      user_id uuid NOT NULL REFERENCES users(id),
+      joined_at timestamp NOT NULL DEFAULT now()
+    )`;
+  await sql`CREATE UNIQUE INDEX IF NOT EXISTS group_members_group_user_unique ON group_members (group_id, user_id)`;
+  await sql`
+    INSERT INTO group_members (group_id, user_id)
+    SELECT ${group.id}, id FROM users
+    ON CONFLICT DO NOTHING`;
+
+  console.log('Done — existing schedules, cycles and users moved into the default group');
+  await sql.end();
+}
+
+main().catch(console.error);
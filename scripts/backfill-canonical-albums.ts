@@ -0,0 +1,66 @@
+import postgres from 'postgres';
+import * as fs from 'fs';
+import { normalizeArtist, normalizeTitle, releaseYearOf } from '../src/lib/album-identity';
+
+/**
+ * One-off backfill for canonical album identities. Run after `db:push` adds
+ * `canonical_albums` and `albums.canonical_album_id`: links every album that
+ * has no canonical album yet by normalized title + primary artist (+ release
+ * year where known), creating canonical rows as needed. Albums submitted
+ * before release dates were stored get a canonical row with no year, which
+ * later editions of any year match. Safe to re-run.
+ */
+
+const env = Object.fromEntries(
+  fs.readFileSync('.env.local', 'utf8')
+    .split('\n')
+    .filter(l => l.includes('=') && !l.startsWith('#'))
+    .map(l => {
+      const idx = l.indexOf('=');
+      const key = l.slice(0, idx).trim();
+      const val = l.slice(idx + 1).trim().replace(/^["']|["']$/g, '');
+      return [key, val];
+    })
+);
+
+const sql = postgres(env['DATABASE_URL'], { ssl: 'require' });
+
+async function main() {
+  const unlinked = await sql`
+    SELECT id, title, artist, release_date FROM albums
+    WHERE canonical_album_id IS NULL
+    ORDER BY created_at`;
+  console.log(`${unlinked.length} albums without a canonical album`);
+
+  let created = 0;
+  for (const album of unlinked) {
+    const titleKey = normalizeTitle(album.title);
+    const artistKey = normalizeArtist(album.artist);
+    const year = releaseYearOf(album.release_date);
+
+    const [existing] = await sql`
+      SELECT id FROM canonical_albums
+      WHERE title_key = ${titleKey} AND artist_key = ${artistKey}
+        AND (${year}::int IS NULL OR release_year IS NULL OR release_year = ${year})
+      ORDER BY created_at
+      LIMIT 1`;
+
+    let canonicalId = existing?.id;
+    if (!canonicalId) {
+      const [row] = await sql`
+        INSERT INTO canonical_albums (title_key, artist_key, release_year, title, artist)
+        VALUES (${titleKey}, ${artistKey}, ${year}, ${album.title}, ${album.artist})
+        RETURNING id`;
+      canonicalId = row.id;
+      created++;
+    }
+
+    await sql`UPDATE albums SET canonical_album_id = ${canonicalId} WHERE id = ${album.id}`;
+  }
+
+  console.log(`Linked ${unlinked.length} albums, created ${created} canonical albums`);
+
+  await sql.end();
+}
+
+main().catch(console.error);
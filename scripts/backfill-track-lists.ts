@@ -0,0 +1,123 @@
+import postgres from 'postgres';
+import * as fs from 'fs';
+import type { AlbumTrack } from '../src/lib/album-tracks';
+
+/**
+ * One-off backfill for structured track lists. Run after `db:push` adds
+ * `albums.track_list`, `albums.most_loved_track_id` and
+ * `reviews.favorite_track_id`: re-fetches every Spotify album that has no
+ * track list yet, stores it, then keys that album's favorite-track picks (and
+ * its most loved track) by track id, matching on the title they were picked
+ * by. Albums Spotify no longer has keep their track names. Safe to re-run.
+ */
+
+const env = Object.fromEntries(
+  fs.readFileSync('.env.local', 'utf8')
+    .split('\n')
+    .filter(l => l.includes('=') && !l.startsWith('#'))
+    .map(l => {
+      const idx = l.indexOf('=');
+      const key = l.slice(0, idx).trim();
+      const val = l.slice(idx + 1).trim().replace(/^["']|["']$/g, '');
+      return [key, val];
+    })
+);
+
+const sql = postgres(env['DATABASE_URL'], { ssl: 'require' });
+
+interface SpotifyAlbumTracks {
+  tracks: {
+    items: {
+      id: string;
+      name: string;
+      track_number: number;
+      disc_number: number;
+      duration_ms: number;
+      explicit: boolean;
+      preview_url: string | null;
+    }[];
+  };
+}
+
+async function getSpotifyToken(): Promise<string> {
+  const credentials = Buffer.from(`${env['SPOTIFY_CLIENT_ID']}:${env['SPOTIFY_CLIENT_SECRET']}`).toString('base64');
+  const response = await fetch('https://accounts.spotify.com/api/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Authorization: `Basic ${credentials}` },
+    body: 'grant_type=client_credentials',
+  });
+  if (!response.ok) throw new Error(`Failed to get Spotify token: ${response.status}`);
+  return (await response.json()).access_token;
+}
+
+async function fetchTrackList(spotifyId: string, token: string): Promise<AlbumTrack[] | null> {
+  const headers = { Authorization: `Bearer ${token}` };
+
+  const albumResponse = await fetch(`https://api.spotify.com/v1/albums/${spotifyId}`, { headers });
+  if (!albumResponse.ok) return null;
+  const album: SpotifyAlbumTracks = await albumResponse.json();
+
+  const ids = album.tracks.items.slice(0, 50).map(t => t.id).join(',');
+  const tracksResponse = await fetch(`https://api.spotify.com/v1/tracks?ids=${ids}`, { headers });
+  const isrcs = new Map<string, string>();
+  if (tracksResponse.ok) {
+    const data: { tracks: ({ id: string; external_ids?: { isrc?: string } } | null)[] } = await tracksResponse.json();
+    for (const track of data.tracks) {
+      if (track?.external_ids?.isrc) isrcs.set(track.id, track.external_ids.isrc);
+    }
+  }
+
+  return album.tracks.items
+    .sort((a, b) => a.disc_number - b.disc_number || a.track_number - b.track_number)
+    .map(t => ({
+      id: t.id,
+      number: t.track_number,
+      disc: t.disc_number,
+      title: t.name,
+      durationMs: t.duration_ms,
+      explicit: t.explicit,
+      previewUrl: t.preview_url,
+      isrc: isrcs.get(t.id) ?? null,
+    }));
+}
+
+async function main() {
+  const token = await getSpotifyToken();
+
+  const pending = await sql`
+    SELECT id, spotify_id, most_loved_track FROM albums
+    WHERE track_list IS NULL AND spotify_id IS NOT NULL
+    ORDER BY created_at`;
+  console.log(`${pending.length} albums without a track list`);
+
+  let stored = 0;
+  let rekeyed = 0;
+  for (const album of pending) {
+    const trackList = await fetchTrackList(album.spotify_id, token);
+    if (!trackList) {
+      console.log(`  ${album.spotify_id}: not found on Spotify, keeping track names`);
+      continue;
+    }
+
+    await sql`UPDATE albums SET track_list = ${JSON.stringify(trackList)}::jsonb WHERE id = ${album.id}`;
+    stored++;
+
+    for (const track of trackList) {
+      const updated = await sql`
+        UPDATE reviews SET favorite_track_id = ${track.id}
+        WHERE album_id = ${album.id} AND favorite_track_id IS NULL AND favorite_track = ${track.title}`;
+      rekeyed += updated.count;
+    }
+
+    const mostLoved = trackList.find(t => t.title === album.most_loved_track);
+    if (mostLoved) {
+      await sql`UPDATE albums SET most_loved_track_id = ${mostLoved.id} WHERE id = ${album.id}`;
+    }
+  }
+
+  console.log(`Stored ${stored} track lists, keyed ${rekeyed} favorite tracks by id`);
+
+  await sql.end();
+}
+
+main().catch(console.error);
@@ -0,0 +1,84 @@
+import postgres from 'postgres';
+import * as fs from 'fs';
+
+/**
+ * One-off backfill for identity-keyed profiles. Early submissions, votes and
+ * reviews only recorded the Farcaster FID; profiles now read by `users.id`.
+ * This gives every legacy FID a `users` row (named from its submissions or
+ * reviews) and fills `submitted_by_user_id`, `voter_id` and `reviewer_id`
+ * from it. A legacy vote or review that duplicates one the same user already
+ * cast under their user id is dropped. Safe to re-run.
+ */
+
+const env = Object.fromEntries(
+  fs.readFileSync('.env.local', 'utf8')
+    .split('\n')
+    .filter(l => l.includes('=') && !l.startsWith('#'))
+    .map(l => {
+      const idx = l.indexOf('=');
+      const key = l.slice(0, idx).trim();
+      const val = l.slice(idx + 1).trim().replace(/^["']|["']$/g, '');
+      return [key, val];
+    })
+);
+
+const sql = postgres(env['DATABASE_URL'], { ssl: 'require' });
+
+async function main() {
+  // Users for FIDs that only appear on legacy rows; the most recent name wins
+  const created = await sql`
+    INSERT INTO users (fid, username, display_name, pfp_url, auth_provider)
+    SELECT DISTINCT ON (legacy.fid) legacy.fid, legacy.username, legacy.username, legacy.pfp, 'farcaster'
+    FROM (
+      SELECT submitted_by_fid AS fid, submitted_by_username AS username, NULL AS pfp, created_at
+        FROM albums WHERE submitted_by_fid IS NOT NULL
+      UNION ALL
+      SELECT reviewer_fid, reviewer_username, reviewer_pfp, created_at
+        FROM reviews WHERE reviewer_fid IS NOT NULL
+      UNION ALL
+      SELECT voter_fid, 'fid' || voter_fid, NULL, created_at
+        FROM votes WHERE voter_fid IS NOT NULL
+    ) legacy
+    WHERE NOT EXISTS (SELECT 1 FROM users u WHERE u.fid = legacy.fid)
+    ORDER BY legacy.fid, (legacy.username LIKE 'fid%'), legacy.created_at DESC
+    RETURNING id`;
+  console.log(`Created ${created.length} users for legacy FIDs`);
+
+  // Drop legacy duplicates of votes / reviews the user already has under their id
+  const droppedVotes = await sql`
+    DELETE FROM votes legacy USING users u
+    WHERE legacy.voter_id IS NULL AND u.fid = legacy.voter_fid
+      AND EXISTS (SELECT 1 FROM votes v WHERE v.album_id = legacy.album_id AND v.voter_id = u.id)
+    RETURNING legacy.id`;
+  const droppedReviews = await sql`
+    DELETE FROM reviews legacy USING users u
+    WHERE legacy.reviewer_id IS NULL AND u.fid = legacy.reviewer_fid
+      AND EXISTS (SELECT 1 FROM reviews r WHERE r.album_id = legacy.album_id AND r.reviewer_id = u.id)
+    RETURNING legacy.id`;
+  console.log(`Dropped ${droppedVotes.length} duplicate votes and ${droppedReviews.length} duplicate reviews`);
+
+  const albums = await sql`
+    UPDATE albums a SET submitted_by_user_id = u.id FROM users u
+    WHERE a.submitted_by_user_id IS NULL AND u.fid = a.submitted_by_fid
+    RETURNING a.id`;
+  const votes = await sql`
+    UPDATE votes v SET voter_id = u.id FROM users u
+    WHERE v.voter_id IS NULL AND u.fid = v.voter_fid
+    RETURNING v.id`;
+  const reviews = await sql`
+    UPDATE reviews r SET reviewer_id = u.id FROM users u
+    WHERE r.reviewer_id IS NULL AND u.fid = r.reviewer_fid
+    RETURNING r.id`;
+  console.log(`Linked ${albums.length} albums, ${votes.length} votes and ${reviews.length} reviews to users`);
+
+  const [left] = await sql`
+    SELECT
+      (SELECT count(*) FROM albums WHERE submitted_by_user_id IS NULL)::int AS albums,
+      (SELECT count(*) FROM votes WHERE voter_id IS NULL)::int AS votes,
+      (SELECT count(*) FROM reviews WHERE reviewer_id IS NULL)::int AS reviews`;
+  console.log('Rows still without a user id:', left);
+
+  await sql.end();
+}
+
+main().catch(console.error);
@@ -0,0 +1,44 @@
+import postgres from 'postgres';
+import * as fs from 'fs';
+
+/**
+ * One-off migration for half-star ratings. Run before `db:push`: converts
+ * `reviews.rating` from integer to real in place (every existing 1–5 rating
+ * keeps its value, so album averages don't change) and swaps the
+ * `rating_1_to_5` check for `rating_half_stars`. Safe to re-run.
+ */
+
+const env = Object.fromEntries(
+  fs.readFileSync('.env.local', 'utf8')
+    .split('\n')
+    .filter(l => l.includes('=') && !l.startsWith('#'))
+    .map(l => {
+      const idx = l.indexOf('=');
+      const key = l.slice(0, idx).trim();
+      const val = l.slice(idx + 1).trim().replace(/^["']|["']$/g, '');
+      return [key, val];
+    })
+);
+
+const sql = postgres(env['DATABASE_URL'], { ssl: 'require' });
+
+async function main() {
+  const [before] = await sql`SELECT count(*)::int AS count, coalesce(sum(rating), 0)::float AS total FROM reviews`;
+
+  await sql`ALTER TABLE reviews DROP CONSTRAINT IF EXISTS rating_1_to_5`;
+  await sql`ALTER TABLE reviews ALTER COLUMN rating SET DATA TYPE real USING rating::real`;
+  await sql`ALTER TABLE reviews DROP CONSTRAINT IF EXISTS rating_half_stars`;
+  await sql`
+    ALTER TABLE reviews ADD CONSTRAINT rating_half_stars
+    CHECK (rating >= 0.5 AND rating <= 5 AND rating * 2 = round(rating * 2))`;
+
+  const [after] = await sql`SELECT count(*)::int AS count, coalesce(sum(rating), 0)::float AS total FROM reviews`;
+  if (before.count !== after.count || before.total !== after.total) {
+    throw new Error(`Ratings changed during migration: ${before.total} over ${before.count} reviews, now ${after.total} over ${after.count}`);
+  }
+
+  console.log(`Done — ${after.count} existing ratings kept on the half-star scale`);
+  await sql.end();
+}
+
+main().catch(console.error);
@@ -0,0 +1,24 @@
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import { MiniApp } from "@/features/app/mini-app";
+import { getAlbumPageMetadata, loadAlbum, loadAlbumReviews, toAlbumData } from "@/lib/album-page";
+
+export async function generateMetadata({
+  params,
+}: PageProps<"/album/[id]">): Promise<Metadata> {
+  const { id } = await params;
+  const album = await loadAlbum(id);
+  if (!album) return {};
+
+  return getAlbumPageMetadata(album, `/album/${album.id}`);
+}
+
+export default async function AlbumPage({ params }: PageProps<"/album/[id]">) {
+  const { id } = await params;
+  const album = await loadAlbum(id);
+  if (!album) notFound();
+
+  const reviews = await loadAlbumReviews(album.id);
+
+  return <MiniApp deepLink={{ album: toAlbumData(album), reviews }} />;
+}
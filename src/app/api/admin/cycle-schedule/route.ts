@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/neynar-db-sdk/db';
+import { cycleSchedules } from '@/db/schema';
+import { computeCycleBoundaries, getCycleSchedules, validateCycleSchedule } from '@/lib/cycle-schedule';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { resolveGroup } from '@/lib/groups';
+
+/**
+ * Admin endpoint: List a group's cycle schedules
+ * GET /api/admin/cycle-schedule?group=<slug>
+ *
+ * Returns every schedule of the group (default group if omitted) plus the
+ * boundaries of its cycle containing now.
+ */
+export async function GET(request: Request) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const group = await resolveGroup(new URL(request.url).searchParams.get('group'));
+    if (!group) {
+      return NextResponse.json({ error: 'Unknown group' }, { status: 404 });
+    }
+
+    const schedules = await getCycleSchedules(group.id);
+    return NextResponse.json({
+      group,
+      schedules,
+      currentBoundaries: computeCycleBoundaries(new Date(), schedules),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Admin endpoint: Change cadence for future cycles
+ * POST /api/admin/cycle-schedule
+ *
+ * Body: { group?: slug, timezone, cycleLengthDays, votingLengthDays, reviewOffsetDays, effectiveFrom,
+ *         votingMode?: 'upvote' | 'ranked' | 'quadratic', maxRankedChoices?, voteCredits?, maxSubmissions? }
+ * `effectiveFrom` must be a future local midnight in `timezone`; it starts the
+ * first cycle under the new cadence. Existing cycles are never rewritten.
+ */
+export async function POST(request: Request) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const group = await resolveGroup(body.group === undefined ? null : String(body.group));
+  if (!group) {
+    return NextResponse.json({ error: 'Unknown group' }, { status: 404 });
+  }
+
+  const schedule = {
+    timezone: String(body.timezone ?? ''),
+    cycleLengthDays: Number(body.cycleLengthDays),
+    votingLengthDays: Number(body.votingLengthDays),
+    reviewOffsetDays: Number(body.reviewOffsetDays),
+    effectiveFrom: new Date(String(body.effectiveFrom ?? '')),
+    votingMode: String(body.votingMode ?? 'upvote'),
+    maxRankedChoices: body.maxRankedChoices === undefined ? 3 : Number(body.maxRankedChoices),
+    voteCredits: body.voteCredits === undefined ? 5 : Number(body.voteCredits),
+    maxSubmissions: body.maxSubmissions === undefined ? 3 : Number(body.maxSubmissions),
+  };
+
+  const validationError = validateCycleSchedule(schedule);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+  if (schedule.effectiveFrom.getTime() <= Date.now()) {
+    return NextResponse.json(
+      { error: 'effectiveFrom must be in the future — past cycles keep their schedule' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [created] = await db
+      .insert(cycleSchedules)
+      .values({ ...schedule, groupId: group.id })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!created) {
+      return NextResponse.json(
+        { error: 'A schedule already starts at that time' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, schedule: created });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
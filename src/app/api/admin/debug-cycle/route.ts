@@ -20,13 +20,12 @@ export async function GET(_request: Request) {
     .from(cycles)
     .orderBy(desc(cycles.weekNumber));
 
-  // What getCurrentCycle() returns (max weekNumber for current year)
-  const currentYear = now.getFullYear();
-  const byCycleYear = await db
+  // What getCurrentCycle() returns (latest cycle that has started)
+  const byStartDate = await db
     .select()
     .from(cycles)
-    .where(eq(cycles.year, currentYear))
-    .orderBy(desc(cycles.weekNumber))
+    .where(lte(cycles.startDate, now))
+    .orderBy(desc(cycles.startDate))
     .limit(1);
 
   // What getOrCreateCurrentCycle() finds (time-range)
@@ -45,10 +44,10 @@ export async function GET(_request: Request) {
 
   return NextResponse.json({
     serverNow: now.toISOString(),
-    currentYear,
     env: { DATABASE_URL: dbUrlStatus, dbType },
     allCycles: allCycles.map((c) => ({
       id: c.id,
+      groupId: c.groupId,
       weekNumber: c.weekNumber,
       year: c.year,
       phase: c.phase,
@@ -57,7 +56,7 @@ export async function GET(_request: Request) {
       votingEndsAt: c.votingEndsAt,
       winnerId: c.winnerId,
     })),
-    getCurrentCycleResult: byCycleYear[0] ?? null,
+    getCurrentCycleResult: byStartDate[0] ?? null,
     getOrCreateResult_timeRange: byTimeRange[0] ?? null,
     albumsForActiveCycle: cycleAlbums.map((a) => ({
       id: a.id,
@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/neynar-db-sdk/db';
+import { eq } from 'drizzle-orm';
+import { groups, groupMembers, cycleSchedules, users } from '@/db/schema';
+import { DEFAULT_CYCLE_SCHEDULE, nextLocalMidnight, validateCycleSchedule } from '@/lib/cycle-schedule';
+import { listGroups, validateGroup } from '@/lib/groups';
+import { isAdminRequest } from '@/lib/admin-auth';
+
+/**
+ * Admin endpoint: List groups
+ * GET /api/admin/groups
+ */
+export async function GET(request: Request) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({ groups: await listGroups() });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Admin endpoint: Create a group
+ * POST /api/admin/groups
+ *
+ * Body: { slug, name, visibility?, ownerUserId?, timezone? }
+ * `visibility` is 'open' (default) or 'invite'. `ownerUserId` (a users.id)
+ * joins as the group's owner and can then invite members and assign roles;
+ * invite-only groups require one. The group gets the default cadence in `timezone` (Asia/Jakarta if omitted),
+ * starting at the next local midnight; the next cron tick creates its first
+ * cycle. Change the cadence with /api/admin/cycle-schedule.
+ */
+export async function POST(request: Request) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const group = {
+    slug: String(body.slug ?? ''),
+    name: String(body.name ?? '').trim(),
+    visibility: String(body.visibility ?? 'open'),
+  };
+  const validationError = validateGroup(group);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const ownerUserId = body.ownerUserId ? String(body.ownerUserId) : null;
+  if (group.visibility === 'invite' && !ownerUserId) {
+    return NextResponse.json({ error: 'Invite-only groups need an ownerUserId' }, { status: 400 });
+  }
+  if (ownerUserId) {
+    const [owner] = await db.select({ id: users.id }).from(users).where(eq(users.id, ownerUserId)).limit(1);
+    if (!owner) {
+      return NextResponse.json({ error: `Unknown user: ${ownerUserId}` }, { status: 400 });
+    }
+  }
+
+  const timezone = String(body.timezone ?? DEFAULT_CYCLE_SCHEDULE.timezone);
+  let effectiveFrom: Date;
+  try {
+    effectiveFrom = nextLocalMidnight(new Date(), timezone);
+  } catch {
+    return NextResponse.json({ error: `Unknown timezone: ${timezone}` }, { status: 400 });
+  }
+
+  const schedule = { ...DEFAULT_CYCLE_SCHEDULE, timezone, effectiveFrom };
+  const scheduleError = validateCycleSchedule(schedule);
+  if (scheduleError) {
+    return NextResponse.json({ error: scheduleError }, { status: 400 });
+  }
+
+  try {
+    const created = await db.transaction(async (tx) => {
+      const [row] = await tx.insert(groups).values(group).onConflictDoNothing().returning();
+      if (!row) return null;
+
+      await tx.insert(cycleSchedules).values({ ...schedule, groupId: row.id });
+      if (ownerUserId) {
+        await tx.insert(groupMembers).values({ groupId: row.id, userId: ownerUserId, role: 'owner' });
+      }
+      return row;
+    });
+
+    if (!created) {
+      return NextResponse.json({ error: 'A group with that slug already exists' }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, group: created, firstCycleStarts: schedule.effectiveFrom });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
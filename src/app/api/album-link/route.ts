@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveAlbumUrl } from '@/lib/album-links';
+import { parseAlbumUrl } from '@/lib/album-urls';
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const url = searchParams.get('url');
+
+  if (!url) {
+    return NextResponse.json(
+      { error: 'Missing url parameter' },
+      { status: 400 }
+    );
+  }
+
+  if (!parseAlbumUrl(url)) {
+    return NextResponse.json(
+      { error: 'Not a supported album link' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const album = await resolveAlbumUrl(url);
+
+    if (!album) {
+      return NextResponse.json(
+        { error: 'Album not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(album);
+  } catch (error) {
+    console.error('Error resolving album link:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch album data' },
+      { status: 500 }
+    );
+  }
+}
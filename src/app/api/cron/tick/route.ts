@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { runCycleTick } from '@/lib/cycle-tick';
+import { isCronRequest } from '@/lib/admin-auth';
+
+/**
+ * Cron endpoint: Perform due cycle transitions
+ * GET /api/cron/tick
+ *
+ * Closes voting (and picks the winner), opens reviews, closes ended cycles and
+ * creates the next cycle — each recorded once in `cycle_events`. Idempotent,
+ * so it can run every few minutes. Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: Request) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const transitions = await runCycleTick(new Date());
+    return NextResponse.json({ success: true, transitions });
+  } catch (error) {
+    console.error('Cycle tick failed:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
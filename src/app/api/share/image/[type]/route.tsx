@@ -1,6 +1,7 @@
 import { NextRequest } from "next/server";
 import { publicConfig } from "@/config/public-config";
 import { getShareImageResponse, parseNextRequestSearchParams } from "@/neynar-farcaster-sdk/nextjs";
+import { formatRating } from "@/lib/ratings";
 
 // Cache for 1 hour - query strings create separate cache entries
 export const revalidate = 3600;
@@ -101,7 +102,7 @@ export async function GET(
     const albumTitle = searchParams.albumTitle ?? 'Album';
     const artist = searchParams.artist ?? 'Artist';
     const weekNumber = searchParams.weekNumber ?? '1';
-    const avgRating = searchParams.avgRating ?? '0';
+    const avgRating = formatRating(searchParams.avgRating ?? '0');
     const totalReviews = searchParams.totalReviews ?? '0';
 
     overlayJSX = (
@@ -245,7 +246,7 @@ export async function GET(
     const year = searchParams.year ?? new Date().getFullYear().toString();
     const albumsCompleted = searchParams.albumsCompleted ?? '0';
     const totalReviews = searchParams.totalReviews ?? '0';
-    const avgRating = searchParams.avgRating ?? '0';
+    const avgRating = formatRating(searchParams.avgRating ?? '0');
 
     overlayJSX = (
       <div
@@ -359,6 +360,213 @@ export async function GET(
         </div>
       </div>
     );
+  } else if (shareType === 'wrapped') {
+    // Wrapped - a member's year-end recap
+    const year = searchParams.year ?? new Date().getFullYear().toString();
+    const username = searchParams.username ?? 'member';
+    const albumsListened = searchParams.albumsListened ?? '0';
+    const reviewsWritten = searchParams.reviewsWritten ?? '0';
+    const avgRating = formatRating(searchParams.avgRating);
+    const othersAvgRating = formatRating(searchParams.othersAvgRating);
+    const topGenre = searchParams.topGenre;
+    const winRate = searchParams.winRate;
+
+    const stats = [
+      { value: parseInt(reviewsWritten).toLocaleString(), label: 'Reviews' },
+      { value: `${avgRating}/5`, label: `Avg vs ${othersAvgRating} others` },
+      ...(topGenre ? [{ value: topGenre, label: 'Top Genre' }] : []),
+      ...(winRate ? [{ value: `${winRate}%`, label: 'Win Rate' }] : []),
+    ];
+
+    overlayJSX = (
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'flex-start',
+          justifyContent: 'flex-end',
+          width: '100%',
+          height: '100%',
+          padding: 40,
+        }}
+      >
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: 16,
+            backgroundColor: 'rgba(0,0,0,0.85)',
+            borderRadius: 16,
+            padding: '28px 36px',
+            border: '1px solid rgba(255,255,255,0.1)',
+            boxShadow: '0 8px 32px rgba(0,0,0,0.5)',
+          }}
+        >
+          <div
+            style={{
+              display: 'flex',
+              fontSize: 14,
+              color: 'rgba(255,255,255,0.5)',
+              textTransform: 'uppercase',
+              letterSpacing: 2,
+            }}
+          >
+            @{username}&apos;s {year} Wrapped
+          </div>
+          <div
+            style={{
+              display: 'flex',
+              fontSize: 42,
+              fontWeight: 'bold',
+              color: 'white',
+            }}
+          >
+            {albumsListened} Albums Listened
+          </div>
+          <div
+            style={{
+              display: 'flex',
+              gap: 32,
+              marginTop: 4,
+            }}
+          >
+            {stats.map((stat) => (
+              <div
+                key={stat.label}
+                style={{
+                  display: 'flex',
+                  flexDirection: 'column',
+                  gap: 4,
+                }}
+              >
+                <div
+                  style={{
+                    display: 'flex',
+                    fontSize: 28,
+                    fontWeight: 'bold',
+                    color: 'white',
+                  }}
+                >
+                  {stat.value}
+                </div>
+                <div
+                  style={{
+                    display: 'flex',
+                    fontSize: 12,
+                    color: 'rgba(255,255,255,0.5)',
+                    textTransform: 'uppercase',
+                  }}
+                >
+                  {stat.label}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  } else if (shareType === 'profile') {
+    // Profile page - a member's all-time stats
+    const username = searchParams.username ?? 'member';
+    const totalSubmissions = searchParams.totalSubmissions ?? '0';
+    const totalWins = searchParams.totalWins ?? '0';
+    const totalReviews = searchParams.totalReviews ?? '0';
+    const avgRating = formatRating(searchParams.avgRating);
+
+    const stats = [
+      { value: totalSubmissions, label: 'Submitted' },
+      { value: totalWins, label: 'Wins' },
+      { value: parseInt(totalReviews).toLocaleString(), label: 'Reviews' },
+      { value: `${avgRating}/5`, label: 'Avg Rating' },
+    ];
+
+    overlayJSX = (
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'flex-start',
+          justifyContent: 'flex-end',
+          width: '100%',
+          height: '100%',
+          padding: 40,
+        }}
+      >
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: 16,
+            backgroundColor: 'rgba(0,0,0,0.85)',
+            borderRadius: 16,
+            padding: '28px 36px',
+            border: '1px solid rgba(255,255,255,0.1)',
+            boxShadow: '0 8px 32px rgba(0,0,0,0.5)',
+          }}
+        >
+          <div
+            style={{
+              display: 'flex',
+              fontSize: 14,
+              color: 'rgba(255,255,255,0.5)',
+              textTransform: 'uppercase',
+              letterSpacing: 2,
+            }}
+          >
+            Playgroup Member
+          </div>
+          <div
+            style={{
+              display: 'flex',
+              fontSize: 42,
+              fontWeight: 'bold',
+              color: 'white',
+            }}
+          >
+            @{username}
+          </div>
+          <div
+            style={{
+              display: 'flex',
+              gap: 32,
+              marginTop: 4,
+            }}
+          >
+            {stats.map((stat) => (
+              <div
+                key={stat.label}
+                style={{
+                  display: 'flex',
+                  flexDirection: 'column',
+                  gap: 4,
+                }}
+              >
+                <div
+                  style={{
+                    display: 'flex',
+                    fontSize: 28,
+                    fontWeight: 'bold',
+                    color: 'white',
+                  }}
+                >
+                  {stat.value}
+                </div>
+                <div
+                  style={{
+                    display: 'flex',
+                    fontSize: 12,
+                    color: 'rgba(255,255,255,0.5)',
+                    textTransform: 'uppercase',
+                  }}
+                >
+                  {stat.label}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
   }
 
   return getShareImageResponse(
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { searchAlbum, isSpotifyConfigured } from '@/lib/spotify';
+import { searchAlbums, isSpotifyConfigured } from '@/lib/spotify';
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const q = searchParams.get('q');
+  const offset = Number(searchParams.get('offset') ?? 0);
 
   if (!q) {
     return NextResponse.json(
@@ -12,6 +13,13 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  if (!Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json(
+      { error: 'offset must be a non-negative integer' },
+      { status: 400 }
+    );
+  }
+
   const configured = await isSpotifyConfigured();
   if (!configured) {
     return NextResponse.json(
@@ -21,16 +29,23 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const metadata = await searchAlbum(q);
+    const page = await searchAlbums(q, offset);
+
+    if (!page) {
+      return NextResponse.json(
+        { error: 'Failed to search album' },
+        { status: 500 }
+      );
+    }
 
-    if (!metadata) {
+    if (page.items.length === 0 && offset === 0) {
       return NextResponse.json(
         { error: 'Album not found' },
         { status: 404 }
       );
     }
 
-    return NextResponse.json(metadata);
+    return NextResponse.json(page);
   } catch (error) {
     console.error('Error searching album:', error);
     return NextResponse.json(
@@ -0,0 +1,26 @@
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import { MiniApp } from "@/features/app/mini-app";
+import { getProfilePageMetadata, loadProfile, loadUser } from "@/lib/profile-page";
+
+export async function generateMetadata({
+  params,
+}: PageProps<"/u/[username]">): Promise<Metadata> {
+  const { username } = await params;
+  const user = await loadUser(username);
+  if (!user) return {};
+
+  return getProfilePageMetadata(user);
+}
+
+export default async function UserPage({ params }: PageProps<"/u/[username]">) {
+  const { username } = await params;
+  const user = await loadUser(username);
+  if (!user) notFound();
+
+  const profile = await loadProfile(user.userId);
+
+  const { userId, ...userInfo } = user;
+
+  return <MiniApp profileLink={{ userId, userInfo, profile }} />;
+}
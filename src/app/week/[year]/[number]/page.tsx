@@ -0,0 +1,30 @@
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import { MiniApp } from "@/features/app/mini-app";
+import { getAlbumPageMetadata, loadAlbumReviews, loadWeekAlbum, toAlbumData } from "@/lib/album-page";
+
+// ?group=slug picks another group's week; the default group otherwise
+async function loadFromProps({ params, searchParams }: PageProps<"/week/[year]/[number]">) {
+  const [{ year, number }, { group }] = await Promise.all([params, searchParams]);
+  const groupSlug = typeof group === "string" ? group : undefined;
+  const album = await loadWeekAlbum(Number(year), Number(number), groupSlug);
+
+  return { album, path: groupSlug ? `/album/${album?.id}` : `/week/${year}/${number}` };
+}
+
+export async function generateMetadata(props: PageProps<"/week/[year]/[number]">): Promise<Metadata> {
+  const { album, path } = await loadFromProps(props);
+  if (!album) return {};
+
+  // The embed launches on the week link itself, or the album link for other groups
+  return getAlbumPageMetadata(album, path);
+}
+
+export default async function WeekPage(props: PageProps<"/week/[year]/[number]">) {
+  const { album } = await loadFromProps(props);
+  if (!album) notFound();
+
+  const reviews = await loadAlbumReviews(album.id);
+
+  return <MiniApp deepLink={{ album: toAlbumData(album), reviews }} />;
+}
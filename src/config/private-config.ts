@@ -6,9 +6,17 @@ const privateConfigSchema = z.object({
     .string()
     .min(1, "NEYNAR_API_KEY environment variable is required"),
   coingeckoApiKey: z.string().optional(),
+  privyAppSecret: z.string().optional(),
+  adminSecret: z.string().optional(),
+  cronSecret: z.string().optional(),
+  streamingLinksProvider: z.enum(["live", "fixture"]).optional(),
 });
 
 export const privateConfig = privateConfigSchema.parse({
   neynarApiKey: process.env.NEYNAR_API_KEY,
   coingeckoApiKey: process.env.COINGECKO_API_KEY,
+  privyAppSecret: process.env.PRIVY_APP_SECRET,
+  adminSecret: process.env.ADMIN_SECRET,
+  cronSecret: process.env.CRON_SECRET,
+  streamingLinksProvider: process.env.STREAMING_LINKS_PROVIDER,
 });
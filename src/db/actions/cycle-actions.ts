@@ -1,172 +1,79 @@
 'use server';
 
 import { db } from '@/neynar-db-sdk/db';
-import { cycles, albums, votes } from '@/db/schema';
-import { eq, desc, and, sql, getTableColumns, lte, gte } from 'drizzle-orm';
-
-// ===========================================
-// CYCLE TIMING CONSTANTS (Jakarta UTC+7)
-// ===========================================
-
-// Anchor: Mar 2 2026 00:00:00 Jakarta = Mar 1 2026 17:00:00 UTC
-const ANCHOR_UTC = new Date('2026-03-01T17:00:00.000Z');
-const JAKARTA_OFFSET_MS = 7 * 60 * 60 * 1000; // UTC+7
-const CYCLE_MS = 14 * 24 * 60 * 60 * 1000;    // 14 days
-const VOTING_MS = 7 * 24 * 60 * 60 * 1000;    // 7 days voting
-const REVIEW_OFFSET_MS = 11 * 24 * 60 * 60 * 1000; // reviews open on day 12 (3 days before end)
-
-/**
- * Compute the anchor-based cycle boundaries for the cycle that contains `now`.
- * All boundaries are in absolute UTC milliseconds; they correspond to exact
- * Jakarta-midnight boundaries since the anchor is a Jakarta midnight.
- *
- * Cycle 1 example (Jakarta times):
- *   startDate    = Mar 2  00:00:00
- *   votingEndsAt = Mar 9  00:00:00  ("Mar 8 midnight")
- *   reviewOpensAt= Mar 13 00:00:00  (last 3 days of listening)
- *   endDate      = Mar 15 23:59:59.999
- *   Next cycle   = Mar 16 00:00:00
- */
-function computeCycleBoundaries(now: Date) {
-  const elapsed = now.getTime() - ANCHOR_UTC.getTime();
-  const cycleNum = Math.max(0, Math.floor(elapsed / CYCLE_MS));
-
-  const startDate = new Date(ANCHOR_UTC.getTime() + cycleNum * CYCLE_MS);
-  const votingEndsAt = new Date(startDate.getTime() + VOTING_MS);
-  const reviewOpensAt = new Date(startDate.getTime() + REVIEW_OFFSET_MS);
-  const endDate = new Date(startDate.getTime() + CYCLE_MS - 1); // 1ms before next cycle
-
-  const weekNumber = cycleNum + 1; // 1-indexed
-  // Derive year from the Jakarta start date
-  const year = new Date(startDate.getTime() + JAKARTA_OFFSET_MS).getUTCFullYear();
-
-  return { cycleNum, weekNumber, year, startDate, votingEndsAt, reviewOpensAt, endDate };
-}
+import { cycles, albums } from '@/db/schema';
+import { eq, asc, desc, and, lte, sql, inArray, getTableColumns } from 'drizzle-orm';
+import { effectivePhase } from '@/lib/cycle-phase';
+import { getSessionUser } from '@/lib/session';
+import { checkGroupAccess, checkCycleAccess } from '@/lib/groups';
+import { isUuid } from '@/lib/ids';
 
 /**
- * Get the current active cycle
+ * Get a group's current active cycle (the latest one that has started)
+ * Ordered by start date rather than filtered by calendar year, so the cycle
+ * running across New Year stays current whatever the server's time zone.
  */
-export async function getCurrentCycle() {
+async function getCurrentCycle(groupId: string) {
   const now = new Date();
-  const currentYear = now.getFullYear();
 
   // Get the most recent cycle
   const result = await db
     .select()
     .from(cycles)
-    .where(eq(cycles.year, currentYear))
-    .orderBy(desc(cycles.weekNumber))
+    .where(and(eq(cycles.groupId, groupId), lte(cycles.startDate, now)))
+    .orderBy(desc(cycles.startDate))
     .limit(1);
 
   return result[0] ?? null;
 }
 
 /**
- * Get current cycle with countdown computed
- * Auto-transitions from voting to listening when voting period ends
+ * Get a group's current cycle with its authoritative phase and countdown computed
+ * Returns null when the caller can't see the group
+ * Read-only — phase transitions are performed by /api/cron/tick (see src/lib/cycle-tick.ts)
  */
-export async function getCycleWithCountdown() {
-  let cycle = await getCurrentCycle();
+export async function getCycleWithCountdown(authToken: string | null, groupId: string) {
+  const viewer = await getSessionUser(authToken);
+  if (await checkGroupAccess(groupId, viewer)) return null;
+
+  const cycle = await getCurrentCycle(groupId);
   if (!cycle) return null;
 
   const now = new Date();
+  const phase = effectivePhase(cycle, now);
 
-  // AUTO-TRANSITION: If voting period ended but phase is still 'voting', select winner
-  if (cycle.phase === 'voting' && now > cycle.votingEndsAt) {
-    const transitionResult = await autoTransitionToListening(cycle.id);
-    if (transitionResult.success) {
-      // Re-fetch the updated cycle
-      cycle = await getCurrentCycle();
-      if (!cycle) return null;
-    }
-  }
-
-  const targetDate = cycle.phase === 'voting' ? cycle.votingEndsAt : cycle.endDate;
+  // Count down to the end of voting while it's open, otherwise to the end of the cycle
+  const targetDate =
+    phase === 'upcoming' ? cycle.startDate : phase === 'voting' ? cycle.votingEndsAt : cycle.endDate;
   const diff = targetDate.getTime() - now.getTime();
 
   const days = Math.max(0, Math.floor(diff / (1000 * 60 * 60 * 24)));
   const hours = Math.max(0, Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60)));
   const minutes = Math.max(0, Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60)));
 
-  // Derive review window state
-  // null reviewOpensAt = old cycle, treat as always open during listening
-  const isReviewOpen =
-    cycle.phase === 'listening' &&
-    (cycle.reviewOpensAt === null || now >= cycle.reviewOpensAt);
-
   return {
     ...cycle,
-    isReviewOpen,
+    phase,
     countdown: { days, hours, minutes },
   };
 }
 
+// Cycle columns an album's phase is worked out from (see withCyclePhase)
+const albumCycleTimes = {
+  phase: cycles.phase,
+  startDate: cycles.startDate,
+  votingEndsAt: cycles.votingEndsAt,
+  reviewOpensAt: cycles.reviewOpensAt,
+  endDate: cycles.endDate,
+};
+
 /**
- * Auto-transition from voting to listening phase
- * Wrapped in a transaction to prevent race conditions from concurrent requests.
- * Re-checks cycle phase at the start for idempotency.
+ * An album row with its cycle's authoritative phase in place of the cycle columns
+ * Reviews of the album can only be written and edited while this is 'reviewing'
  */
-async function autoTransitionToListening(cycleId: string) {
-  return await db.transaction(async (tx) => {
-    // Re-check inside transaction: if another request already transitioned, skip
-    const [currentCycle] = await tx
-      .select()
-      .from(cycles)
-      .where(eq(cycles.id, cycleId))
-      .limit(1);
-
-    if (!currentCycle || currentCycle.phase !== 'voting') {
-      return { success: false, error: 'Already transitioned' };
-    }
-
-    // Single aggregating query replaces N+1 vote-count loop
-    const albumsWithVotes = await tx
-      .select({
-        ...getTableColumns(albums),
-        voteCount: sql<number>`count(${votes.id})::int`,
-      })
-      .from(albums)
-      .leftJoin(votes, eq(votes.albumId, albums.id))
-      .where(and(eq(albums.cycleId, cycleId), eq(albums.status, 'voting')))
-      .groupBy(albums.id);
-
-    if (albumsWithVotes.length === 0) {
-      // No submissions — transition to listening with no winner
-      await tx
-        .update(cycles)
-        .set({ phase: 'listening' })
-        .where(eq(cycles.id, cycleId));
-      return { success: true, winner: null };
-    }
-
-    // Find the highest vote count
-    const maxVotes = Math.max(...albumsWithVotes.map((a) => a.voteCount));
-    const topAlbums = albumsWithVotes.filter((a) => a.voteCount === maxVotes);
-
-    // Tiebreaker: earliest submission wins
-    topAlbums.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
-    const winner = topAlbums[0];
-
-    // Update winner status to 'selected'
-    await tx
-      .update(albums)
-      .set({ status: 'selected' })
-      .where(eq(albums.id, winner.id));
-
-    // Update all other voting albums to 'lost'
-    await tx
-      .update(albums)
-      .set({ status: 'lost' })
-      .where(and(eq(albums.cycleId, cycleId), eq(albums.status, 'voting')));
-
-    // Update cycle with winner and phase
-    await tx
-      .update(cycles)
-      .set({ winnerId: winner.id, phase: 'listening' })
-      .where(eq(cycles.id, cycleId));
-
-    return { success: true, winner };
-  });
+function withCyclePhase<T extends { cycle: Parameters<typeof effectivePhase>[0] }>(row: T, now: Date) {
+  const { cycle, ...album } = row;
+  return { ...album, cyclePhase: effectivePhase(cycle, now) };
 }
 
 /**
@@ -174,7 +81,10 @@ async function autoTransitionToListening(cycleId: string) {
  * Tries status='selected' first; falls back to cycle.winnerId in case the
  * album status is out of sync (e.g. manually inserted data).
  */
-export async function getCycleAlbum(cycleId: string) {
+export async function getCycleAlbum(authToken: string | null, cycleId: string) {
+  const viewer = await getSessionUser(authToken);
+  if (await checkCycleAccess(cycleId, viewer)) return null;
+
   const byStatus = await db
     .select()
     .from(albums)
@@ -202,10 +112,16 @@ export async function getCycleAlbum(cycleId: string) {
 }
 
 /**
- * Get past winning albums for archive
+ * Get a group's past winning albums for archive, newest first
+ * `year` is the cycle's own year (its local start date); omit it for all time.
  * Uses a JOIN instead of N+1 queries for cycle week numbers
+ * `editionOf` marks a winner that is another edition of an earlier winner
+ * (picked before editions were recognized at submission)
  */
-export async function getPastAlbums(_year?: number) {
+export async function getPastAlbums(authToken: string | null, groupId: string, year?: number) {
+  const viewer = await getSessionUser(authToken);
+  if (await checkGroupAccess(groupId, viewer)) return [];
+
   const result = await db
     .select({
       id: albums.id,
@@ -218,65 +134,133 @@ export async function getPastAlbums(_year?: number) {
       totalReviews: albums.totalReviews,
       cycleId: albums.cycleId,
       mostLovedTrack: albums.mostLovedTrack,
+      mostLovedTrackId: albums.mostLovedTrackId,
       mostLovedTrackVotes: albums.mostLovedTrackVotes,
       submittedByFid: albums.submittedByFid,
       submittedByUserId: albums.submittedByUserId,
       submittedByUsername: albums.submittedByUsername,
       submissionNote: albums.submissionNote,
       genres: albums.genres,
+      tracks: albums.tracks,
+      trackList: albums.trackList,
+      trackStats: albums.trackStats,
+      streamingLinks: albums.streamingLinks,
       createdAt: albums.createdAt,
       weekNumber: cycles.weekNumber,
+      year: cycles.year,
+      canonicalAlbumId: albums.canonicalAlbumId,
+      cycle: albumCycleTimes,
     })
     .from(albums)
     .innerJoin(cycles, eq(cycles.id, albums.cycleId))
-    .where(eq(albums.status, 'selected'))
-    .orderBy(desc(albums.createdAt));
+    .where(
+      and(
+        eq(cycles.groupId, groupId),
+        eq(albums.status, 'selected'),
+        year !== undefined ? eq(cycles.year, year) : undefined
+      )
+    )
+    .orderBy(desc(cycles.startDate));
+
+  // First win of each record in the list, across all of the group's years
+  const canonicalIds = [...new Set(result.map((a) => a.canonicalAlbumId).filter((id) => id !== null))];
+  const firstWins = canonicalIds.length > 0
+    ? await db
+        .selectDistinctOn([albums.canonicalAlbumId], {
+          canonicalAlbumId: albums.canonicalAlbumId,
+          albumId: albums.id,
+          weekNumber: cycles.weekNumber,
+          year: cycles.year,
+        })
+        .from(albums)
+        .innerJoin(cycles, eq(cycles.id, albums.cycleId))
+        .where(
+          and(
+            eq(cycles.groupId, groupId),
+            eq(albums.status, 'selected'),
+            inArray(albums.canonicalAlbumId, canonicalIds)
+          )
+        )
+        .orderBy(albums.canonicalAlbumId, asc(cycles.startDate))
+    : [];
+  const firstWinByCanonical = new Map(firstWins.map((w) => [w.canonicalAlbumId, w]));
 
-  return result;
+  const now = new Date();
+  return result.map((row) => {
+    const album = withCyclePhase(row, now);
+    const first = album.canonicalAlbumId ? firstWinByCanonical.get(album.canonicalAlbumId) : undefined;
+    return {
+      ...album,
+      editionOf: first && first.albumId !== album.id ? { weekNumber: first.weekNumber, year: first.year } : null,
+    };
+  });
+}
+
+/**
+ * Get the years a group has winners in, newest first, with the number of winners in each
+ */
+export async function getArchiveYears(authToken: string | null, groupId: string) {
+  const viewer = await getSessionUser(authToken);
+  if (await checkGroupAccess(groupId, viewer)) return [];
+
+  return await db
+    .select({ year: cycles.year, albums: sql<number>`count(*)::int` })
+    .from(albums)
+    .innerJoin(cycles, eq(cycles.id, albums.cycleId))
+    .where(and(eq(cycles.groupId, groupId), eq(albums.status, 'selected')))
+    .groupBy(cycles.year)
+    .orderBy(desc(cycles.year));
 }
 
 /**
  * Get album by ID with full details
  * Uses a JOIN instead of two separate queries
+ * Returns null for ids that aren't uuids, e.g. from a mistyped /album/[id] link
  */
-export async function getAlbumById(albumId: string) {
+export async function getAlbumById(authToken: string | null, albumId: string) {
+  if (!isUuid(albumId)) return null;
+
   const result = await db
     .select({
       ...getTableColumns(albums),
       weekNumber: cycles.weekNumber,
+      groupId: cycles.groupId,
+      cycle: albumCycleTimes,
     })
     .from(albums)
     .innerJoin(cycles, eq(cycles.id, albums.cycleId))
     .where(eq(albums.id, albumId))
     .limit(1);
 
-  return result[0] ?? null;
-}
+  const album = result[0];
+  if (!album) return null;
 
-/**
- * Create a new cycle (admin function)
- */
-export async function createCycle(data: {
-  weekNumber: number;
-  year: number;
-  phase: 'voting' | 'listening';
-  startDate: Date;
-  endDate: Date;
-  votingEndsAt: Date;
-  reviewOpensAt?: Date;
-}) {
-  const result = await db.insert(cycles).values(data).returning();
-  return result[0];
+  const viewer = await getSessionUser(authToken);
+  if (await checkGroupAccess(album.groupId, viewer)) return null;
+
+  return withCyclePhase(album, new Date());
 }
 
 /**
- * Update cycle phase
+ * Get the album picked in a group's week, by the cycle's year and week number
+ * Null when that week has no pick yet or the caller can't see the group
  */
-export async function updateCyclePhase(cycleId: string, phase: 'voting' | 'listening', winnerId?: string) {
-  await db
-    .update(cycles)
-    .set({ phase, winnerId })
-    .where(eq(cycles.id, cycleId));
+export async function getAlbumByWeek(authToken: string | null, groupId: string, year: number, weekNumber: number) {
+  const [pick] = await db
+    .select({ id: albums.id })
+    .from(albums)
+    .innerJoin(cycles, eq(cycles.id, albums.cycleId))
+    .where(
+      and(
+        eq(cycles.groupId, groupId),
+        eq(cycles.year, year),
+        eq(cycles.weekNumber, weekNumber),
+        eq(albums.status, 'selected')
+      )
+    )
+    .limit(1);
+
+  return pick ? getAlbumById(authToken, pick.id) : null;
 }
 
 /**
@@ -287,48 +271,3 @@ export async function getListenerCount(_cycleId: string): Promise<number> {
   // Placeholder for MVP - could track via KV store
   return 47;
 }
-
-/**
- * Get or create a current cycle — ensures there's always an active cycle.
- *
- * Looks for a cycle that time-covers `now` (startDate ≤ now ≤ endDate).
- * If none exists, creates one using the fixed Jakarta anchor and 14-day cadence
- * so cycles are always on the correct 2-week boundaries.
- */
-export async function getOrCreateCurrentCycle() {
-  const now = new Date();
-
-  // Find any cycle that currently covers this moment
-  const [active] = await db
-    .select()
-    .from(cycles)
-    .where(and(lte(cycles.startDate, now), gte(cycles.endDate, now)))
-    .orderBy(desc(cycles.weekNumber))
-    .limit(1);
-
-  if (active) return active;
-
-  // No active cycle — compute the correct boundaries from the anchor
-  const boundaries = computeCycleBoundaries(now);
-
-  // Find last cycle to avoid weekNumber collisions (use max of computed and DB max+1)
-  const [last] = await db
-    .select()
-    .from(cycles)
-    .orderBy(desc(cycles.weekNumber))
-    .limit(1);
-
-  const weekNumber = Math.max(boundaries.weekNumber, (last?.weekNumber ?? 0) + 1);
-
-  const newCycle = await createCycle({
-    weekNumber,
-    year: boundaries.year,
-    phase: 'voting',
-    startDate: boundaries.startDate,
-    endDate: boundaries.endDate,
-    votingEndsAt: boundaries.votingEndsAt,
-    reviewOpensAt: boundaries.reviewOpensAt,
-  });
-
-  return newCycle;
-}
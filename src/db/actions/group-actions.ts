@@ -0,0 +1,285 @@
+'use server';
+
+import { randomBytes } from 'crypto';
+import { db } from '@/neynar-db-sdk/db';
+import { groups, groupMembers, groupInvites, users } from '@/db/schema';
+import { eq, and, asc, sql } from 'drizzle-orm';
+import { getSessionUser } from '@/lib/session';
+import { listGroups, getGroupRole, GROUP_ROLES, type GroupRole } from '@/lib/groups';
+
+/** Longest an invite may stay valid */
+const MAX_INVITE_DAYS = 30;
+
+/**
+ * Why an invite can't be used right now, or null if it can
+ */
+function inviteError(invite: typeof groupInvites.$inferSelect, now: Date): string | null {
+  if (invite.revokedAt) return 'This invite was revoked';
+  if (invite.expiresAt && invite.expiresAt <= now) return 'This invite has expired';
+  if (invite.maxUses !== null && invite.useCount >= invite.maxUses) return 'This invite has been used up';
+  return null;
+}
+
+/**
+ * List the groups the caller can open, default group first
+ * Open groups are listed for everyone; invite-only groups only for their members.
+ */
+export async function getGroups(authToken: string | null) {
+  const viewer = await getSessionUser(authToken);
+  const allGroups = await listGroups();
+
+  const memberships = viewer
+    ? await db
+        .select({ groupId: groupMembers.groupId, role: groupMembers.role })
+        .from(groupMembers)
+        .where(eq(groupMembers.userId, viewer.id))
+    : [];
+  const roles = new Map(memberships.map((m) => [m.groupId, m.role as GroupRole]));
+
+  return allGroups
+    .filter((g) => g.visibility === 'open' || roles.has(g.id))
+    .map((g) => ({
+      id: g.id,
+      slug: g.slug,
+      name: g.name,
+      visibility: g.visibility as 'open' | 'invite',
+      role: roles.get(g.id) ?? null,
+    }));
+}
+
+/**
+ * Join an open group (joining twice is a no-op)
+ * The member is derived from the verified auth token
+ */
+export async function joinGroup(authToken: string, groupId: string) {
+  const user = await getSessionUser(authToken);
+  if (!user) {
+    return { success: false as const, error: 'Please sign in to join a group' };
+  }
+
+  const [group] = await db
+    .select({ id: groups.id, visibility: groups.visibility })
+    .from(groups)
+    .where(eq(groups.id, groupId))
+    .limit(1);
+
+  if (!group) {
+    return { success: false as const, error: 'Group not found' };
+  }
+  if (group.visibility !== 'open') {
+    return { success: false as const, error: 'This group is invite-only — ask a member for an invite link' };
+  }
+
+  await db.insert(groupMembers).values({ groupId, userId: user.id }).onConflictDoNothing();
+
+  return { success: true as const };
+}
+
+// ===========================================
+// INVITES
+// ===========================================
+
+/**
+ * Look up an invite for the join screen (no sign-in needed)
+ */
+export async function getInvite(code: string) {
+  const [row] = await db
+    .select({ invite: groupInvites, group: { slug: groups.slug, name: groups.name } })
+    .from(groupInvites)
+    .innerJoin(groups, eq(groups.id, groupInvites.groupId))
+    .where(eq(groupInvites.code, code.trim()))
+    .limit(1);
+
+  if (!row) return null;
+
+  return {
+    groupSlug: row.group.slug,
+    groupName: row.group.name,
+    error: inviteError(row.invite, new Date()),
+  };
+}
+
+/**
+ * Join a group with an invite code
+ * Wrapped in a transaction with the invite row locked so usage limits hold under concurrent joins
+ */
+export async function redeemInvite(authToken: string, code: string) {
+  const user = await getSessionUser(authToken);
+  if (!user) {
+    return { success: false as const, error: 'Please sign in to join this group' };
+  }
+
+  return await db.transaction(async (tx) => {
+    const [invite] = await tx
+      .select()
+      .from(groupInvites)
+      .where(eq(groupInvites.code, code.trim()))
+      .for('update')
+      .limit(1);
+
+    if (!invite) {
+      return { success: false as const, error: 'Invite not found' };
+    }
+
+    const [group] = await tx
+      .select({ slug: groups.slug, name: groups.name })
+      .from(groups)
+      .where(eq(groups.id, invite.groupId))
+      .limit(1);
+
+    // Already a member — nothing to use up
+    if (await getGroupRole(invite.groupId, user.id, tx)) {
+      return { success: true as const, groupSlug: group.slug, groupName: group.name };
+    }
+
+    const error = inviteError(invite, new Date());
+    if (error) {
+      return { success: false as const, error };
+    }
+
+    await tx.insert(groupMembers).values({ groupId: invite.groupId, userId: user.id });
+    await tx
+      .update(groupInvites)
+      .set({ useCount: sql`${groupInvites.useCount} + 1` })
+      .where(eq(groupInvites.id, invite.id));
+
+    return { success: true as const, groupSlug: group.slug, groupName: group.name };
+  });
+}
+
+/**
+ * Create an invite code for a group (owners and moderators only)
+ * `expiresInDays` is capped at 30; `maxUses` null = unlimited
+ */
+export async function createInvite(
+  authToken: string,
+  groupId: string,
+  options: { expiresInDays: number; maxUses: number | null }
+) {
+  const user = await getSessionUser(authToken);
+  if (!user) {
+    return { success: false as const, error: 'Please sign in to invite members' };
+  }
+
+  const role = await getGroupRole(groupId, user.id);
+  if (role !== 'owner' && role !== 'moderator') {
+    return { success: false as const, error: 'Only owners and moderators can invite members' };
+  }
+
+  if (!Number.isInteger(options.expiresInDays) || options.expiresInDays < 1 || options.expiresInDays > MAX_INVITE_DAYS) {
+    return { success: false as const, error: `Invites can last 1 to ${MAX_INVITE_DAYS} days` };
+  }
+  if (options.maxUses !== null && (!Number.isInteger(options.maxUses) || options.maxUses < 1)) {
+    return { success: false as const, error: 'Max uses must be at least 1' };
+  }
+
+  const [invite] = await db
+    .insert(groupInvites)
+    .values({
+      groupId,
+      code: randomBytes(6).toString('base64url'),
+      createdById: user.id,
+      expiresAt: new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000),
+      maxUses: options.maxUses,
+    })
+    .returning();
+
+  return { success: true as const, invite };
+}
+
+/**
+ * Revoke an invite so it can't be used any more (owners and moderators only)
+ */
+export async function revokeInvite(authToken: string, inviteId: string) {
+  const user = await getSessionUser(authToken);
+  if (!user) {
+    return { success: false as const, error: 'Please sign in to manage invites' };
+  }
+
+  const [invite] = await db.select().from(groupInvites).where(eq(groupInvites.id, inviteId)).limit(1);
+  if (!invite) {
+    return { success: false as const, error: 'Invite not found' };
+  }
+
+  const role = await getGroupRole(invite.groupId, user.id);
+  if (role !== 'owner' && role !== 'moderator') {
+    return { success: false as const, error: 'Only owners and moderators can manage invites' };
+  }
+
+  await db.update(groupInvites).set({ revokedAt: new Date() }).where(eq(groupInvites.id, inviteId));
+
+  return { success: true as const };
+}
+
+// ===========================================
+// MEMBERS
+// ===========================================
+
+/**
+ * List a group's members with their roles (members only)
+ */
+export async function getGroupMembers(authToken: string | null, groupId: string) {
+  const viewer = await getSessionUser(authToken);
+  if (!viewer || !(await getGroupRole(groupId, viewer.id))) return [];
+
+  const rows = await db
+    .select({
+      userId: groupMembers.userId,
+      role: groupMembers.role,
+      joinedAt: groupMembers.joinedAt,
+      username: users.username,
+    })
+    .from(groupMembers)
+    .innerJoin(users, eq(users.id, groupMembers.userId))
+    .where(eq(groupMembers.groupId, groupId))
+    .orderBy(asc(groupMembers.joinedAt));
+
+  return rows.map((r) => ({ ...r, role: r.role as GroupRole }));
+}
+
+/**
+ * Change a member's role (owners only)
+ * A group always keeps at least one owner.
+ */
+export async function setMemberRole(authToken: string, groupId: string, userId: string, role: GroupRole) {
+  const user = await getSessionUser(authToken);
+  if (!user) {
+    return { success: false as const, error: 'Please sign in to manage members' };
+  }
+
+  if (!GROUP_ROLES.includes(role)) {
+    return { success: false as const, error: 'Unknown role' };
+  }
+
+  return await db.transaction(async (tx) => {
+    // Serialize role changes in the group so two owners can't demote each other at once
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`group-roles:${groupId}`}))`);
+
+    if ((await getGroupRole(groupId, user.id, tx)) !== 'owner') {
+      return { success: false as const, error: 'Only owners can change roles' };
+    }
+
+    const current = await getGroupRole(groupId, userId, tx);
+    if (!current) {
+      return { success: false as const, error: 'Not a member of this group' };
+    }
+
+    if (current === 'owner' && role !== 'owner') {
+      const [owners] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(groupMembers)
+        .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.role, 'owner')));
+
+      if ((owners?.count ?? 0) <= 1) {
+        return { success: false as const, error: 'A group needs at least one owner' };
+      }
+    }
+
+    await tx
+      .update(groupMembers)
+      .set({ role })
+      .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)));
+
+    return { success: true as const };
+  });
+}
@@ -2,21 +2,32 @@
 
 import { db } from '@/neynar-db-sdk/db';
 import { albums, votes, reviews, users } from '@/db/schema';
-import { eq, desc, sql, min } from 'drizzle-orm';
+import { eq, ne, and, asc, desc, sql, min, inArray, isNotNull } from 'drizzle-orm';
+import { getSessionUser } from '@/lib/session';
+import { visibleCycleIds } from '@/lib/groups';
+
+// Cycles the viewer may see; profile activity in other groups' cycles is left out
+type VisibleCycles = ReturnType<typeof visibleCycleIds>;
 
 /**
- * Get complete profile data for a user by FID
+ * Get complete profile data for a user
+ * Legacy FID-only activity is linked to users.id by scripts/backfill-user-ids.ts,
+ * so one id covers a member's whole history whichever way they sign in.
+ * Only activity in groups the caller can see is included
  */
-export async function getProfileByFid(fid: number) {
-  const [submissions, userReviews, voteStats, memberSince] = await Promise.all([
-    getSubmissionsByFid(fid),
-    getReviewsByFid(fid),
-    getVoteStatsForFid(fid),
-    getMemberSince(fid),
+export async function getProfile(authToken: string | null, userId: string) {
+  const viewer = await getSessionUser(authToken);
+  const visible = visibleCycleIds(viewer?.id ?? null);
+
+  // A fixed number of queries however long the member's history is
+  const [submissions, userReviews, memberSince] = await Promise.all([
+    getSubmissionsByUser(userId, visible),
+    getReviewsByUser(userId, visible),
+    getMemberSince(userId),
   ]);
 
   return {
-    fid,
+    userId,
     submissions,
     reviews: userReviews,
     stats: {
@@ -26,52 +37,44 @@ export async function getProfileByFid(fid: number) {
       avgRatingGiven: userReviews.length > 0
         ? Math.round((userReviews.reduce((sum, r) => sum + r.rating, 0) / userReviews.length) * 10) / 10
         : null,
-      totalVotesReceived: voteStats.totalVotesReceived,
+      // Withdrawn albums have no votes left, so the listed submissions hold them all
+      totalVotesReceived: submissions.reduce((sum, s) => sum + s.votes, 0),
     },
     memberSince,
   };
 }
 
 /**
- * Get all albums submitted by a user
+ * Get all albums submitted by a user with weighted vote totals (withdrawn submissions excluded)
+ * Uses a single JOIN query instead of N+1 per-album queries
  */
-async function getSubmissionsByFid(fid: number) {
+async function getSubmissionsByUser(userId: string, visible: VisibleCycles) {
   const result = await db
-    .select()
+    .select({
+      id: albums.id,
+      title: albums.title,
+      artist: albums.artist,
+      coverUrl: albums.coverUrl,
+      spotifyUrl: albums.spotifyUrl,
+      status: albums.status,
+      votes: sql<number>`coalesce(sum(${votes.weight}), 0)::int`,
+      avgRating: albums.avgRating,
+      totalReviews: albums.totalReviews,
+      createdAt: albums.createdAt,
+    })
     .from(albums)
-    .where(eq(albums.submittedByFid, fid))
+    .leftJoin(votes, eq(votes.albumId, albums.id))
+    .where(and(eq(albums.submittedByUserId, userId), ne(albums.status, 'withdrawn'), inArray(albums.cycleId, visible)))
+    .groupBy(albums.id)
     .orderBy(desc(albums.createdAt));
 
-  // Get vote counts for each album
-  const submissionsWithVotes = await Promise.all(
-    result.map(async (album) => {
-      const voteCount = await db
-        .select({ count: sql<number>`count(*)` })
-        .from(votes)
-        .where(eq(votes.albumId, album.id));
-
-      return {
-        id: album.id,
-        title: album.title,
-        artist: album.artist,
-        coverUrl: album.coverUrl,
-        spotifyUrl: album.spotifyUrl,
-        status: album.status,
-        votes: Number(voteCount[0]?.count ?? 0),
-        avgRating: album.avgRating,
-        totalReviews: album.totalReviews ?? 0,
-        createdAt: album.createdAt,
-      };
-    })
-  );
-
-  return submissionsWithVotes;
+  return result.map((album) => ({ ...album, totalReviews: album.totalReviews ?? 0 }));
 }
 
 /**
  * Get all reviews written by a user
  */
-async function getReviewsByFid(fid: number) {
+async function getReviewsByUser(userId: string, visible: VisibleCycles) {
   // Get reviews with album info
   const result = await db
     .select({
@@ -80,7 +83,7 @@ async function getReviewsByFid(fid: number) {
     })
     .from(reviews)
     .innerJoin(albums, eq(reviews.albumId, albums.id))
-    .where(eq(reviews.reviewerFid, fid))
+    .where(and(eq(reviews.reviewerId, userId), inArray(albums.cycleId, visible)))
     .orderBy(desc(reviews.createdAt));
 
   return result.map((r) => ({
@@ -98,213 +101,10 @@ async function getReviewsByFid(fid: number) {
   }));
 }
 
-/**
- * Get total votes received on all submissions by a user
- */
-async function getVoteStatsForFid(fid: number) {
-  // Get all album IDs submitted by this user
-  const userAlbums = await db
-    .select({ id: albums.id })
-    .from(albums)
-    .where(eq(albums.submittedByFid, fid));
-
-  if (userAlbums.length === 0) {
-    return { totalVotesReceived: 0 };
-  }
-
-  const albumIds = userAlbums.map((a) => a.id);
-
-  // Count all votes on those albums
-  const voteCount = await db
-    .select({ count: sql<number>`count(*)` })
-    .from(votes)
-    .where(sql`${votes.albumId} IN (${sql.join(albumIds.map(id => sql`${id}`), sql`, `)})`);
-
-  return {
-    totalVotesReceived: Number(voteCount[0]?.count ?? 0),
-  };
-}
-
 /**
  * Get the earliest activity date for a user (member since)
  */
-async function getMemberSince(fid: number) {
-  const [earliestSubmission, earliestReview] = await Promise.all([
-    db
-      .select({ date: min(albums.createdAt) })
-      .from(albums)
-      .where(eq(albums.submittedByFid, fid)),
-    db
-      .select({ date: min(reviews.createdAt) })
-      .from(reviews)
-      .where(eq(reviews.reviewerFid, fid)),
-  ]);
-
-  const dates = [
-    earliestSubmission[0]?.date,
-    earliestReview[0]?.date,
-  ].filter(Boolean) as Date[];
-
-  if (dates.length === 0) return null;
-
-  return new Date(Math.min(...dates.map((d) => d.getTime())));
-}
-
-/**
- * Get basic user info from their submissions/reviews (for viewing other profiles)
- */
-export async function getUserInfoByFid(fid: number) {
-  // Try to get username from submissions first
-  const submission = await db
-    .select({ username: albums.submittedByUsername })
-    .from(albums)
-    .where(eq(albums.submittedByFid, fid))
-    .limit(1);
-
-  if (submission[0]) {
-    return { username: submission[0].username };
-  }
-
-  // Try reviews
-  const review = await db
-    .select({ username: reviews.reviewerUsername, pfp: reviews.reviewerPfp })
-    .from(reviews)
-    .where(eq(reviews.reviewerFid, fid))
-    .limit(1);
-
-  if (review[0]) {
-    return { username: review[0].username, pfp: review[0].pfp };
-  }
-
-  return null;
-}
-
-// ============================================================
-// userId-based profile functions (for Privy / non-Farcaster users)
-// ============================================================
-
-/**
- * Get complete profile data for a user by internal userId
- * Used for Privy users who have no Farcaster FID
- */
-export async function getProfileByUserId(userId: string) {
-  const [submissions, userReviews, voteStats, memberSince] = await Promise.all([
-    getSubmissionsByUserId(userId),
-    getReviewsByUserId(userId),
-    getVoteStatsForUserId(userId),
-    getMemberSinceByUserId(userId),
-  ]);
-
-  return {
-    userId,
-    submissions,
-    reviews: userReviews,
-    stats: {
-      totalSubmissions: submissions.length,
-      totalWins: submissions.filter((s) => s.status === 'selected').length,
-      totalReviews: userReviews.length,
-      avgRatingGiven: userReviews.length > 0
-        ? Math.round((userReviews.reduce((sum, r) => sum + r.rating, 0) / userReviews.length) * 10) / 10
-        : null,
-      totalVotesReceived: voteStats.totalVotesReceived,
-    },
-    memberSince,
-  };
-}
-
-/**
- * Get all albums submitted by a user (by userId)
- */
-async function getSubmissionsByUserId(userId: string) {
-  const result = await db
-    .select()
-    .from(albums)
-    .where(eq(albums.submittedByUserId, userId))
-    .orderBy(desc(albums.createdAt));
-
-  const submissionsWithVotes = await Promise.all(
-    result.map(async (album) => {
-      const voteCount = await db
-        .select({ count: sql<number>`count(*)` })
-        .from(votes)
-        .where(eq(votes.albumId, album.id));
-
-      return {
-        id: album.id,
-        title: album.title,
-        artist: album.artist,
-        coverUrl: album.coverUrl,
-        spotifyUrl: album.spotifyUrl,
-        status: album.status,
-        votes: Number(voteCount[0]?.count ?? 0),
-        avgRating: album.avgRating,
-        totalReviews: album.totalReviews ?? 0,
-        createdAt: album.createdAt,
-      };
-    })
-  );
-
-  return submissionsWithVotes;
-}
-
-/**
- * Get all reviews written by a user (by userId)
- */
-async function getReviewsByUserId(userId: string) {
-  const result = await db
-    .select({
-      review: reviews,
-      album: albums,
-    })
-    .from(reviews)
-    .innerJoin(albums, eq(reviews.albumId, albums.id))
-    .where(eq(reviews.reviewerId, userId))
-    .orderBy(desc(reviews.createdAt));
-
-  return result.map((r) => ({
-    id: r.review.id,
-    rating: r.review.rating,
-    text: r.review.reviewText,
-    favoriteTrack: r.review.favoriteTrack,
-    createdAt: r.review.createdAt,
-    album: {
-      id: r.album.id,
-      title: r.album.title,
-      artist: r.album.artist,
-      coverUrl: r.album.coverUrl,
-    },
-  }));
-}
-
-/**
- * Get total votes received on all submissions by a user (by userId)
- */
-async function getVoteStatsForUserId(userId: string) {
-  const userAlbums = await db
-    .select({ id: albums.id })
-    .from(albums)
-    .where(eq(albums.submittedByUserId, userId));
-
-  if (userAlbums.length === 0) {
-    return { totalVotesReceived: 0 };
-  }
-
-  const albumIds = userAlbums.map((a) => a.id);
-
-  const voteCount = await db
-    .select({ count: sql<number>`count(*)` })
-    .from(votes)
-    .where(sql`${votes.albumId} IN (${sql.join(albumIds.map(id => sql`${id}`), sql`, `)})`);
-
-  return {
-    totalVotesReceived: Number(voteCount[0]?.count ?? 0),
-  };
-}
-
-/**
- * Get the earliest activity date for a user (by userId)
- */
-async function getMemberSinceByUserId(userId: string) {
+async function getMemberSince(userId: string) {
   const [earliestSubmission, earliestReview] = await Promise.all([
     db
       .select({ date: min(albums.createdAt) })
@@ -327,9 +127,9 @@ async function getMemberSinceByUserId(userId: string) {
 }
 
 /**
- * Get basic user info by userId (for viewing Privy user profiles)
+ * Get basic user info (for viewing other profiles)
  */
-export async function getUserInfoByUserId(userId: string) {
+export async function getUserInfo(userId: string) {
   // Look up directly from users table
   const user = await db
     .select({
@@ -351,3 +151,51 @@ export async function getUserInfoByUserId(userId: string) {
 
   return null;
 }
+
+/**
+ * Find a user by username (case-insensitive, `@` optional), for /u/[username]
+ * Usernames aren't unique, so the earliest account with the name wins. Names
+ * only seen on legacy FID-only albums or reviews resolve through that FID.
+ */
+export async function getUserByUsername(username: string) {
+  const name = username.replace(/^@/, '');
+
+  const [user] = await db
+    .select({ id: users.id, username: users.username, pfpUrl: users.pfpUrl, displayName: users.displayName })
+    .from(users)
+    .where(sql`lower(${users.username}) = lower(${name})`)
+    .orderBy(asc(users.createdAt))
+    .limit(1);
+
+  if (user) {
+    return { userId: user.id, username: user.username, pfp: user.pfpUrl ?? undefined, displayName: user.displayName };
+  }
+
+  const fid = await findLegacyFid(name);
+  if (!fid) return null;
+
+  const [legacyUser] = await db.select({ id: users.id }).from(users).where(eq(users.fid, fid)).limit(1);
+  if (!legacyUser) return null;
+
+  const info = await getUserInfo(legacyUser.id);
+  return info ? { userId: legacyUser.id, ...info } : null;
+}
+
+/**
+ * FID behind a username recorded on legacy submissions or reviews
+ */
+async function findLegacyFid(name: string): Promise<number | null> {
+  const [submitted] = await db
+    .select({ fid: albums.submittedByFid })
+    .from(albums)
+    .where(and(eq(albums.submittedByUsername, name), isNotNull(albums.submittedByFid)))
+    .limit(1);
+  if (submitted?.fid) return submitted.fid;
+
+  const [reviewed] = await db
+    .select({ fid: reviews.reviewerFid })
+    .from(reviews)
+    .where(and(eq(reviews.reviewerUsername, name), isNotNull(reviews.reviewerFid)))
+    .limit(1);
+  return reviewed?.fid ?? null;
+}
@@ -1,78 +1,150 @@
 'use server';
 
 import { db } from '@/neynar-db-sdk/db';
-import { reviews, albums, cycles } from '@/db/schema';
-import { eq, and, desc, sql, avg } from 'drizzle-orm';
+import { reviews, albums, reviewTrackRatings } from '@/db/schema';
+import { eq, and, or, desc, sql, avg, isNotNull } from 'drizzle-orm';
+import { getSessionUser, type SessionUser } from '@/lib/session';
+import { checkCyclePhase } from '@/lib/cycle-state';
+import { checkCycleAccess, checkAlbumAccess } from '@/lib/groups';
+import { albumTracks, isLegacyTrackId, tallyFavorites } from '@/lib/album-tracks';
+import { isValidRating } from '@/lib/ratings';
+import { isTrackReaction, trackScore, type TrackRatings, type TrackReaction, type TrackStat } from '@/lib/track-ratings';
 
 type TxClient = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
+interface ReviewInput {
+  rating: number;
+  text: string;
+  favoriteTrackId: string | null; // an AlbumTrack id from the album's tracks
+  trackRatings?: TrackRatings; // optional per-track reactions
+  hasListened: boolean;
+}
+
+/**
+ * Validate review content. Returns an error message, or null if valid.
+ */
+function validateReview(data: ReviewInput): string | null {
+  if (!isValidRating(data.rating)) {
+    return 'Rating must be 0.5-5 in half stars';
+  }
+  if (data.text.length < 50) {
+    return 'Review must be at least 50 characters';
+  }
+  return null;
+}
+
+/**
+ * The review's favorite track (id and title, as stored on the review) and
+ * track ratings, checked against the album's tracks
+ * Tracks of albums without a track list have positional ids; their favorite is stored by title alone
+ */
+async function resolveTrackPicks(albumId: string, data: ReviewInput, client: TxClient | typeof db = db) {
+  const ratings = Object.entries(data.trackRatings ?? {});
+  if (!data.favoriteTrackId && ratings.length === 0) {
+    return { favoriteTrackId: null, favoriteTrack: null, trackRatings: [], error: null };
+  }
+
+  const [album] = await client
+    .select({ trackList: albums.trackList, tracks: albums.tracks })
+    .from(albums)
+    .where(eq(albums.id, albumId))
+    .limit(1);
+
+  const tracks = albumTracks(album?.trackList, album?.tracks) ?? [];
+  const track = data.favoriteTrackId ? tracks.find((t) => t.id === data.favoriteTrackId) : null;
+  if (data.favoriteTrackId && !track) {
+    return { favoriteTrackId: null, favoriteTrack: null, trackRatings: [], error: 'Favorite track is not on this album' };
+  }
+
+  const trackIds = new Set(tracks.map((t) => t.id));
+  if (ratings.some(([trackId, reaction]) => !trackIds.has(trackId) || !isTrackReaction(reaction))) {
+    return { favoriteTrackId: null, favoriteTrack: null, trackRatings: [], error: 'Track ratings don\'t match this album' };
+  }
+
+  return {
+    favoriteTrackId: track && !isLegacyTrackId(track.id) ? track.id : null,
+    favoriteTrack: track?.title ?? null,
+    trackRatings: ratings.map(([trackId, reaction]) => ({ trackId, reaction })),
+    error: null,
+  };
+}
+
+/**
+ * Replace a review's track ratings
+ */
+async function saveTrackRatings(
+  reviewId: string,
+  albumId: string,
+  ratings: { trackId: string; reaction: TrackReaction }[],
+  tx: TxClient
+) {
+  await tx.delete(reviewTrackRatings).where(eq(reviewTrackRatings.reviewId, reviewId));
+  if (ratings.length > 0) {
+    await tx.insert(reviewTrackRatings).values(ratings.map((rating) => ({ reviewId, albumId, ...rating })));
+  }
+}
+
 /**
  * Submit a review for an album
- * Supports both FID (legacy) and userId (new)
+ * The reviewer is derived from the verified auth token
  * Wrapped in a transaction so duplicate-check + insert + stats update are atomic
  */
-export async function submitReview(data: {
-  albumId: string;
-  fid?: number; // Legacy - Farcaster users
-  userId?: string; // New - unified user ID
-  username: string;
-  pfp: string | null;
-  rating: number;
-  text: string;
-  favoriteTrack: string | null;
-  hasListened: boolean;
-}) {
-  // Validate rating
-  if (data.rating < 1 || data.rating > 5) {
-    return { success: false as const, error: 'Rating must be 1-5' };
+export async function submitReview(authToken: string, data: ReviewInput & { albumId: string }) {
+  const user = await getSessionUser(authToken);
+  if (!user) {
+    return { success: false as const, error: 'Please sign in to submit a review' };
   }
 
-  // Validate text length
-  if (data.text.length < 50) {
-    return { success: false as const, error: 'Review must be at least 50 characters' };
+  const validationError = validateReview(data);
+  if (validationError) {
+    return { success: false as const, error: validationError };
   }
 
-  // Server-side review window guard
   const [album] = await db
     .select({ cycleId: albums.cycleId })
     .from(albums)
     .where(eq(albums.id, data.albumId))
     .limit(1);
 
-  if (album) {
-    const [cycle] = await db
-      .select({ reviewOpensAt: cycles.reviewOpensAt })
-      .from(cycles)
-      .where(eq(cycles.id, album.cycleId))
-      .limit(1);
+  if (!album) {
+    return { success: false as const, error: 'Album not found' };
+  }
 
-    if (cycle?.reviewOpensAt && new Date() < cycle.reviewOpensAt) {
-      return { success: false as const, error: 'Reviews are not open yet' };
-    }
+  // Access guard: invite-only groups take reviews from members only
+  const accessError = await checkCycleAccess(album.cycleId, user);
+  if (accessError) {
+    return { success: false as const, error: accessError };
+  }
+
+  // Phase guard: reviews only while the cycle is in its review window
+  const phaseError = await checkCyclePhase(album.cycleId, 'review');
+  if (phaseError) {
+    return { success: false as const, error: phaseError };
+  }
+
+  const picks = await resolveTrackPicks(data.albumId, data);
+  if (picks.error) {
+    return { success: false as const, error: picks.error };
   }
 
   try {
     return await db.transaction(async (tx) => {
       // Check for existing review inside transaction to close the race window
-      let hasReviewed = false;
-
-      if (data.userId) {
-        const [existing] = await tx
-          .select()
-          .from(reviews)
-          .where(and(eq(reviews.albumId, data.albumId), eq(reviews.reviewerId, data.userId)))
-          .limit(1);
-        hasReviewed = !!existing;
-      } else if (data.fid) {
-        const [existing] = await tx
-          .select()
-          .from(reviews)
-          .where(and(eq(reviews.albumId, data.albumId), eq(reviews.reviewerFid, data.fid)))
-          .limit(1);
-        hasReviewed = !!existing;
-      }
+      // (legacy reviews may only carry the reviewer's FID)
+      const [existing] = await tx
+        .select()
+        .from(reviews)
+        .where(
+          and(
+            eq(reviews.albumId, data.albumId),
+            user.fid
+              ? or(eq(reviews.reviewerId, user.id), eq(reviews.reviewerFid, user.fid))
+              : eq(reviews.reviewerId, user.id)
+          )
+        )
+        .limit(1);
 
-      if (hasReviewed) {
+      if (existing) {
         return { success: false as const, error: 'You already reviewed this album' };
       }
 
@@ -81,17 +153,20 @@ export async function submitReview(data: {
         .insert(reviews)
         .values({
           albumId: data.albumId,
-          reviewerFid: data.fid ?? null,
-          reviewerId: data.userId ?? null,
-          reviewerUsername: data.username,
-          reviewerPfp: data.pfp,
+          reviewerFid: user.fid,
+          reviewerId: user.id,
+          reviewerUsername: user.username,
+          reviewerPfp: user.pfpUrl,
           rating: data.rating,
           reviewText: data.text,
-          favoriteTrack: data.favoriteTrack,
+          favoriteTrack: picks.favoriteTrack,
+          favoriteTrackId: picks.favoriteTrackId,
           hasListened: data.hasListened,
         })
         .returning();
 
+      await saveTrackRatings(result[0].id, data.albumId, picks.trackRatings, tx);
+
       // Update album stats inside the same transaction
       await updateAlbumStats(data.albumId, tx);
 
@@ -107,10 +182,123 @@ export async function submitReview(data: {
   }
 }
 
+/**
+ * Load a review for an author-only change while its cycle is open.
+ * Returns the review, or an error if the caller can't change it.
+ */
+async function getOwnReview(tx: TxClient, user: SessionUser, reviewId: string) {
+  const [row] = await tx
+    .select({ review: reviews, cycleId: albums.cycleId })
+    .from(reviews)
+    .innerJoin(albums, eq(albums.id, reviews.albumId))
+    .where(eq(reviews.id, reviewId))
+    .limit(1);
+
+  if (!row) {
+    return { review: null, error: 'Review not found' };
+  }
+
+  // Legacy reviews may only carry the reviewer's FID
+  const isAuthor =
+    row.review.reviewerId === user.id || (!!user.fid && row.review.reviewerFid === user.fid);
+  if (!isAuthor) {
+    return { review: null, error: 'Only the author can change this review' };
+  }
+
+  const accessError = await checkCycleAccess(row.cycleId, user, tx);
+  if (accessError) {
+    return { review: null, error: accessError };
+  }
+
+  // Phase guard: reviews lock when the cycle closes
+  const phaseError = await checkCyclePhase(row.cycleId, 'editReview', tx);
+  if (phaseError) {
+    return { review: null, error: phaseError };
+  }
+
+  return { review: row.review, error: null };
+}
+
+/**
+ * Edit your own review while the cycle is still open
+ * Album stats are recomputed in the same transaction
+ */
+export async function updateReview(authToken: string, reviewId: string, data: ReviewInput) {
+  const user = await getSessionUser(authToken);
+  if (!user) {
+    return { success: false as const, error: 'Please sign in to edit your review' };
+  }
+
+  const validationError = validateReview(data);
+  if (validationError) {
+    return { success: false as const, error: validationError };
+  }
+
+  return await db.transaction(async (tx) => {
+    const { review: existing, error } = await getOwnReview(tx, user, reviewId);
+    if (!existing) {
+      return { success: false as const, error };
+    }
+
+    const picks = await resolveTrackPicks(existing.albumId, data, tx);
+    if (picks.error) {
+      return { success: false as const, error: picks.error };
+    }
+
+    const [review] = await tx
+      .update(reviews)
+      .set({
+        rating: data.rating,
+        reviewText: data.text,
+        favoriteTrack: picks.favoriteTrack,
+        favoriteTrackId: picks.favoriteTrackId,
+        hasListened: data.hasListened,
+        editedAt: new Date(),
+      })
+      .where(eq(reviews.id, reviewId))
+      .returning();
+
+    await saveTrackRatings(reviewId, existing.albumId, picks.trackRatings, tx);
+
+    await updateAlbumStats(existing.albumId, tx);
+
+    return { success: true as const, review };
+  });
+}
+
+/**
+ * Delete your own review while the cycle is still open
+ * Album stats are recomputed in the same transaction
+ */
+export async function deleteReview(authToken: string, reviewId: string) {
+  const user = await getSessionUser(authToken);
+  if (!user) {
+    return { success: false as const, error: 'Please sign in to delete your review' };
+  }
+
+  return await db.transaction(async (tx) => {
+    const { review: existing, error } = await getOwnReview(tx, user, reviewId);
+    if (!existing) {
+      return { success: false as const, error };
+    }
+
+    await tx.delete(reviewTrackRatings).where(eq(reviewTrackRatings.reviewId, reviewId));
+    await tx.delete(reviews).where(eq(reviews.id, reviewId));
+
+    await updateAlbumStats(existing.albumId, tx);
+
+    return { success: true as const };
+  });
+}
+
 /**
  * Get all reviews for an album
+ * Empty when the caller can't see the album's group
  */
-export async function getAlbumReviews(albumId: string) {
+export async function getAlbumReviews(authToken: string | null, albumId: string) {
+  const viewer = await getSessionUser(authToken);
+  if (await checkAlbumAccess(albumId, viewer)) return [];
+
   const result = await db
     .select()
     .from(reviews)
@@ -128,36 +316,49 @@ export async function getAlbumReviews(albumId: string) {
     rating: r.rating,
     text: r.reviewText,
     favoriteTrack: r.favoriteTrack,
+    favoriteTrackId: r.favoriteTrackId,
+    editedAt: r.editedAt,
     daysAgo: Math.floor((Date.now() - r.createdAt.getTime()) / (1000 * 60 * 60 * 24)),
   }));
 }
 
 /**
- * Check if user has reviewed an album
- * Supports both FID (legacy) and userId (new)
+ * Get the caller's review of an album, if they wrote one
+ * The reviewer is derived from the verified auth token
  */
-export async function getUserReview(albumId: string, fid?: number, userId?: string) {
-  let result: (typeof reviews.$inferSelect)[] = [];
-
-  if (userId) {
-    result = await db
-      .select()
-      .from(reviews)
-      .where(and(eq(reviews.albumId, albumId), eq(reviews.reviewerId, userId)))
-      .limit(1);
-  } else if (fid) {
-    result = await db
-      .select()
-      .from(reviews)
-      .where(and(eq(reviews.albumId, albumId), eq(reviews.reviewerFid, fid)))
-      .limit(1);
-  }
-
-  return result[0] ?? null;
+export async function getUserReview(authToken: string | null, albumId: string) {
+  const viewer = await getSessionUser(authToken);
+  if (!viewer || (await checkAlbumAccess(albumId, viewer))) return null;
+
+  // Legacy reviews may only carry the reviewer's FID
+  const [review] = await db
+    .select()
+    .from(reviews)
+    .where(
+      and(
+        eq(reviews.albumId, albumId),
+        viewer.fid
+          ? or(eq(reviews.reviewerId, viewer.id), eq(reviews.reviewerFid, viewer.fid))
+          : eq(reviews.reviewerId, viewer.id)
+      )
+    )
+    .limit(1);
+
+  if (!review) return null;
+
+  const ratings = await db
+    .select({ trackId: reviewTrackRatings.trackId, reaction: reviewTrackRatings.reaction })
+    .from(reviewTrackRatings)
+    .where(eq(reviewTrackRatings.reviewId, review.id));
+
+  return {
+    ...review,
+    trackRatings: Object.fromEntries(ratings.map((r) => [r.trackId, r.reaction])) as TrackRatings,
+  };
 }
 
 /**
- * Update album stats (avg rating, total reviews, most loved track)
+ * Update album stats (avg rating, total reviews, most loved track, track ranking)
  * Accepts an optional transaction client so it can run inside an existing transaction
  */
 async function updateAlbumStats(albumId: string, client: TxClient | typeof db = db) {
@@ -177,20 +378,56 @@ async function updateAlbumStats(albumId: string, client: TxClient | typeof db =
 
   const totalReviews = Number(countResult[0]?.count ?? 0);
 
-  // Find most loved track
-  const trackResult = await client
+  const [album] = await client
+    .select({ trackList: albums.trackList, tracks: albums.tracks })
+    .from(albums)
+    .where(eq(albums.id, albumId))
+    .limit(1);
+  const tracks = albumTracks(album?.trackList, album?.tracks) ?? [];
+
+  // Favorite picks per track — legacy picks stored by title alone are matched to the track list
+  const picks = await client
     .select({
-      track: reviews.favoriteTrack,
+      trackId: reviews.favoriteTrackId,
+      title: sql<string>`${reviews.favoriteTrack}`,
       count: sql<number>`count(*)`,
     })
     .from(reviews)
-    .where(and(eq(reviews.albumId, albumId), sql`${reviews.favoriteTrack} IS NOT NULL`))
-    .groupBy(reviews.favoriteTrack)
-    .orderBy(desc(sql`count(*)`))
-    .limit(1);
+    .where(and(eq(reviews.albumId, albumId), isNotNull(reviews.favoriteTrack)))
+    .groupBy(reviews.favoriteTrackId, reviews.favoriteTrack);
 
-  const mostLovedTrack = trackResult[0]?.track ?? null;
-  const mostLovedTrackVotes = trackResult[0] ? Number(trackResult[0].count) : 0;
+  const favoriteResult = tallyFavorites(
+    picks.map((pick) => ({ ...pick, count: Number(pick.count) })),
+    tracks
+  );
+  const topFavorite = favoriteResult[0];
+
+  // Positional ids of albums without a track list aren't stored as track ids
+  const mostLovedTrackId = topFavorite?.trackId && !isLegacyTrackId(topFavorite.trackId) ? topFavorite.trackId : null;
+  const mostLovedTrackVotes = topFavorite?.count ?? 0;
+
+  // Show the track's current title, not the one it had when it was picked
+  const mostLovedTrack = tracks.find((t) => t.id === topFavorite?.trackId)?.title ?? topFavorite?.title ?? null;
+
+  // Per-track reactions, combined with favorite picks into the track ranking
+  const reactionResult = await client
+    .select({
+      trackId: reviewTrackRatings.trackId,
+      reaction: reviewTrackRatings.reaction,
+      count: sql<number>`count(*)`,
+    })
+    .from(reviewTrackRatings)
+    .where(eq(reviewTrackRatings.albumId, albumId))
+    .groupBy(reviewTrackRatings.trackId, reviewTrackRatings.reaction);
+
+  const trackStats: TrackStat[] = tracks.map((track) => {
+    const reactions = (reaction: TrackReaction) =>
+      Number(reactionResult.find((r) => r.trackId === track.id && r.reaction === reaction)?.count ?? 0);
+    const favorites = favoriteResult.find((f) => f.trackId === track.id)?.count ?? 0;
+
+    const stat = { trackId: track.id, skips: reactions('skip'), likes: reactions('like'), loves: reactions('love'), favorites };
+    return { ...stat, score: trackScore(stat) };
+  });
 
   // Update album
   await client
@@ -199,7 +436,9 @@ async function updateAlbumStats(albumId: string, client: TxClient | typeof db =
       avgRating: avgRating ? Math.round(avgRating * 10) / 10 : null,
       totalReviews,
       mostLovedTrack,
+      mostLovedTrackId,
       mostLovedTrackVotes,
+      trackStats,
     })
     .where(eq(albums.id, albumId));
 }
@@ -207,7 +446,10 @@ async function updateAlbumStats(albumId: string, client: TxClient | typeof db =
 /**
  * Get album stats
  */
-export async function getAlbumStats(albumId: string) {
+export async function getAlbumStats(authToken: string | null, albumId: string) {
+  const viewer = await getSessionUser(authToken);
+  if (await checkAlbumAccess(albumId, viewer)) return null;
+
   const album = await db.select().from(albums).where(eq(albums.id, albumId)).limit(1);
 
   if (!album[0]) return null;
@@ -216,6 +458,7 @@ export async function getAlbumStats(albumId: string) {
     avgRating: album[0].avgRating,
     totalReviews: album[0].totalReviews,
     mostLovedTrack: album[0].mostLovedTrack,
+    mostLovedTrackId: album[0].mostLovedTrackId,
     mostLovedTrackVotes: album[0].mostLovedTrackVotes,
   };
 }
@@ -1,50 +1,182 @@
 'use server';
 
 import { db } from '@/neynar-db-sdk/db';
-import { albums, votes, cycles } from '@/db/schema';
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { albums, votes, cycles, rankedBallots } from '@/db/schema';
+import { eq, ne, and, or, asc, desc, sql, inArray } from 'drizzle-orm';
+import { getSessionUser, type SessionUser } from '@/lib/session';
+import { checkCyclePhase } from '@/lib/cycle-state';
+import { checkGroupAccess, checkCycleAccess } from '@/lib/groups';
+import { findCanonicalAlbum, findPastWinningEdition, resolveCanonicalAlbum } from '@/lib/canonical-albums';
+import { resolveStreamingLinks } from '@/lib/streaming-links';
+import { parseAlbumUrl } from '@/lib/album-urls';
+import type { AlbumTrack } from '@/lib/album-tracks';
+
+type TxClient = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * A user's submissions in a cycle that count toward the cap (withdrawn albums don't)
+ * Legacy submissions may only carry the submitter's FID
+ */
+function countedSubmissions(user: SessionUser, cycleId: string) {
+  return and(
+    eq(albums.cycleId, cycleId),
+    user.fid
+      ? or(eq(albums.submittedByUserId, user.id), eq(albums.submittedByFid, user.fid))
+      : eq(albums.submittedByUserId, user.id),
+    ne(albums.status, 'withdrawn')
+  );
+}
 
 /**
  * Submit a new album for voting
- * Supports both FID (legacy) and userId (new Privy users)
- * Wrapped in a transaction so duplicate-check + insert + auto-vote are atomic
+ * The submitter is derived from the verified auth token
+ * Wrapped in a transaction so the membership, phase, cap and duplicate checks + insert + auto-vote are atomic
  */
-export async function submitAlbum(data: {
-  spotifyId: string;
+export async function submitAlbum(authToken: string, data: {
+  spotifyId: string | null; // null for albums not on Spotify
   title: string;
   artist: string;
   coverUrl: string;
-  spotifyUrl: string;
-  tracks?: string[];
+  spotifyUrl: string | null;
+  sourceUrl?: string; // album link on another service, when submitted from one
+  tracks?: AlbumTrack[];
   genres?: string[];
+  releaseDate?: string | null;
+  upc?: string | null;
+  isrcs?: string[];
   cycleId: string;
-  fid?: number; // Legacy - Farcaster users
-  userId?: string; // New - unified user ID
-  username: string;
   submissionNote?: string;
 }) {
-  // Check if this album was a past winner (outside transaction — read-only, no race risk)
-  const pastWinner = await db
-    .select()
+  const user = await getSessionUser(authToken);
+  if (!user) {
+    return { success: false as const, error: 'Please sign in to submit albums' };
+  }
+
+  // Albums come from a Spotify link, or from another service's when Spotify doesn't carry them
+  const spotifyLink = data.spotifyUrl ? parseAlbumUrl(data.spotifyUrl) : null;
+  const sourceLink = data.sourceUrl ? parseAlbumUrl(data.sourceUrl) : null;
+  if (data.spotifyId ? spotifyLink?.id !== data.spotifyId : !sourceLink || sourceLink.service === 'spotify') {
+    return { success: false as const, error: 'Album link not recognized - try finding it again' };
+  }
+  // Links are stored as rebuilt from their ids, never as the client sent them
+  const spotifyUrl = data.spotifyId && spotifyLink ? spotifyLink.url : null;
+
+  const [targetCycle] = await db
+    .select({ groupId: cycles.groupId })
+    .from(cycles)
+    .where(eq(cycles.id, data.cycleId))
+    .limit(1);
+
+  if (!targetCycle) {
+    return { success: false as const, error: 'Cycle not found' };
+  }
+
+  // Editions (remasters, deluxes, regional releases) count as the same album
+  const edition = {
+    title: data.title,
+    artist: data.artist,
+    releaseDate: data.releaseDate,
+    upc: data.upc,
+    isrcs: data.isrcs,
+  };
+
+  // Check if this album, in any edition, was a past winner in this group (outside transaction — read-only, no race risk)
+  const knownCanonicalId = await findCanonicalAlbum(edition);
+  const pastEdition = knownCanonicalId ? await findPastWinningEdition(targetCycle.groupId, knownCanonicalId) : null;
+  if (pastEdition && (!data.spotifyId || pastEdition.spotifyId !== data.spotifyId)) {
+    return {
+      success: false as const,
+      error: `This is an edition of Week ${pastEdition.weekNumber}'s album "${pastEdition.title}" - it won before, check The 52!`,
+    };
+  }
+
+  // Albums from before canonical identities may only match by Spotify id
+  const pastWinner = pastEdition ? [pastEdition] : !data.spotifyId ? [] : await db
+    .select({ id: albums.id })
     .from(albums)
-    .where(and(eq(albums.spotifyId, data.spotifyId), eq(albums.status, 'selected')))
+    .innerJoin(cycles, eq(cycles.id, albums.cycleId))
+    .where(
+      and(
+        eq(cycles.groupId, targetCycle.groupId),
+        eq(albums.spotifyId, data.spotifyId),
+        eq(albums.status, 'selected')
+      )
+    )
     .limit(1);
 
   if (pastWinner.length > 0) {
     return { success: false as const, error: 'This won before - check The 52!' };
   }
 
+  // Look up other services before the transaction — these are network calls
+  const streamingLinks = await resolveStreamingLinks({
+    links: {
+      ...(sourceLink ? { [sourceLink.service]: sourceLink.url } : {}),
+      ...(spotifyUrl ? { spotify: spotifyUrl } : {}),
+    },
+    upc: data.upc ?? null,
+    isrcs: data.isrcs ?? [],
+  });
+
   try {
     return await db.transaction(async (tx) => {
-      // Re-check for duplicate inside transaction to close the race window
-      const existingAlbum = await tx
-        .select()
+      // Access guard: invite-only groups take submissions from members only
+      const accessError = await checkGroupAccess(targetCycle.groupId, user, tx);
+      if (accessError) {
+        return { success: false as const, error: accessError };
+      }
+
+      // Phase guard: submissions only while voting is open
+      const phaseError = await checkCyclePhase(data.cycleId, 'submit', tx);
+      if (phaseError) {
+        return { success: false as const, error: phaseError };
+      }
+
+      const [cycle] = await tx
+        .select({ votingMode: cycles.votingMode, maxSubmissions: cycles.maxSubmissions })
+        .from(cycles)
+        .where(eq(cycles.id, data.cycleId))
+        .limit(1);
+
+      // Serialize this member's submissions in the cycle so two requests can't both pass the cap
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`submissions:${data.cycleId}:${user.id}`}))`);
+
+      const [submitted] = await tx
+        .select({ count: sql<number>`count(*)::int` })
         .from(albums)
-        .where(and(eq(albums.cycleId, data.cycleId), eq(albums.spotifyId, data.spotifyId)))
+        .where(countedSubmissions(user, data.cycleId));
+
+      if ((submitted?.count ?? 0) >= cycle.maxSubmissions) {
+        return {
+          success: false as const,
+          error: `You've used all ${cycle.maxSubmissions} submissions this cycle — withdraw one to submit another`,
+        };
+      }
+
+      const canonicalAlbumId = await resolveCanonicalAlbum(edition, tx);
+
+      // Re-check for duplicate (any edition) inside transaction to close the race window
+      const [existingAlbum] = await tx
+        .select({ spotifyId: albums.spotifyId, title: albums.title })
+        .from(albums)
+        .where(
+          and(
+            eq(albums.cycleId, data.cycleId),
+            data.spotifyId
+              ? or(eq(albums.spotifyId, data.spotifyId), eq(albums.canonicalAlbumId, canonicalAlbumId))
+              : eq(albums.canonicalAlbumId, canonicalAlbumId),
+            ne(albums.status, 'withdrawn')
+          )
+        )
         .limit(1);
 
-      if (existingAlbum.length > 0) {
-        return { success: false as const, error: 'Already submitted - go upvote it!' };
+      if (existingAlbum) {
+        return {
+          success: false as const,
+          error: data.spotifyId && existingAlbum.spotifyId === data.spotifyId
+            ? 'Already submitted - go upvote it!'
+            : `This is an edition of "${existingAlbum.title}", already submitted this week - go upvote it!`,
+        };
       }
 
       // Insert the album
@@ -55,13 +187,18 @@ export async function submitAlbum(data: {
           title: data.title,
           artist: data.artist,
           coverUrl: data.coverUrl,
-          spotifyUrl: data.spotifyUrl,
-          tracks: data.tracks ?? null,
+          spotifyUrl,
+          trackList: data.tracks ?? null,
           genres: data.genres ?? null,
+          canonicalAlbumId,
+          releaseDate: data.releaseDate ?? null,
+          upc: data.upc ?? null,
+          isrcs: data.isrcs ?? null,
+          streamingLinks,
           cycleId: data.cycleId,
-          submittedByFid: data.fid ?? null,
-          submittedByUserId: data.userId ?? null,
-          submittedByUsername: data.username,
+          submittedByFid: user.fid,
+          submittedByUserId: user.id,
+          submittedByUsername: user.username,
           submissionNote: data.submissionNote?.trim() || null,
           status: 'voting',
         })
@@ -70,11 +207,14 @@ export async function submitAlbum(data: {
       const album = result[0];
 
       // Auto-vote for the submitter's own album (same transaction)
-      await tx.insert(votes).values({
-        albumId: album.id,
-        voterFid: data.fid ?? null,
-        voterId: data.userId ?? null,
-      });
+      // Only in upvote mode — ranked ballots and vote budgets are the member's own call
+      if (cycle.votingMode === 'upvote') {
+        await tx.insert(votes).values({
+          albumId: album.id,
+          voterFid: user.fid,
+          voterId: user.id,
+        });
+      }
 
       return { success: true as const, album };
     });
@@ -89,10 +229,11 @@ export async function submitAlbum(data: {
 }
 
 /**
- * Get all submissions for a cycle with vote counts
+ * All live submissions for a cycle with weighted vote totals
+ * (each vote row counts its weight — always 1 outside quadratic mode)
  * Uses a single JOIN query instead of N+1 per-album queries
  */
-export async function getSubmissions(cycleId: string) {
+async function listSubmissions(cycleId: string) {
   const rows = await db
     .select({
       id: albums.id,
@@ -107,7 +248,7 @@ export async function getSubmissions(cycleId: string) {
       submittedByUsername: albums.submittedByUsername,
       submissionNote: albums.submissionNote,
       createdAt: albums.createdAt,
-      votes: sql<number>`count(${votes.id})::int`,
+      votes: sql<number>`coalesce(sum(${votes.weight}), 0)::int`,
     })
     .from(albums)
     .leftJoin(votes, eq(votes.albumId, albums.id))
@@ -135,64 +276,75 @@ export async function getSubmissions(cycleId: string) {
 }
 
 /**
- * Get submissions with user's vote status
- * Supports both FID (legacy) and userId (new)
+ * Get all submissions for a cycle, most voted first
+ * Empty when the caller can't see the cycle's group
  */
-export async function getSubmissionsWithUserVotes(
-  cycleId: string,
-  userFid?: number,
-  userId?: string
-) {
-  const submissions = await getSubmissions(cycleId);
-
-  // Get user's votes - check by either FID or userId
-  let userVotes: { albumId: string }[] = [];
-
-  if (userId) {
-    userVotes = await db.select({ albumId: votes.albumId }).from(votes).where(eq(votes.voterId, userId));
-  } else if (userFid) {
-    userVotes = await db.select({ albumId: votes.albumId }).from(votes).where(eq(votes.voterFid, userFid));
-  }
+export async function getSubmissions(authToken: string | null, cycleId: string) {
+  const viewer = await getSessionUser(authToken);
+  if (await checkCycleAccess(cycleId, viewer)) return [];
 
-  const votedAlbumIds = new Set(userVotes.map((v) => v.albumId));
+  return listSubmissions(cycleId);
+}
+
+/**
+ * Get submissions with the caller's vote status
+ * The voter is derived from the verified auth token; without one nothing is marked voted
+ */
+export async function getSubmissionsWithUserVotes(authToken: string | null, cycleId: string) {
+  const viewer = await getSessionUser(authToken);
+  if (await checkCycleAccess(cycleId, viewer)) return [];
+
+  const submissions = await listSubmissions(cycleId);
+
+  // The caller's votes on this cycle's albums (legacy votes may only carry the voter's FID)
+  const userVotes = viewer
+    ? await db
+        .select({ albumId: votes.albumId, weight: votes.weight })
+        .from(votes)
+        .innerJoin(albums, eq(albums.id, votes.albumId))
+        .where(
+          and(
+            eq(albums.cycleId, cycleId),
+            viewer.fid ? or(eq(votes.voterId, viewer.id), eq(votes.voterFid, viewer.fid)) : eq(votes.voterId, viewer.id)
+          )
+        )
+    : [];
+
+  const userWeights = new Map(userVotes.map((v) => [v.albumId, v.weight]));
 
   return submissions.map((s) => ({
     ...s,
-    hasVoted: votedAlbumIds.has(s.id),
+    hasVoted: userWeights.has(s.id),
+    myVotes: userWeights.get(s.id) ?? 0,
   }));
 }
 
 /**
- * Get user's submission count for current cycle
- * Supports both FID (legacy) and userId (new)
+ * Get the caller's submission count for a cycle (withdrawn albums don't count)
+ * The submitter is derived from the verified auth token
  */
-export async function getUserSubmissionCount(cycleId: string, fid?: number, userId?: string) {
-  let whereClause;
-
-  if (userId) {
-    whereClause = and(eq(albums.cycleId, cycleId), eq(albums.submittedByUserId, userId));
-  } else if (fid) {
-    whereClause = and(eq(albums.cycleId, cycleId), eq(albums.submittedByFid, fid));
-  } else {
-    return 0;
-  }
+export async function getUserSubmissionCount(authToken: string | null, cycleId: string) {
+  const viewer = await getSessionUser(authToken);
+  if (!viewer || (await checkCycleAccess(cycleId, viewer))) return 0;
 
+  // Counted the same way as the cap in submitAlbum
   const result = await db
     .select({ count: sql<number>`count(*)` })
     .from(albums)
-    .where(whereClause);
+    .where(countedSubmissions(viewer, cycleId));
 
   return Number(result[0]?.count ?? 0);
 }
 
 /**
  * Cast a vote for an album
- * Supports both FID (legacy) and userId (new)
+ * The voter is derived from the verified auth token
  * Wrapped in a transaction so the duplicate-check + insert are atomic
  */
-export async function castVote(albumId: string, fid?: number, userId?: string) {
-  // Guard: require at least one identity
-  if (!fid && !userId) {
+export async function castVote(authToken: string, albumId: string) {
+  // Guard: require a verified identity
+  const user = await getSessionUser(authToken);
+  if (!user) {
     return { success: false as const, error: 'Authentication required to vote' };
   }
 
@@ -205,34 +357,53 @@ export async function castVote(albumId: string, fid?: number, userId?: string) {
         return { success: false as const, error: 'Album not available for voting' };
       }
 
-      // Check for existing vote inside transaction to close the race window
-      let hasVoted = false;
-
-      if (userId) {
-        const [existing] = await tx
-          .select()
-          .from(votes)
-          .where(and(eq(votes.albumId, albumId), eq(votes.voterId, userId)))
-          .limit(1);
-        hasVoted = !!existing;
-      } else if (fid) {
-        const [existing] = await tx
-          .select()
-          .from(votes)
-          .where(and(eq(votes.albumId, albumId), eq(votes.voterFid, fid)))
-          .limit(1);
-        hasVoted = !!existing;
+      // Access guard: invite-only groups take votes from members only
+      const accessError = await checkCycleAccess(album.cycleId, user, tx);
+      if (accessError) {
+        return { success: false as const, error: accessError };
       }
 
-      if (hasVoted) {
+      // Phase guard: votes only while voting is open
+      const phaseError = await checkCyclePhase(album.cycleId, 'vote', tx);
+      if (phaseError) {
+        return { success: false as const, error: phaseError };
+      }
+
+      const [cycle] = await tx
+        .select({ votingMode: cycles.votingMode })
+        .from(cycles)
+        .where(eq(cycles.id, album.cycleId))
+        .limit(1);
+
+      if (cycle?.votingMode === 'ranked') {
+        return { success: false as const, error: 'This cycle uses ranked ballots' };
+      }
+      if (cycle?.votingMode === 'quadratic') {
+        return { success: false as const, error: 'This cycle uses a vote budget' };
+      }
+
+      // Check for existing vote inside transaction to close the race window
+      // (legacy votes may only carry the voter's FID)
+      const [existing] = await tx
+        .select()
+        .from(votes)
+        .where(
+          and(
+            eq(votes.albumId, albumId),
+            user.fid ? or(eq(votes.voterId, user.id), eq(votes.voterFid, user.fid)) : eq(votes.voterId, user.id)
+          )
+        )
+        .limit(1);
+
+      if (existing) {
         return { success: false as const, error: 'Already voted for this album' };
       }
 
       // Cast the vote
       await tx.insert(votes).values({
         albumId,
-        voterFid: fid ?? null,
-        voterId: userId ?? null,
+        voterFid: user.fid,
+        voterId: user.id,
       });
 
       return { success: true };
@@ -248,35 +419,369 @@ export async function castVote(albumId: string, fid?: number, userId?: string) {
 }
 
 /**
- * Select the winner (called when voting ends)
+ * Take back a vote on an album while voting is open
+ * The submitter's auto-vote on their own album stays until they withdraw the album.
+ * The voter is derived from the verified auth token
+ * Wrapped in a transaction so the checks + delete are atomic
+ */
+export async function uncastVote(authToken: string, albumId: string) {
+  const user = await getSessionUser(authToken);
+  if (!user) {
+    return { success: false as const, error: 'Authentication required to vote' };
+  }
+
+  return await db.transaction(async (tx) => {
+    const [album] = await tx.select().from(albums).where(eq(albums.id, albumId)).limit(1);
+
+    if (!album || album.status !== 'voting') {
+      return { success: false as const, error: 'Album not available for voting' };
+    }
+
+    const accessError = await checkCycleAccess(album.cycleId, user, tx);
+    if (accessError) {
+      return { success: false as const, error: accessError };
+    }
+
+    // Phase guard: votes can only change while voting is open
+    const phaseError = await checkCyclePhase(album.cycleId, 'vote', tx);
+    if (phaseError) {
+      return { success: false as const, error: phaseError };
+    }
+
+    const [cycle] = await tx
+      .select({ votingMode: cycles.votingMode })
+      .from(cycles)
+      .where(eq(cycles.id, album.cycleId))
+      .limit(1);
+
+    if (cycle?.votingMode !== 'upvote') {
+      return { success: false as const, error: 'Change your ballot or credits instead' };
+    }
+
+    const isOwnAlbum =
+      album.submittedByUserId === user.id || (!!user.fid && album.submittedByFid === user.fid);
+    if (isOwnAlbum) {
+      return { success: false as const, error: 'Your vote on your own album stays - withdraw the album instead' };
+    }
+
+    // Legacy votes may only carry the voter's FID
+    const removed = await tx
+      .delete(votes)
+      .where(
+        and(
+          eq(votes.albumId, albumId),
+          user.fid ? or(eq(votes.voterId, user.id), eq(votes.voterFid, user.fid)) : eq(votes.voterId, user.id)
+        )
+      )
+      .returning({ id: votes.id });
+
+    if (removed.length === 0) {
+      return { success: false as const, error: "You haven't voted for this album" };
+    }
+
+    return { success: true as const };
+  });
+}
+
+// ===========================================
+// EDIT / WITHDRAW OWN SUBMISSION
+// ===========================================
+
+const SUBMISSION_NOTE_LIMIT = 280;
+
+/**
+ * Load an album for a submitter-only change during voting.
+ * Returns the album, or an error if the caller can't change it right now.
+ */
+async function getOwnVotingAlbum(tx: TxClient, user: SessionUser, albumId: string) {
+  const [album] = await tx.select().from(albums).where(eq(albums.id, albumId)).limit(1);
+
+  if (!album || album.status !== 'voting') {
+    return { album: null, error: 'Album not found' };
+  }
+
+  const isOwnAlbum =
+    album.submittedByUserId === user.id || (!!user.fid && album.submittedByFid === user.fid);
+  if (!isOwnAlbum) {
+    return { album: null, error: 'Only the submitter can change this album' };
+  }
+
+  const accessError = await checkCycleAccess(album.cycleId, user, tx);
+  if (accessError) {
+    return { album: null, error: accessError };
+  }
+
+  // Phase guard: submissions can only change while voting is open
+  const phaseError = await checkCyclePhase(album.cycleId, 'submit', tx);
+  if (phaseError) {
+    return { album: null, error: phaseError };
+  }
+
+  return { album, error: null };
+}
+
+/**
+ * Edit the note on your own submission while voting is open
+ * The submitter is derived from the verified auth token
+ */
+export async function updateSubmissionNote(authToken: string, albumId: string, note: string) {
+  const user = await getSessionUser(authToken);
+  if (!user) {
+    return { success: false as const, error: 'Please sign in to edit your submission' };
+  }
+
+  const trimmed = note.trim();
+  if (trimmed.length > SUBMISSION_NOTE_LIMIT) {
+    return { success: false as const, error: `Note must be ${SUBMISSION_NOTE_LIMIT} characters or less` };
+  }
+
+  return await db.transaction(async (tx) => {
+    const { album, error } = await getOwnVotingAlbum(tx, user, albumId);
+    if (!album) {
+      return { success: false as const, error };
+    }
+
+    await tx
+      .update(albums)
+      .set({ submissionNote: trimmed || null })
+      .where(eq(albums.id, albumId));
+
+    return { success: true as const };
+  });
+}
+
+/**
+ * Withdraw your own submission while voting is open
+ * The album leaves the ballot, every vote, credit and ranking on it is voided,
+ * and the slot counts toward the submitter's limit again.
+ * The submitter is derived from the verified auth token
+ * Wrapped in a transaction so status change + vote cleanup are atomic
+ */
+export async function withdrawSubmission(authToken: string, albumId: string) {
+  const user = await getSessionUser(authToken);
+  if (!user) {
+    return { success: false as const, error: 'Please sign in to withdraw your submission' };
+  }
+
+  return await db.transaction(async (tx) => {
+    const { album, error } = await getOwnVotingAlbum(tx, user, albumId);
+    if (!album) {
+      return { success: false as const, error };
+    }
+
+    await tx.delete(votes).where(eq(votes.albumId, albumId));
+    await tx.delete(rankedBallots).where(eq(rankedBallots.albumId, albumId));
+
+    await tx
+      .update(albums)
+      .set({ status: 'withdrawn' })
+      .where(eq(albums.id, albumId));
+
+    return { success: true as const };
+  });
+}
+
+// ===========================================
+// QUADRATIC VOTE BUDGET
+// ===========================================
+
+/**
+ * Set how many votes the caller puts on an album in a quadratic cycle
+ * Putting n votes on one album costs n² credits; the total across the cycle
+ * must stay within the cycle's `voteCredits`. A weight of 0 takes the votes back.
+ * The voter is derived from the verified auth token
+ * Wrapped in a transaction so the budget check + write are atomic
+ */
+export async function allocateVotes(authToken: string, albumId: string, weight: number) {
+  const user = await getSessionUser(authToken);
+  if (!user) {
+    return { success: false as const, error: 'Authentication required to vote' };
+  }
+
+  if (!Number.isInteger(weight) || weight < 0) {
+    return { success: false as const, error: 'Votes must be a whole number' };
+  }
+
+  try {
+    return await db.transaction(async (tx) => {
+      const [album] = await tx.select().from(albums).where(eq(albums.id, albumId)).limit(1);
+
+      if (!album || album.status !== 'voting') {
+        return { success: false as const, error: 'Album not available for voting' };
+      }
+
+      const accessError = await checkCycleAccess(album.cycleId, user, tx);
+      if (accessError) {
+        return { success: false as const, error: accessError };
+      }
+
+      // Phase guard: reallocation only while voting is open
+      const phaseError = await checkCyclePhase(album.cycleId, 'vote', tx);
+      if (phaseError) {
+        return { success: false as const, error: phaseError };
+      }
+
+      const [cycle] = await tx
+        .select({ votingMode: cycles.votingMode, voteCredits: cycles.voteCredits })
+        .from(cycles)
+        .where(eq(cycles.id, album.cycleId))
+        .limit(1);
+
+      if (cycle?.votingMode !== 'quadratic') {
+        return { success: false as const, error: 'This cycle does not use a vote budget' };
+      }
+
+      // Serialize this voter's allocations in the cycle so two requests can't both pass the budget check
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`votes:${album.cycleId}:${user.id}`}))`);
+
+      // Credits already spent on the other albums in this cycle
+      const [spent] = await tx
+        .select({ credits: sql<number>`coalesce(sum(${votes.weight} * ${votes.weight}), 0)::int` })
+        .from(votes)
+        .innerJoin(albums, eq(albums.id, votes.albumId))
+        .where(and(eq(albums.cycleId, album.cycleId), eq(votes.voterId, user.id), ne(votes.albumId, albumId)));
+
+      if ((spent?.credits ?? 0) + weight * weight > cycle.voteCredits) {
+        return { success: false as const, error: 'Not enough credits left' };
+      }
+
+      await tx
+        .delete(votes)
+        .where(and(eq(votes.albumId, albumId), eq(votes.voterId, user.id)));
+
+      if (weight > 0) {
+        await tx.insert(votes).values({
+          albumId,
+          voterFid: user.fid,
+          voterId: user.id,
+          weight,
+        });
+      }
+
+      return { success: true as const, creditsLeft: cycle.voteCredits - (spent?.credits ?? 0) - weight * weight };
+    });
+  } catch (err: unknown) {
+    // Unique index violation means a concurrent allocation from the same voter won
+    const msg = err instanceof Error ? err.message : String(err);
+    if (msg.includes('unique') || msg.includes('duplicate')) {
+      return { success: false as const, error: 'Your votes changed in another window - try again' };
+    }
+    throw err;
+  }
+}
+
+// ===========================================
+// RANKED-CHOICE BALLOTS
+// ===========================================
+
+/**
+ * Submit (or replace) the caller's ranked ballot for a cycle
+ * `albumIds` is in preference order, first choice first.
+ * The voter is derived from the verified auth token
+ * Wrapped in a transaction so the old ballot is swapped out atomically
  */
-export async function selectWinner(cycleId: string) {
-  // Get all albums with vote counts
-  const submissions = await getSubmissions(cycleId);
+export async function submitBallot(authToken: string, cycleId: string, albumIds: string[]) {
+  const user = await getSessionUser(authToken);
+  if (!user) {
+    return { success: false as const, error: 'Authentication required to vote' };
+  }
 
-  if (submissions.length === 0) {
-    return { success: false as const, error: 'No submissions to select from' };
+  if (albumIds.length === 0) {
+    return { success: false as const, error: 'Rank at least one album' };
+  }
+  if (new Set(albumIds).size !== albumIds.length) {
+    return { success: false as const, error: 'Each album can only be ranked once' };
   }
 
-  // Find the highest vote count
-  const maxVotes = Math.max(...submissions.map((s) => s.votes));
-  const topAlbums = submissions.filter((s) => s.votes === maxVotes);
+  try {
+    return await db.transaction(async (tx) => {
+      const accessError = await checkCycleAccess(cycleId, user, tx);
+      if (accessError) {
+        return { success: false as const, error: accessError };
+      }
 
-  // Tiebreaker: if multiple albums have same votes, pick earliest submission
-  // (already sorted by createdAt desc, so reverse for earliest first)
-  const winner = topAlbums[topAlbums.length - 1];
+      // Phase guard: ballots only while voting is open
+      const phaseError = await checkCyclePhase(cycleId, 'vote', tx);
+      if (phaseError) {
+        return { success: false as const, error: phaseError };
+      }
 
-  // Update winner status
-  await db.update(albums).set({ status: 'selected' }).where(eq(albums.id, winner.id));
+      const [cycle] = await tx
+        .select({ votingMode: cycles.votingMode, maxRankedChoices: cycles.maxRankedChoices })
+        .from(cycles)
+        .where(eq(cycles.id, cycleId))
+        .limit(1);
 
-  // Update losers
-  await db
-    .update(albums)
-    .set({ status: 'lost' })
-    .where(and(eq(albums.cycleId, cycleId), eq(albums.status, 'voting')));
+      if (cycle?.votingMode !== 'ranked') {
+        return { success: false as const, error: 'This cycle uses upvotes, not ranked ballots' };
+      }
+      if (albumIds.length > cycle.maxRankedChoices) {
+        return { success: false as const, error: `Rank up to ${cycle.maxRankedChoices} albums` };
+      }
+
+      // Every ranked album must be a live submission in this cycle
+      const valid = await tx
+        .select({ id: albums.id })
+        .from(albums)
+        .where(and(eq(albums.cycleId, cycleId), eq(albums.status, 'voting'), inArray(albums.id, albumIds)));
+
+      if (valid.length !== albumIds.length) {
+        return { success: false as const, error: 'Album not available for voting' };
+      }
+
+      await tx
+        .delete(rankedBallots)
+        .where(and(eq(rankedBallots.cycleId, cycleId), eq(rankedBallots.voterId, user.id)));
+
+      await tx.insert(rankedBallots).values(
+        albumIds.map((albumId, index) => ({
+          cycleId,
+          albumId,
+          voterId: user.id,
+          rank: index + 1,
+        }))
+      );
+
+      return { success: true as const };
+    });
+  } catch (err: unknown) {
+    // Unique index violation means a concurrent ballot from the same voter won
+    const msg = err instanceof Error ? err.message : String(err);
+    if (msg.includes('unique') || msg.includes('duplicate')) {
+      return { success: false as const, error: 'Your ballot changed in another window - try again' };
+    }
+    throw err;
+  }
+}
+
+/**
+ * Get the caller's ranked ballot for a cycle (album ids, first choice first)
+ * The voter is derived from the verified auth token
+ */
+export async function getUserBallot(authToken: string | null, cycleId: string) {
+  const viewer = await getSessionUser(authToken);
+  if (!viewer || (await checkCycleAccess(cycleId, viewer))) return [];
+
+  const rows = await db
+    .select({ albumId: rankedBallots.albumId })
+    .from(rankedBallots)
+    .where(and(eq(rankedBallots.cycleId, cycleId), eq(rankedBallots.voterId, viewer.id)))
+    .orderBy(asc(rankedBallots.rank));
+
+  return rows.map((row) => row.albumId);
+}
+
+/**
+ * Count ranked ballots cast in a cycle
+ */
+export async function getBallotCount(authToken: string | null, cycleId: string) {
+  const viewer = await getSessionUser(authToken);
+  if (await checkCycleAccess(cycleId, viewer)) return 0;
 
-  // Update cycle with winner and phase
-  await db.update(cycles).set({ winnerId: winner.id, phase: 'listening' }).where(eq(cycles.id, cycleId));
+  const [result] = await db
+    .select({ count: sql<number>`count(distinct ${rankedBallots.voterId})::int` })
+    .from(rankedBallots)
+    .where(eq(rankedBallots.cycleId, cycleId));
 
-  return { success: true, winner };
+  return result?.count ?? 0;
 }
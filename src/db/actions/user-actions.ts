@@ -3,6 +3,8 @@
 import { db } from '@/neynar-db-sdk/db';
 import { users } from '@/db/schema';
 import { eq } from 'drizzle-orm';
+import { verifyAuthToken, getSessionUser, getPrivyLinkedAccounts } from '@/lib/session';
+import { isStreamingService, type StreamingService } from '@/lib/streaming-services';
 
 export type AuthProvider = 'farcaster' | 'privy';
 
@@ -27,6 +29,7 @@ export interface UserRecord {
   displayName: string;
   pfpUrl: string | null;
   authProvider: string;
+  preferredStreamingService: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -86,8 +89,9 @@ export async function getUserById(userId: string): Promise<UserRecord | null> {
 
 /**
  * Create a new user
+ * (Non-exported helper function - not a server action)
  */
-export async function createUser(data: CreateUserData): Promise<UserRecord> {
+async function createUser(data: CreateUserData): Promise<UserRecord> {
   const [newUser] = await db
     .insert(users)
     .values({
@@ -107,48 +111,79 @@ export async function createUser(data: CreateUserData): Promise<UserRecord> {
 
 /**
  * Get or create user from Farcaster data
- * - Checks if user exists by FID
- * - If exists with same wallet, returns existing
+ * - The FID comes from the verified auth token: a Quick Auth token directly,
+ *   or the Farcaster account linked to a Privy login
+ * - If exists, refreshes profile info and returns existing
  * - If new, creates user record
  */
-export async function getOrCreateFarcasterUser(data: {
-  fid: number;
-  username: string;
-  displayName: string;
-  pfpUrl?: string;
-  walletAddress?: string;
-}): Promise<UserRecord> {
+export async function getOrCreateFarcasterUser(
+  authToken: string,
+  data: {
+    username: string;
+    displayName: string;
+    pfpUrl?: string;
+    walletAddress?: string;
+  }
+): Promise<UserRecord> {
+  const identity = await verifyAuthToken(authToken);
+  if (!identity) {
+    throw new Error('Authentication required');
+  }
+
+  let fid: number;
+  let privyId: string | null = null;
+  let verifiedWallets: string[] = [];
+
+  if (identity.provider === 'farcaster') {
+    fid = identity.fid;
+  } else {
+    // Privy login with a linked Farcaster account — confirm the link with Privy
+    const linked = await getPrivyLinkedAccounts(identity.privyId);
+    if (!linked?.farcaster) {
+      throw new Error('No verified Farcaster account linked to this login');
+    }
+    fid = linked.farcaster.fid;
+    privyId = identity.privyId;
+    verifiedWallets = linked.walletAddresses;
+  }
+
   // Check if user already exists by FID
-  const existingByFid = await getUserByFid(data.fid);
+  const existingByFid = await getUserByFid(fid);
   if (existingByFid) {
-    // Update profile info if changed
+    // Update profile info if changed (and attach the Privy login on first sync)
     if (
       existingByFid.username !== data.username ||
       existingByFid.displayName !== data.displayName ||
-      existingByFid.pfpUrl !== data.pfpUrl
+      existingByFid.pfpUrl !== data.pfpUrl ||
+      (privyId && !existingByFid.privyId)
     ) {
-      await db
+      const [updated] = await db
         .update(users)
         .set({
           username: data.username,
           displayName: data.displayName,
           pfpUrl: data.pfpUrl ?? existingByFid.pfpUrl,
+          privyId: existingByFid.privyId ?? privyId,
           updatedAt: new Date(),
         })
-        .where(eq(users.id, existingByFid.id));
+        .where(eq(users.id, existingByFid.id))
+        .returning();
+      return updated;
     }
     return existingByFid;
   }
 
   // Check if wallet already exists (account linking scenario)
-  if (data.walletAddress) {
-    const existingByWallet = await getUserByWalletAddress(data.walletAddress);
+  // Only wallets Privy confirms belong to this login may link accounts
+  const walletAddress = data.walletAddress?.toLowerCase();
+  if (walletAddress && verifiedWallets.includes(walletAddress)) {
+    const existingByWallet = await getUserByWalletAddress(walletAddress);
     if (existingByWallet && !existingByWallet.fid) {
       // Link Farcaster to existing Privy account
       const [updated] = await db
         .update(users)
         .set({
-          fid: data.fid,
+          fid,
           username: data.username,
           displayName: data.displayName,
           pfpUrl: data.pfpUrl ?? existingByWallet.pfpUrl,
@@ -163,7 +198,8 @@ export async function getOrCreateFarcasterUser(data: {
 
   // Create new user
   return createUser({
-    fid: data.fid,
+    fid,
+    privyId: privyId ?? undefined,
     walletAddress: data.walletAddress,
     username: data.username,
     displayName: data.displayName,
@@ -174,18 +210,26 @@ export async function getOrCreateFarcasterUser(data: {
 
 /**
  * Get or create user from Privy data
- * - Checks if user exists by Privy ID
- * - Checks wallet address for account linking
+ * - The Privy ID comes from the verified access token
+ * - Checks wallet address for account linking (only wallets Privy confirms)
  * - If new, creates user record with DiceBear avatar
  */
-export async function getOrCreatePrivyUser(data: {
-  privyId: string;
-  email?: string;
-  walletAddress?: string;
-  displayName?: string;
-}): Promise<UserRecord> {
+export async function getOrCreatePrivyUser(
+  authToken: string,
+  data: {
+    email?: string;
+    walletAddress?: string;
+    displayName?: string;
+  }
+): Promise<UserRecord> {
+  const identity = await verifyAuthToken(authToken);
+  if (identity?.provider !== 'privy') {
+    throw new Error('Authentication required');
+  }
+  const privyId = identity.privyId;
+
   // Check if user already exists by Privy ID
-  const existingByPrivyId = await getUserByPrivyId(data.privyId);
+  const existingByPrivyId = await getUserByPrivyId(privyId);
   if (existingByPrivyId) {
     // Update wallet address if it was missing and is now available
     // (Privy creates embedded wallet async after login, so first sync may have no wallet)
@@ -204,14 +248,19 @@ export async function getOrCreatePrivyUser(data: {
   }
 
   // Check if wallet already exists (account linking scenario)
-  if (data.walletAddress) {
-    const existingByWallet = await getUserByWalletAddress(data.walletAddress);
+  // Only wallets Privy confirms belong to this login may link accounts
+  const walletAddress = data.walletAddress?.toLowerCase();
+  if (walletAddress) {
+    const linked = await getPrivyLinkedAccounts(privyId);
+    const existingByWallet = linked?.walletAddresses.includes(walletAddress)
+      ? await getUserByWalletAddress(walletAddress)
+      : null;
     if (existingByWallet && !existingByWallet.privyId) {
       // Link Privy to existing Farcaster account
       const [updated] = await db
         .update(users)
         .set({
-          privyId: data.privyId,
+          privyId,
           email: data.email ?? existingByWallet.email,
           updatedAt: new Date(),
         })
@@ -227,11 +276,11 @@ export async function getOrCreatePrivyUser(data: {
     : await ensureUniqueUsername('user');
 
   const displayName = data.displayName || username;
-  const pfpUrl = generateAvatarUrl(data.privyId);
+  const pfpUrl = generateAvatarUrl(privyId);
 
   // Create new user
   return createUser({
-    privyId: data.privyId,
+    privyId,
     email: data.email,
     walletAddress: data.walletAddress,
     username,
@@ -271,48 +320,61 @@ async function ensureUniqueUsername(baseUsername: string): Promise<string> {
 }
 
 /**
- * Update user profile
+ * Update the signed-in user's profile
+ * Returns null if the caller isn't authenticated
  */
 export async function updateUserProfile(
-  userId: string,
+  authToken: string,
   data: Partial<Pick<UserRecord, 'username' | 'displayName' | 'pfpUrl'>>
 ): Promise<UserRecord | null> {
+  const user = await getSessionUser(authToken);
+  if (!user) return null;
+
   const [updated] = await db
     .update(users)
     .set({
       ...data,
       updatedAt: new Date(),
     })
-    .where(eq(users.id, userId))
+    .where(eq(users.id, user.id))
     .returning();
 
   return updated ?? null;
 }
 
 /**
- * Link Farcaster account to existing Privy user
+ * Get the signed-in user's preferred streaming service for "Listen on…"
+ * Null when signed out or not chosen yet
  */
-export async function linkFarcasterToUser(
-  userId: string,
-  farcasterData: {
-    fid: number;
-    username: string;
-    displayName: string;
-    pfpUrl?: string;
+export async function getPreferredStreamingService(authToken: string | null): Promise<StreamingService | null> {
+  const user = await getSessionUser(authToken);
+  if (!user) return null;
+
+  const [row] = await db
+    .select({ service: users.preferredStreamingService })
+    .from(users)
+    .where(eq(users.id, user.id))
+    .limit(1);
+
+  return row?.service && isStreamingService(row.service) ? row.service : null;
+}
+
+/**
+ * Remember the signed-in user's preferred streaming service
+ */
+export async function setPreferredStreamingService(authToken: string, service: string) {
+  const user = await getSessionUser(authToken);
+  if (!user) {
+    return { success: false as const, error: 'Please sign in to save your preference' };
   }
-): Promise<UserRecord | null> {
-  const [updated] = await db
+  if (!isStreamingService(service)) {
+    return { success: false as const, error: 'Unknown streaming service' };
+  }
+
+  await db
     .update(users)
-    .set({
-      fid: farcasterData.fid,
-      username: farcasterData.username,
-      displayName: farcasterData.displayName,
-      pfpUrl: farcasterData.pfpUrl,
-      authProvider: 'farcaster', // Upgrade to Farcaster
-      updatedAt: new Date(),
-    })
-    .where(eq(users.id, userId))
-    .returning();
+    .set({ preferredStreamingService: service, updatedAt: new Date() })
+    .where(eq(users.id, user.id));
 
-  return updated ?? null;
+  return { success: true as const };
 }
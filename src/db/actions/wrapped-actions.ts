@@ -0,0 +1,171 @@
+'use server';
+
+import { db } from '@/neynar-db-sdk/db';
+import { albums, votes, reviews, cycles, users } from '@/db/schema';
+import { eq, ne, and, sql } from 'drizzle-orm';
+import { getSessionUser } from '@/lib/session';
+import { checkGroupAccess } from '@/lib/groups';
+
+/**
+ * Wrapped — a group's year in albums, and one member's year within it
+ *
+ * Everything is scoped to the group's cycles whose own `year` matches. The
+ * group listened to that year's winners; a member listened to the winners
+ * they reviewed as listened.
+ */
+
+interface Take {
+  albumId: string;
+  title: string;
+  artist: string;
+  rating: number; // the member's rating
+  groupRating: number; // average of everyone else's ratings
+}
+
+/**
+ * Round to one decimal, or null for no data
+ */
+function round1(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 10) / 10;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+/**
+ * Most common genres, most frequent first (ties keep first-seen order)
+ */
+function topGenres(genreLists: (string[] | null)[], limit = 3): string[] {
+  const counts = new Map<string, number>();
+  for (const genres of genreLists) {
+    for (const genre of genres ?? []) counts.set(genre, (counts.get(genre) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit)
+    .map(([genre]) => genre);
+}
+
+/**
+ * Get a group's recap for a year, plus one member's recap when `userId` is given
+ * Returns null when the caller can't see the group
+ */
+export async function getWrapped(authToken: string | null, groupId: string, year: number, userId?: string) {
+  const viewer = await getSessionUser(authToken);
+  if (await checkGroupAccess(groupId, viewer)) return null;
+
+  const inGroupYear = and(eq(cycles.groupId, groupId), eq(cycles.year, year));
+
+  // The year's winners and every review of them — bounded by one album per cycle
+  const [winners, yearReviews] = await Promise.all([
+    db
+      .select({
+        id: albums.id,
+        title: albums.title,
+        artist: albums.artist,
+        coverUrl: albums.coverUrl,
+        genres: albums.genres,
+        avgRating: albums.avgRating,
+        totalReviews: albums.totalReviews,
+      })
+      .from(albums)
+      .innerJoin(cycles, eq(cycles.id, albums.cycleId))
+      .where(and(inGroupYear, eq(albums.status, 'selected'))),
+    db
+      .select({
+        albumId: reviews.albumId,
+        reviewerId: reviews.reviewerId,
+        rating: reviews.rating,
+        hasListened: reviews.hasListened,
+      })
+      .from(reviews)
+      .innerJoin(albums, eq(albums.id, reviews.albumId))
+      .innerJoin(cycles, eq(cycles.id, albums.cycleId))
+      .where(and(inGroupYear, eq(albums.status, 'selected'))),
+  ]);
+
+  const groupAvgRating = average(yearReviews.map((r) => r.rating));
+  const topAlbum = winners
+    .filter((a) => a.avgRating !== null)
+    .sort((a, b) => (b.avgRating ?? 0) - (a.avgRating ?? 0))[0] ?? null;
+
+  const group = {
+    albumsListened: winners.length,
+    reviewsWritten: yearReviews.length,
+    reviewers: new Set(yearReviews.map((r) => r.reviewerId).filter(Boolean)).size,
+    avgRating: round1(groupAvgRating),
+    topGenres: topGenres(winners.map((a) => a.genres as string[] | null)),
+    topAlbum: topAlbum
+      ? { id: topAlbum.id, title: topAlbum.title, artist: topAlbum.artist, coverUrl: topAlbum.coverUrl, avgRating: topAlbum.avgRating }
+      : null,
+  };
+
+  if (!userId) {
+    return { year, group, member: null };
+  }
+
+  const [[member], submissions, [votesCast]] = await Promise.all([
+    db.select({ username: users.username }).from(users).where(eq(users.id, userId)).limit(1),
+    db
+      .select({ status: albums.status })
+      .from(albums)
+      .innerJoin(cycles, eq(cycles.id, albums.cycleId))
+      .where(and(inGroupYear, eq(albums.submittedByUserId, userId), ne(albums.status, 'withdrawn'))),
+    db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(votes)
+      .innerJoin(albums, eq(albums.id, votes.albumId))
+      .innerJoin(cycles, eq(cycles.id, albums.cycleId))
+      .where(and(inGroupYear, eq(votes.voterId, userId))),
+  ]);
+
+  if (!member) {
+    return { year, group, member: null };
+  }
+
+  const winnersById = new Map(winners.map((a) => [a.id, a]));
+  const myReviews = yearReviews.filter((r) => r.reviewerId === userId);
+
+  // Each of the member's reviews next to everyone else's average for the same album
+  const takes: Take[] = [];
+  for (const review of myReviews) {
+    const album = winnersById.get(review.albumId);
+    const groupRating = average(
+      yearReviews.filter((r) => r.albumId === review.albumId && r.reviewerId !== userId).map((r) => r.rating)
+    );
+    if (!album || groupRating === null) continue;
+
+    takes.push({ albumId: album.id, title: album.title, artist: album.artist, rating: review.rating, groupRating: round1(groupRating)! });
+  }
+  takes.sort((a, b) => Math.abs(a.rating - a.groupRating) - Math.abs(b.rating - b.groupRating));
+
+  // Genres of the albums they loved (4+), or of everything they reviewed if none
+  const loved = myReviews.filter((r) => r.rating >= 4);
+  const favoriteGenres = topGenres(
+    (loved.length > 0 ? loved : myReviews).map((r) => (winnersById.get(r.albumId)?.genres as string[] | null) ?? null)
+  );
+
+  const wins = submissions.filter((s) => s.status === 'selected').length;
+
+  return {
+    year,
+    group,
+    member: {
+      userId,
+      username: member.username,
+      albumsListened: myReviews.filter((r) => r.hasListened).length,
+      reviewsWritten: myReviews.length,
+      avgRatingGiven: round1(average(myReviews.map((r) => r.rating))),
+      // What the member's average is compared against: the year's reviews by everyone else
+      othersAvgRating: round1(average(yearReviews.filter((r) => r.reviewerId !== userId).map((r) => r.rating))),
+      votesCast: votesCast?.count ?? 0,
+      mostAgreed: takes[0] ?? null,
+      mostContrarian: takes.length > 1 ? takes[takes.length - 1] : null,
+      favoriteGenres,
+      submissions: submissions.length,
+      wins,
+      winRate: submissions.length > 0 ? Math.round((wins / submissions.length) * 100) : null,
+    },
+  };
+}
@@ -42,52 +42,186 @@ export const users = pgTable("users", {
   displayName: text("display_name").notNull(), // Full display name
   pfpUrl: text("pfp_url"), // FC pfp OR DiceBear generated
   authProvider: text("auth_provider").notNull(), // 'farcaster' | 'privy'
+  preferredStreamingService: text("preferred_streaming_service"), // StreamingService for "Listen on…"
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 /**
- * Cycles - 2-week listening cycles (26 per year)
+ * Groups - independent listening clubs sharing one deployment
+ * Each group has its own schedule, cycles, submissions, votes and archive.
+ * The original club is the 'playgroup' group (src/lib/groups.ts).
+ */
+export const groups = pgTable("groups", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  slug: text("slug").notNull(), // URL-safe handle, e.g. 'jazz-club'
+  name: text("name").notNull(),
+  visibility: text("visibility").notNull().default("open"), // 'open' (anyone can join) | 'invite' (members only, join by invite code)
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("groups_slug_unique").on(table.slug),
+  check("groups_visibility_valid", sql`${table.visibility} IN ('open', 'invite')`),
+]);
+
+/**
+ * Group members - which users have joined which groups, and their role
+ * Invite-only groups only show their cycles to members (src/lib/groups.ts).
+ */
+export const groupMembers = pgTable("group_members", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  groupId: uuid("group_id").notNull().references(() => groups.id),
+  userId: uuid("user_id").notNull().references(() => users.id),
+  role: text("role").notNull().default("member"), // 'owner' | 'moderator' | 'member'
+  joinedAt: timestamp("joined_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("group_members_group_user_unique").on(table.groupId, table.userId),
+  check("group_members_role_valid", sql`${table.role} IN ('owner', 'moderator', 'member')`),
+]);
+
+/**
+ * Group invites - join codes for invite-only groups, created by owners and moderators
+ */
+export const groupInvites = pgTable("group_invites", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  groupId: uuid("group_id").notNull().references(() => groups.id),
+  code: text("code").notNull(), // shared as /?invite=<code>
+  createdById: uuid("created_by_id").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at"), // null = never expires
+  maxUses: integer("max_uses"), // null = unlimited
+  useCount: integer("use_count").notNull().default(0),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("group_invites_code_unique").on(table.code),
+  check("group_invites_max_uses_positive", sql`${table.maxUses} IS NULL OR ${table.maxUses} >= 1`),
+]);
+
+/**
+ * Cycle schedules - cadence configuration for future cycles
+ * Each row governs its group's cycles starting on/after `effectiveFrom` until the next row.
+ * Cycles already created keep the boundaries stored on their own row.
+ */
+export const cycleSchedules = pgTable("cycle_schedules", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  groupId: uuid("group_id").notNull().references(() => groups.id),
+  timezone: text("timezone").notNull(), // IANA zone, e.g. 'Asia/Jakarta'
+  cycleLengthDays: integer("cycle_length_days").notNull(),
+  votingLengthDays: integer("voting_length_days").notNull(),
+  reviewOffsetDays: integer("review_offset_days").notNull(), // days after cycle start when reviews open
+  effectiveFrom: timestamp("effective_from").notNull(), // local midnight (in `timezone`) that starts the first cycle
+  votingMode: text("voting_mode").notNull().default("upvote"), // 'upvote' | 'ranked' | 'quadratic' — copied onto each new cycle
+  maxRankedChoices: integer("max_ranked_choices").notNull().default(3), // ballot length in ranked mode
+  voteCredits: integer("vote_credits").notNull().default(5), // per-member budget in quadratic mode
+  maxSubmissions: integer("max_submissions").notNull().default(3), // albums each member may submit per cycle
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("cycle_schedules_group_effective_from_unique").on(table.groupId, table.effectiveFrom),
+  // Voting and the review window must both fit inside the cycle
+  check(
+    "cycle_schedule_lengths_valid",
+    sql`${table.votingLengthDays} >= 1 AND ${table.votingLengthDays} < ${table.cycleLengthDays} AND ${table.reviewOffsetDays} >= ${table.votingLengthDays} AND ${table.reviewOffsetDays} < ${table.cycleLengthDays}`
+  ),
+  check(
+    "cycle_schedule_voting_mode_valid",
+    sql`${table.votingMode} IN ('upvote', 'ranked', 'quadratic') AND ${table.maxRankedChoices} >= 1 AND ${table.voteCredits} >= 1 AND ${table.maxSubmissions} >= 1`
+  ),
+]);
+
+/**
+ * Cycles - listening cycles (cadence from cycle_schedules, 14 days by default)
  */
 export const cycles = pgTable("cycles", {
   id: uuid("id").primaryKey().defaultRandom(),
+  groupId: uuid("group_id").notNull().references(() => groups.id),
   weekNumber: integer("week_number").notNull(),
   year: integer("year").notNull(),
-  phase: text("phase").notNull(), // 'voting' | 'listening'
+  phase: text("phase").notNull(), // 'upcoming' | 'voting' | 'listening' | 'reviewing' | 'closed' — see src/lib/cycle-phase.ts
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
   votingEndsAt: timestamp("voting_ends_at").notNull(),
   reviewOpensAt: timestamp("review_opens_at"), // nullable — old cycles treated as always open
   winnerId: uuid("winner_id"), // references albums.id when selected (FK omitted to avoid circular type inference)
+  votingMode: text("voting_mode").notNull().default("upvote"), // 'upvote' | 'ranked' | 'quadratic'
+  maxRankedChoices: integer("max_ranked_choices").notNull().default(3), // ranked mode: max albums per ballot
+  voteCredits: integer("vote_credits").notNull().default(5), // quadratic mode: credits per member (n votes cost n²)
+  maxSubmissions: integer("max_submissions").notNull().default(3), // per-member submission cap (withdrawn albums don't count)
+  runoffResult: jsonb("runoff_result"), // ranked mode: RunoffResult (src/lib/instant-runoff.ts), set when voting closes
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/**
+ * Cycle events - audit log of phase transitions, one row per phase entered
+ * Written only by transitionCycle / createCycle (src/lib/cycle-state.ts).
+ * The unique (cycle, event) index is a last-resort guard against double transitions.
+ */
+export const cycleEvents = pgTable("cycle_events", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  cycleId: uuid("cycle_id").notNull().references(() => cycles.id),
+  event: text("event").notNull(), // 'cycle_created' | 'voting_opened' | 'voting_closed' | 'reviews_opened' | 'cycle_closed'
+  fromPhase: text("from_phase"), // null for 'cycle_created'
+  toPhase: text("to_phase").notNull(),
+  actor: text("actor").notNull(), // 'cron' | 'admin'
+  details: jsonb("details"), // e.g. { winnerId } for 'voting_closed'
+  occurredAt: timestamp("occurred_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("cycle_events_cycle_event_unique").on(table.cycleId, table.event),
+]);
+
+/**
+ * Canonical albums - one row per album regardless of edition
+ * Remasters, deluxe and regional releases of the same record share a row,
+ * matched by normalized title + primary artist + release year, or by UPC / ISRC
+ * overlap with an edition already linked (src/lib/canonical-albums.ts).
+ * `release_year` is null for rows backfilled from albums with no release date.
+ */
+export const canonicalAlbums = pgTable("canonical_albums", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  titleKey: text("title_key").notNull(), // normalizeTitle(title)
+  artistKey: text("artist_key").notNull(), // normalizeArtist(primary artist)
+  releaseYear: integer("release_year"),
+  title: text("title").notNull(), // as first submitted
+  artist: text("artist").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 /**
  * Albums - submitted and winning albums
+ * Each row is one edition (on Spotify, or on another service for albums Spotify
+ * doesn't carry); `canonical_album_id` groups editions.
  */
 export const albums = pgTable("albums", {
   id: uuid("id").primaryKey().defaultRandom(),
-  spotifyId: text("spotify_id").notNull(),
+  spotifyId: text("spotify_id"), // null for albums not on Spotify (linked from another service)
   title: text("title").notNull(),
   artist: text("artist").notNull(),
   coverUrl: text("cover_url").notNull(),
-  spotifyUrl: text("spotify_url").notNull(),
+  spotifyUrl: text("spotify_url"), // null with spotifyId; streamingLinks has the album's links
   cycleId: uuid("cycle_id").notNull().references(() => cycles.id),
   submittedByFid: integer("submitted_by_fid"), // Legacy - nullable for new users
   submittedByUserId: uuid("submitted_by_user_id").references(() => users.id), // New - references users.id
   submittedByUsername: text("submitted_by_username").notNull(),
-  status: text("status").notNull(), // 'voting' | 'selected' | 'lost'
+  status: text("status").notNull(), // 'voting' | 'selected' | 'lost' | 'withdrawn'
   avgRating: real("avg_rating"),
   totalReviews: integer("total_reviews").default(0),
   mostLovedTrack: text("most_loved_track"),
+  mostLovedTrackId: text("most_loved_track_id"), // track id in track_list; null for name-only favorites
   mostLovedTrackVotes: integer("most_loved_track_votes").default(0),
-  tracks: jsonb("tracks"), // string[] of track names (cached from Spotify)
+  tracks: jsonb("tracks"), // legacy string[] of track names — albums from before track_list
+  trackList: jsonb("track_list"), // AlbumTrack[] (number, disc, title, duration, preview, ISRC)
+  trackStats: jsonb("track_stats"), // TrackStat[] — per-track reactions and favorite picks, from updateAlbumStats
   genres: jsonb("genres"), // string[] of genre tags (from Spotify artist)
   submissionNote: text("submission_note"), // nullable — submitter's pitch for the album
+  canonicalAlbumId: uuid("canonical_album_id").references(() => canonicalAlbums.id), // null until backfilled
+  releaseDate: text("release_date"), // Spotify release date ('YYYY', 'YYYY-MM' or 'YYYY-MM-DD')
+  upc: text("upc"),
+  isrcs: jsonb("isrcs"), // string[] of track ISRCs
+  streamingLinks: jsonb("streaming_links"), // StreamingLinks — album URL per service, resolved at submission
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
-  // Prevent duplicate Spotify ID in same cycle
-  uniqueIndex("albums_cycle_spotify_unique").on(table.cycleId, table.spotifyId),
+  // Prevent duplicate Spotify ID in same cycle (a withdrawn album can be resubmitted)
+  uniqueIndex("albums_cycle_spotify_unique")
+    .on(table.cycleId, table.spotifyId)
+    .where(sql`${table.status} <> 'withdrawn'`),
   // Enforce only one winner per cycle
   uniqueIndex("albums_one_winner_per_cycle")
     .on(table.cycleId, table.status)
@@ -95,15 +229,19 @@ export const albums = pgTable("albums", {
 ]);
 
 /**
- * Votes - one per user per album
+ * Votes - one row per user per album
+ * `weight` is always 1 in upvote mode; in quadratic mode it's the number of
+ * votes the member put on the album (costing weight² credits).
  */
 export const votes = pgTable("votes", {
   id: uuid("id").primaryKey().defaultRandom(),
   albumId: uuid("album_id").notNull().references(() => albums.id),
   voterFid: integer("voter_fid"), // Legacy - nullable for new users
   voterId: uuid("voter_id").references(() => users.id), // New - references users.id
+  weight: integer("weight").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
+  check("votes_weight_positive", sql`${table.weight} >= 1`),
   // Prevent duplicate votes: one per userId per album (partial — skips NULLs)
   uniqueIndex("votes_album_voter_id_unique")
     .on(table.albumId, table.voterId)
@@ -114,6 +252,24 @@ export const votes = pgTable("votes", {
     .where(sql`${table.voterFid} IS NOT NULL`),
 ]);
 
+/**
+ * Ranked ballots - ranked-choice mode, one row per ranked album per voter
+ * A voter's ballot is the set of their rows for a cycle, ordered by rank (1 = first choice).
+ */
+export const rankedBallots = pgTable("ranked_ballots", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  cycleId: uuid("cycle_id").notNull().references(() => cycles.id),
+  albumId: uuid("album_id").notNull().references(() => albums.id),
+  voterId: uuid("voter_id").notNull().references(() => users.id),
+  rank: integer("rank").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  // Each rank used once per ballot, each album ranked once per ballot
+  uniqueIndex("ranked_ballots_voter_rank_unique").on(table.cycleId, table.voterId, table.rank),
+  uniqueIndex("ranked_ballots_voter_album_unique").on(table.cycleId, table.voterId, table.albumId),
+  check("ranked_ballots_rank_positive", sql`${table.rank} >= 1`),
+]);
+
 /**
  * Reviews - one per user per album
  */
@@ -124,14 +280,16 @@ export const reviews = pgTable("reviews", {
   reviewerId: uuid("reviewer_id").references(() => users.id), // New - references users.id
   reviewerUsername: text("reviewer_username").notNull(),
   reviewerPfp: text("reviewer_pfp"),
-  rating: integer("rating").notNull(), // 1-5
+  rating: real("rating").notNull(), // 0.5-5 in half stars
   reviewText: text("review_text").notNull(), // min 50 chars
-  favoriteTrack: text("favorite_track"),
+  favoriteTrack: text("favorite_track"), // title when picked
+  favoriteTrackId: text("favorite_track_id"), // AlbumTrack id; null for albums without a track list
   hasListened: boolean("has_listened").default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  editedAt: timestamp("edited_at"), // set by updateReview; null = never edited
 }, (table) => [
-  // Enforce 1–5 rating at DB level
-  check("rating_1_to_5", sql`${table.rating} >= 1 AND ${table.rating} <= 5`),
+  // Enforce half-star ratings (0.5–5 in 0.5 steps) at DB level
+  check("rating_half_stars", sql`${table.rating} >= 0.5 AND ${table.rating} <= 5 AND ${table.rating} * 2 = round(${table.rating} * 2)`),
   // Prevent duplicate reviews: one per userId per album
   uniqueIndex("reviews_album_reviewer_id_unique")
     .on(table.albumId, table.reviewerId)
@@ -141,3 +299,20 @@ export const reviews = pgTable("reviews", {
     .on(table.albumId, table.reviewerFid)
     .where(sql`${table.reviewerFid} IS NOT NULL`),
 ]);
+
+/**
+ * Review track ratings - optional per-track reactions in a review
+ * One row per rated track; `albumId` is denormalized so album stats aggregate
+ * without joining reviews. Removed with their review.
+ */
+export const reviewTrackRatings = pgTable("review_track_ratings", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  reviewId: uuid("review_id").notNull().references(() => reviews.id),
+  albumId: uuid("album_id").notNull().references(() => albums.id),
+  trackId: text("track_id").notNull(), // AlbumTrack id
+  reaction: text("reaction").notNull(), // 'skip' | 'like' | 'love'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("review_track_ratings_review_track_unique").on(table.reviewId, table.trackId),
+  check("review_track_ratings_reaction", sql`${table.reaction} IN ('skip', 'like', 'love')`),
+]);
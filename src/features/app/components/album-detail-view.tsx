@@ -5,22 +5,31 @@ import { Card, CardContent, H2, H4, P, Button } from '@neynar/ui';
 import { ShareButton } from '@/neynar-farcaster-sdk/mini';
 import { useUserReview } from '@/hooks/use-reviews';
 import { ReviewForm } from './review-form';
+import { ListenOnPicker } from '@/features/app/components/listen-on-picker';
+import type { StreamingLinks } from '@/lib/streaming-services';
+import { albumRuntimeMs, formatRuntime, type AlbumTrack } from '@/lib/album-tracks';
+import { formatRating, ratingStars } from '@/lib/ratings';
+import { isUuid } from '@/lib/ids';
+import { rankTracks, type TrackStat } from '@/lib/track-ratings';
 
 interface AlbumForDisplay {
   id?: string;
-  spotifyId?: string;
+  spotifyId?: string | null;
   title: string;
   artist: string;
   coverUrl: string;
-  spotifyUrl: string;
+  spotifyUrl: string | null;
   avgRating: number | null;
   totalReviews: number | null;
   mostLovedTrack: string | null;
+  mostLovedTrackId?: string | null;
   mostLovedTrackVotes: number | null;
+  trackStats?: TrackStat[] | null;
   weekNumber: number;
   submittedBy: string;
   genres?: string[] | null;
   submissionNote?: string | null;
+  streamingLinks?: StreamingLinks | null;
 }
 
 interface ReviewForDisplay {
@@ -33,21 +42,21 @@ interface ReviewForDisplay {
   rating: number;
   text: string;
   favoriteTrack: string | null;
+  favoriteTrackId?: string | null;
+  editedAt?: Date | null;
   daysAgo: number;
 }
 
 interface AlbumDetailViewProps {
   album: AlbumForDisplay;
   reviews: ReviewForDisplay[];
-  tracks: string[];
+  tracks: AlbumTrack[];
   onBack: () => void;
-  canReview: boolean;
-  // User info from useAuth
-  userFid?: number | null;
-  userId?: string | null;
-  username?: string;
-  pfpUrl?: string | null;
-  onViewProfile?: (fid: number | null, userId?: string) => void;
+  canReview: boolean; // the cycle's phase allows writing a review
+  canEditReview: boolean; // ...and editing or deleting one
+  onViewProfile?: (userId: string) => void;
+  // Called after the user submits, edits or deletes their review, to reload reviews and stats
+  onReviewsChanged?: () => void;
 }
 
 function SubmissionPullQuote({ note, submittedBy }: { note: string | null | undefined; submittedBy: string }) {
@@ -60,6 +69,50 @@ function SubmissionPullQuote({ note, submittedBy }: { note: string | null | unde
   );
 }
 
+// Ranking heat: white for well-liked tracks, red for skipped ones, stronger the further from zero
+function trackHeat(score: number, maxScore: number): string {
+  const strength = Math.abs(score) / maxScore;
+  return score >= 0
+    ? `rgba(255, 255, 255, ${(0.03 + 0.22 * strength).toFixed(2)})`
+    : `rgba(239, 68, 68, ${(0.08 + 0.22 * strength).toFixed(2)})`;
+}
+
+/**
+ * Every track, best first, shaded by how members rated it
+ */
+function TrackRanking({ tracks, stats }: { tracks: AlbumTrack[]; stats: TrackStat[] }) {
+  const ranked = rankTracks(stats).flatMap((stat) => {
+    const track = tracks.find((t) => t.id === stat.trackId);
+    return track ? [{ stat, track }] : [];
+  });
+  const maxScore = Math.max(1, ...ranked.map(({ stat }) => Math.abs(stat.score)));
+
+  return (
+    <div className="space-y-1 mt-2">
+      {ranked.map(({ stat, track }, i) => (
+        <div
+          key={track.id}
+          className="flex items-center gap-2 px-2 py-1.5 rounded"
+          style={{ backgroundColor: trackHeat(stat.score, maxScore) }}
+        >
+          <span className="w-5 text-xs text-gray-500 tabular-nums">{i + 1}</span>
+          <span className="flex-1 text-sm text-white truncate">{track.title}</span>
+          <span className="text-xs text-gray-400 tabular-nums whitespace-nowrap">
+            {[
+              stat.favorites > 0 ? `★ ${stat.favorites}` : null,
+              stat.loves > 0 ? `${stat.loves} love` : null,
+              stat.likes > 0 ? `${stat.likes} like` : null,
+              stat.skips > 0 ? `${stat.skips} skip` : null,
+            ]
+              .filter(Boolean)
+              .join(' • ')}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function GenrePills({ genres }: { genres: string[] }) {
   if (!genres.length) return null;
   return (
@@ -79,27 +132,37 @@ export function AlbumDetailView({
   tracks,
   onBack,
   canReview,
-  userFid,
-  userId,
-  username,
-  pfpUrl,
+  canEditReview,
   onViewProfile,
+  onReviewsChanged,
 }: AlbumDetailViewProps) {
   const [showReviewForm, setShowReviewForm] = useState(false);
 
   // Check if album.id is a valid UUID (not a mock ID like "4")
-  const isValidUuid = album.id && album.id.length > 10;
+  const isValidUuid = !!album.id && isUuid(album.id);
 
   // Check if user already reviewed (only query DB if we have a valid UUID)
-  // Support both FID (legacy) and userId (new)
-  const { hasReviewed } = useUserReview(
-    isValidUuid ? album.id ?? null : null,
-    userFid,
-    userId
+  const { hasReviewed, review: ownReview, refresh: refreshOwnReview } = useUserReview(
+    isValidUuid ? album.id ?? null : null
   );
 
-  // Can write review if: in listening phase AND hasn't reviewed yet
+  // Can write review if: in reviewing phase AND hasn't reviewed yet
   const showWriteReviewButton = canReview && !hasReviewed;
+  const showEditReviewButton = canEditReview && !!ownReview;
+
+  const runtimeMs = albumRuntimeMs(tracks);
+
+  // Favorites are keyed by track id, so show the track's current title
+  const trackTitle = (trackId: string | null | undefined, fallback: string | null) =>
+    tracks.find((track) => track.id === trackId)?.title ?? fallback;
+  const mostLovedTrack = trackTitle(album.mostLovedTrackId, album.mostLovedTrack);
+  const trackStats = album.trackStats ?? [];
+  const hasTrackRanking = trackStats.some((stat) => stat.favorites + stat.loves + stat.likes + stat.skips > 0);
+
+  const handleReviewSaved = () => {
+    refreshOwnReview();
+    onReviewsChanged?.();
+  };
 
   if (showReviewForm && isValidUuid && album.id) {
     return (
@@ -112,10 +175,8 @@ export function AlbumDetailView({
           albumTitle={album.title}
           tracks={tracks}
           onClose={() => setShowReviewForm(false)}
-          userFid={userFid ?? undefined}
-          userId={userId ?? undefined}
-          username={username ?? 'anon'}
-          pfpUrl={pfpUrl ?? null}
+          existingReview={ownReview}
+          onSaved={handleReviewSaved}
         />
       </div>
     );
@@ -149,15 +210,13 @@ export function AlbumDetailView({
               <P className="text-xs text-gray-500 mt-1">
                 Submitted by @{album.submittedBy} • Week {album.weekNumber}
               </P>
+              {runtimeMs !== null && (
+                <P className="text-xs text-gray-500">
+                  {tracks.length} {tracks.length === 1 ? 'track' : 'tracks'} • {formatRuntime(runtimeMs)}
+                </P>
+              )}
               <SubmissionPullQuote note={album.submissionNote} submittedBy={album.submittedBy} />
-              <Button
-                className="mt-2"
-                onClick={() => {
-                  window.open(album.spotifyUrl, '_blank');
-                }}
-              >
-                PLAY ON SPOTIFY
-              </Button>
+              <ListenOnPicker className="mt-2" spotifyUrl={album.spotifyUrl} streamingLinks={album.streamingLinks} />
             </div>
           </div>
 
@@ -183,23 +242,35 @@ export function AlbumDetailView({
           <H4>Community Stats</H4>
           <div className="grid grid-cols-2 gap-4 mt-3">
             <div>
-              <P className="text-2xl font-bold text-white">{album.avgRating ?? '-'}/5</P>
-              <P className="text-xs text-gray-500">Average • {album.totalReviews ?? 0} reviews</P>
-            </div>
-            <div>
-              {album.mostLovedTrack ? (
-                <>
-                  <P className="text-lg font-medium text-white">♪ {album.mostLovedTrack}</P>
-                  <P className="text-xs text-gray-500">Most loved • {album.mostLovedTrackVotes ?? 0} picks</P>
-                </>
-              ) : (
-                <>
-                  <P className="text-lg font-medium text-gray-500">No reviews yet</P>
-                  <P className="text-xs text-gray-500">Be the first!</P>
-                </>
+              <P className="text-2xl font-bold text-white">{formatRating(album.avgRating)}/5</P>
+              {album.avgRating !== null && (
+                <P className="text-sm text-gray-400">{ratingStars(album.avgRating)}</P>
               )}
+              <P className="text-xs text-gray-500">Average • {album.totalReviews ?? 0} reviews</P>
             </div>
+            {/* Albums reviewed before track ratings only have their most loved track */}
+            {!hasTrackRanking && (
+              <div>
+                {mostLovedTrack ? (
+                  <>
+                    <P className="text-lg font-medium text-white">♪ {mostLovedTrack}</P>
+                    <P className="text-xs text-gray-500">Most loved • {album.mostLovedTrackVotes ?? 0} picks</P>
+                  </>
+                ) : (
+                  <>
+                    <P className="text-lg font-medium text-gray-500">No reviews yet</P>
+                    <P className="text-xs text-gray-500">Be the first!</P>
+                  </>
+                )}
+              </div>
+            )}
           </div>
+          {hasTrackRanking && (
+            <div className="mt-4">
+              <P className="text-sm text-gray-400">Track ranking</P>
+              <TrackRanking tracks={tracks} stats={trackStats} />
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -213,7 +284,12 @@ export function AlbumDetailView({
                 + Write Review
               </Button>
             )}
-            {hasReviewed && (
+            {showEditReviewButton && (
+              <Button variant="outline" size="sm" onClick={() => setShowReviewForm(true)}>
+                Edit your review
+              </Button>
+            )}
+            {hasReviewed && !showEditReviewButton && (
               <P className="text-xs text-white">✓ You reviewed this</P>
             )}
           </div>
@@ -233,20 +309,25 @@ export function AlbumDetailView({
                     <div className="flex items-center gap-2">
                       <img src={review.pfp} className="w-8 h-8 rounded-full" alt="" />
                       <button
-                        onClick={() => onViewProfile?.(review.fid ?? null, review.userId ?? undefined)}
+                        onClick={() => review.userId && onViewProfile?.(review.userId)}
                         className="font-medium text-white hover:text-gray-300 transition-colors"
                       >
                         @{review.user}
                       </button>
                     </div>
                     <div className="flex items-center gap-2">
-                      <span className="font-bold text-white">{review.rating}/5</span>
-                      <span className="text-xs text-gray-500">{review.daysAgo}d ago</span>
+                      <span className="text-sm text-gray-400" aria-hidden="true">{ratingStars(review.rating)}</span>
+                      <span className="font-bold text-white">{formatRating(review.rating)}/5</span>
+                      <span className="text-xs text-gray-500">
+                        {review.daysAgo}d ago{review.editedAt ? ' • edited' : ''}
+                      </span>
                     </div>
                   </div>
                   <P className="text-sm text-gray-300">{review.text}</P>
                   {review.favoriteTrack && (
-                    <P className="text-xs mt-2 text-gray-500">// Favorite: {review.favoriteTrack}</P>
+                    <P className="text-xs mt-2 text-gray-500">
+                      // Favorite: {trackTitle(review.favoriteTrackId, review.favoriteTrack)}
+                    </P>
                   )}
                 </div>
               ))}
@@ -259,7 +340,8 @@ export function AlbumDetailView({
       <ShareButton
         variant="secondary"
         className="w-full"
-        text={`"${album.title}" by ${album.artist} - rated ${album.avgRating ?? '-'}/5 by our community! ${album.totalReviews ?? 0} reviews on Playgroup.`}
+        path={album.id ? `/album/${album.id}` : undefined}
+        text={`"${album.title}" by ${album.artist} - rated ${formatRating(album.avgRating)}/5 by our community! ${album.totalReviews ?? 0} reviews on Playgroup.`}
         queryParams={{
           shareType: 'review',
           albumTitle: album.title,
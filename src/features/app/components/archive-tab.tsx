@@ -1,34 +1,85 @@
 'use client';
 
-import { useState } from 'react';
-import { Card, CardContent, H3, P, Skeleton } from '@neynar/ui';
+import { useState, useEffect } from 'react';
+import { Card, CardContent, H3, P, Button, Skeleton } from '@neynar/ui';
 import { ShareButton } from '@/neynar-farcaster-sdk/mini';
-import { useAuth } from '@/hooks/use-auth';
-import { usePastAlbums } from '@/hooks/use-cycle';
+import { usePastAlbums, useArchiveYears, type ArchiveAlbumData } from '@/hooks/use-cycle';
 import { useReviews } from '@/hooks/use-reviews';
 import { AlbumDetailView } from './album-detail-view';
+import { formatRating, ratingStars } from '@/lib/ratings';
+import { canPerform } from '@/lib/cycle-phase';
 
 interface ArchiveTabProps {
-  onViewProfile?: (fid: number | null, userId?: string) => void;
+  groupId: string | null;
+  onViewProfile?: (userId: string) => void;
 }
 
-export function ArchiveTab({ onViewProfile }: ArchiveTabProps) {
+/**
+ * One year's "52" grid, filled in cycle order
+ * `albums` are that year's winners, newest first (as the archive lists them)
+ */
+function JourneyGrid({
+  year,
+  albums,
+  onSelect,
+}: {
+  year: number;
+  albums: ArchiveAlbumData[];
+  onSelect: (albumId: string) => void;
+}) {
+  const inOrder = [...albums].reverse();
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <P className="text-center text-sm font-medium text-white mb-3">{year} Journey</P>
+        <div className="flex flex-wrap gap-1 justify-center">
+          {Array.from({ length: 52 }).map((_, i) => (
+            <div
+              key={i}
+              className={`w-4 h-4 rounded-sm cursor-pointer transition-transform hover:scale-110 ${
+                i < inOrder.length ? 'bg-white' : 'bg-gray-800'
+              }`}
+              onClick={() => inOrder[i] && onSelect(inOrder[i].id)}
+              title={inOrder[i]?.title ?? `Album ${i + 1}`}
+            />
+          ))}
+        </div>
+        <P className="text-xs text-center mt-3 text-gray-500">
+          {inOrder.length} down • {Math.max(0, 52 - inOrder.length)} to go
+        </P>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ArchiveTab({ groupId, onViewProfile }: ArchiveTabProps) {
   const [selectedAlbumId, setSelectedAlbumId] = useState<string | null>(null);
 
-  // Unified auth - supports both Farcaster and Privy users
-  const { user } = useAuth();
+  // Years with winners; the newest is shown until the user picks another
+  const { years, isLoading: yearsLoading, refresh: refreshYears } = useArchiveYears(groupId);
+  const [yearChoice, setYearChoice] = useState<number | 'all' | null>(null);
+  const year = yearChoice ?? years[0]?.year ?? new Date().getFullYear();
+  const isAllTime = year === 'all';
+
+  // Another group has its own years
+  useEffect(() => {
+    setYearChoice(null);
+  }, [groupId]);
 
-  // Get past albums from database
-  const { albums, isLoading } = usePastAlbums(new Date().getFullYear());
+  // Get past albums from database (waits for the year list so the right year loads first)
+  const { albums, isLoading, refresh: refreshAlbums } = usePastAlbums(
+    yearsLoading ? null : groupId,
+    isAllTime ? undefined : year
+  );
 
   // Get reviews for selected album
-  const { reviews } = useReviews(selectedAlbumId);
+  const { reviews, refresh: refreshReviews } = useReviews(selectedAlbumId);
 
-  const albumsThisYear = albums.length;
-  const albumsRemaining = 52 - albumsThisYear;
+  const albumCount = albums.length;
   const totalReviews = albums.reduce((sum, a) => sum + (a.totalReviews ?? 0), 0);
-  const avgRating = albumsThisYear > 0
-    ? (albums.reduce((sum, a) => sum + (a.avgRating ?? 0), 0) / albumsThisYear).toFixed(1)
+  const avgRating = albumCount > 0
+    ? (albums.reduce((sum, a) => sum + (a.avgRating ?? 0), 0) / albumCount).toFixed(1)
     : '0';
 
   // Find selected album
@@ -59,20 +110,25 @@ export function ArchiveTab({ onViewProfile }: ArchiveTabProps) {
           avgRating: selectedAlbum.avgRating,
           totalReviews: selectedAlbum.totalReviews,
           mostLovedTrack: selectedAlbum.mostLovedTrack,
+          mostLovedTrackId: selectedAlbum.mostLovedTrackId,
           mostLovedTrackVotes: selectedAlbum.mostLovedTrackVotes,
+          trackStats: selectedAlbum.trackStats,
           weekNumber: selectedAlbum.weekNumber,
           submittedBy: selectedAlbum.submittedByUsername,
           submissionNote: selectedAlbum.submissionNote ?? null,
+          streamingLinks: selectedAlbum.streamingLinks,
         }}
         reviews={reviews}
         tracks={selectedAlbum.tracks ?? []}
         onBack={() => setSelectedAlbumId(null)}
-        canReview={true}
-        userFid={user?.fid ?? null}
-        userId={user?.id ?? null}
-        username={user?.username}
-        pfpUrl={user?.pfpUrl}
+        canReview={canPerform(selectedAlbum.cyclePhase, 'review')}
+        canEditReview={canPerform(selectedAlbum.cyclePhase, 'editReview')}
         onViewProfile={onViewProfile}
+        onReviewsChanged={() => {
+          refreshReviews();
+          refreshAlbums();
+          refreshYears();
+        }}
       />
     );
   }
@@ -88,34 +144,45 @@ export function ArchiveTab({ onViewProfile }: ArchiveTabProps) {
         </CardContent>
       </Card>
 
-      {/* Visual Progress */}
-      <Card>
-        <CardContent className="p-4">
-          <P className="text-center text-sm font-medium text-white mb-3">{new Date().getFullYear()} Journey</P>
-          <div className="flex flex-wrap gap-1 justify-center">
-            {Array.from({ length: 52 }).map((_, i) => (
-              <div
-                key={i}
-                className={`w-4 h-4 rounded-sm cursor-pointer transition-transform hover:scale-110 ${
-                  i < albumsThisYear ? 'bg-white' : 'bg-gray-800'
-                }`}
-                onClick={() => i < albumsThisYear && setSelectedAlbumId(albums[i]?.id ?? null)}
-                title={i < albumsThisYear ? albums[i]?.title : `Week ${i + 1}`}
-              />
-            ))}
-          </div>
-          <P className="text-xs text-center mt-3 text-gray-500">
-            {albumsThisYear} down • {albumsRemaining} to go
-          </P>
-        </CardContent>
-      </Card>
+      {/* Year picker */}
+      {years.length > 0 && (
+        <div className="flex flex-wrap gap-2 justify-center">
+          {years.map((y) => (
+            <Button
+              key={y.year}
+              size="sm"
+              variant={year === y.year ? 'default' : 'outline'}
+              onClick={() => setYearChoice(y.year)}
+            >
+              {y.year}
+            </Button>
+          ))}
+          <Button size="sm" variant={isAllTime ? 'default' : 'outline'} onClick={() => setYearChoice('all')}>
+            All time
+          </Button>
+        </div>
+      )}
+
+      {/* Visual Progress — one grid per year in the all-time view */}
+      {isAllTime ? (
+        years.map((y) => (
+          <JourneyGrid
+            key={y.year}
+            year={y.year}
+            albums={albums.filter((a) => a.year === y.year)}
+            onSelect={setSelectedAlbumId}
+          />
+        ))
+      ) : (
+        <JourneyGrid year={year} albums={albums} onSelect={setSelectedAlbumId} />
+      )}
 
       {/* Stats */}
       <div className="grid grid-cols-3 gap-2">
         <Card>
           <CardContent className="p-3">
             <div className="text-center">
-              <P className="text-2xl font-bold text-white">{albumsThisYear}</P>
+              <P className="text-2xl font-bold text-white">{albumCount}</P>
               <P className="text-xs text-gray-500">Albums</P>
             </div>
           </CardContent>
@@ -155,7 +222,9 @@ export function ArchiveTab({ onViewProfile }: ArchiveTabProps) {
             <Card key={album.id}>
               <CardContent className="p-3">
                 <div className="flex items-center gap-3 cursor-pointer" onClick={() => setSelectedAlbumId(album.id)}>
-                  <div className="text-xs font-bold text-gray-600 w-8">W{album.weekNumber}</div>
+                  <div className="text-xs font-bold text-gray-600 w-8">
+                    {isAllTime && <span className="block">{album.year}</span>}W{album.weekNumber}
+                  </div>
                   {album.coverUrl ? (
                     <img
                       src={album.coverUrl}
@@ -168,9 +237,17 @@ export function ArchiveTab({ onViewProfile }: ArchiveTabProps) {
                   <div className="flex-1">
                     <P className="font-medium text-white">{album.title}</P>
                     <P className="text-sm text-gray-400">{album.artist}</P>
+                    {album.editionOf && (
+                      <P className="text-xs text-gray-600">
+                        Edition of {album.editionOf.year} Week {album.editionOf.weekNumber}&apos;s album
+                      </P>
+                    )}
                   </div>
                   <div className="text-right">
-                    <P className="font-bold text-lg text-white">{album.avgRating ?? '-'}</P>
+                    <P className="font-bold text-lg text-white">{formatRating(album.avgRating)}</P>
+                    {album.avgRating !== null && (
+                      <P className="text-xs text-gray-400">{ratingStars(album.avgRating)}</P>
+                    )}
                     <P className="text-xs text-gray-500">{album.totalReviews ?? 0} reviews</P>
                   </div>
                 </div>
@@ -180,21 +257,23 @@ export function ArchiveTab({ onViewProfile }: ArchiveTabProps) {
         )}
       </div>
 
-      {/* Share */}
-      <ShareButton
-        variant="secondary"
-        className="w-full"
-        text={`Our Playgroup ${new Date().getFullYear()} journey: ${albumsThisYear}/52 albums discovered, ${totalReviews} reviews written, ${avgRating}/5 avg rating! Join us in exploring great music together.`}
-        queryParams={{
-          shareType: 'journey',
-          year: new Date().getFullYear().toString(),
-          albumsCompleted: albumsThisYear.toString(),
-          totalReviews: totalReviews.toString(),
-          avgRating: avgRating,
-        }}
-      >
-        Share Our Journey
-      </ShareButton>
+      {/* Share — a year's journey */}
+      {!isAllTime && (
+        <ShareButton
+          variant="secondary"
+          className="w-full"
+          text={`Our Playgroup ${year} journey: ${albumCount}/52 albums discovered, ${totalReviews} reviews written, ${avgRating}/5 avg rating! Join us in exploring great music together.`}
+          queryParams={{
+            shareType: 'journey',
+            year: year.toString(),
+            albumsCompleted: albumCount.toString(),
+            totalReviews: totalReviews.toString(),
+            avgRating: avgRating,
+          }}
+        >
+          Share Our Journey
+        </ShareButton>
+      )}
     </div>
   );
 }
@@ -6,12 +6,20 @@ interface CycleStatusBannerProps {
   phase: CyclePhase;
   countdown: Countdown;
   reviewOpensAt?: Date | null;
-  isReviewOpen?: boolean;
 }
 
-export function CycleStatusBanner({ phase, countdown, reviewOpensAt, isReviewOpen }: CycleStatusBannerProps) {
+export function CycleStatusBanner({ phase, countdown, reviewOpensAt }: CycleStatusBannerProps) {
   const countdownText = `${countdown.days}d ${countdown.hours}h ${countdown.minutes}m`;
 
+  if (phase === 'upcoming') {
+    return (
+      <div className="bg-gray-900 border border-gray-700 rounded-lg p-3 text-center">
+        <p className="font-bold text-white">NEW CYCLE SOON</p>
+        <p className="text-sm text-gray-400">Voting opens in {countdownText}</p>
+      </div>
+    );
+  }
+
   if (phase === 'voting') {
     return (
       <div className="bg-gray-900 border border-red-500/30 rounded-lg p-3 text-center">
@@ -21,8 +29,7 @@ export function CycleStatusBanner({ phase, countdown, reviewOpensAt, isReviewOpe
     );
   }
 
-  // Listening phase + review window open
-  if (isReviewOpen) {
+  if (phase === 'reviewing') {
     return (
       <div className="bg-gray-900 border border-red-500/30 rounded-lg p-3 text-center">
         <p className="font-bold text-red-500">REVIEW OPEN</p>
@@ -31,6 +38,15 @@ export function CycleStatusBanner({ phase, countdown, reviewOpensAt, isReviewOpe
     );
   }
 
+  if (phase === 'closed') {
+    return (
+      <div className="bg-gray-900 border border-gray-700 rounded-lg p-3 text-center">
+        <p className="font-bold text-white">CYCLE CLOSED</p>
+        <p className="text-sm text-gray-400">Next cycle starting soon</p>
+      </div>
+    );
+  }
+
   // Listening phase — reviews not yet open
   let reviewCountdownText = '';
   if (reviewOpensAt) {
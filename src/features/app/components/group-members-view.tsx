@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, H3, H4, P, Button, Skeleton } from '@neynar/ui';
+import { publicConfig } from '@/config/public-config';
+import { useManageGroup, type GroupData, type GroupRole } from '@/hooks/use-groups';
+
+interface GroupMembersViewProps {
+  group: GroupData;
+  onBack: () => void;
+}
+
+const EXPIRY_OPTIONS = [1, 7, 30];
+const MAX_USES_OPTIONS = [1, 5, 25];
+
+/**
+ * Member list for a group, with invite links for owners and moderators
+ * and role changes for owners
+ */
+export function GroupMembersView({ group, onBack }: GroupMembersViewProps) {
+  const { members, invite, changeRole, isLoading, isSaving, error } = useManageGroup(group.id);
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [maxUses, setMaxUses] = useState<number | null>(null);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const canInvite = group.role === 'owner' || group.role === 'moderator';
+  const canChangeRoles = group.role === 'owner';
+
+  const handleCreateInvite = async () => {
+    const code = await invite({ expiresInDays, maxUses });
+    if (!code) return;
+
+    setInviteUrl(`${publicConfig.homeUrl}?invite=${code}`);
+    setCopied(false);
+  };
+
+  const handleCopy = async () => {
+    if (!inviteUrl) return;
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+      setCopied(true);
+    } catch {
+      // Clipboard blocked in this frame — the link is still shown to copy by hand
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {canInvite && (
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <H3>Invite to {group.name}</H3>
+            <div className="flex gap-2">
+              <select
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                aria-label="Link expires after"
+                className="flex-1 p-2 rounded border bg-gray-900 border-gray-700 text-white text-sm"
+              >
+                {EXPIRY_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    Expires in {days} {days === 1 ? 'day' : 'days'}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={maxUses ?? ''}
+                onChange={(e) => setMaxUses(e.target.value ? Number(e.target.value) : null)}
+                aria-label="Number of uses"
+                className="flex-1 p-2 rounded border bg-gray-900 border-gray-700 text-white text-sm"
+              >
+                <option value="">Unlimited uses</option>
+                {MAX_USES_OPTIONS.map((uses) => (
+                  <option key={uses} value={uses}>
+                    {uses} {uses === 1 ? 'use' : 'uses'}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button className="w-full" onClick={handleCreateInvite} disabled={isSaving}>
+              {isSaving ? 'Creating...' : 'Create invite link'}
+            </Button>
+
+            {inviteUrl && (
+              <div className="space-y-2">
+                <P className="text-xs text-gray-300 break-all bg-gray-900 rounded p-2">{inviteUrl}</P>
+                <Button variant="outline" size="sm" onClick={handleCopy}>
+                  {copied ? 'Copied!' : 'Copy link'}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <H3>Members</H3>
+
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-8 w-full" />
+              <Skeleton className="h-8 w-full" />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {members.map((member) => (
+                <div key={member.userId} className="flex items-center gap-3">
+                  <H4 className="flex-1 truncate text-sm">@{member.username}</H4>
+                  {canChangeRoles ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => changeRole(member.userId, e.target.value as GroupRole)}
+                      disabled={isSaving}
+                      aria-label={`Role for ${member.username}`}
+                      className="p-1 rounded border bg-gray-900 border-gray-700 text-white text-xs"
+                    >
+                      <option value="owner">Owner</option>
+                      <option value="moderator">Moderator</option>
+                      <option value="member">Member</option>
+                    </select>
+                  ) : (
+                    <P className="text-xs text-gray-500 capitalize">{member.role}</P>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && <P className="text-sm text-red-500">{error}</P>}
+        </CardContent>
+      </Card>
+
+      <Button variant="outline" onClick={onBack}>
+        ← Back
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { H3 } from '@neynar/ui';
+import type { GroupData } from '@/hooks/use-groups';
+
+interface GroupSwitcherProps {
+  groups: GroupData[];
+  selectedGroup: GroupData | null;
+  onSelect: (slug: string) => void;
+  onJoin: () => void;
+  onManage: () => void;
+}
+
+// Menu entries that open a screen instead of switching group
+const JOIN_OPTION = '__join__';
+const MANAGE_OPTION = '__manage__';
+
+/**
+ * Header title that doubles as the group picker, with entries to join a
+ * private group and, for owners and moderators, to manage the current one
+ */
+export function GroupSwitcher({ groups, selectedGroup, onSelect, onJoin, onManage }: GroupSwitcherProps) {
+  if (!selectedGroup) {
+    return <H3 className="text-white text-center">Playgroup</H3>;
+  }
+
+  const canManage = selectedGroup.role === 'owner' || selectedGroup.role === 'moderator';
+
+  const handleChange = (value: string) => {
+    if (value === JOIN_OPTION) onJoin();
+    else if (value === MANAGE_OPTION) onManage();
+    else onSelect(value);
+  };
+
+  return (
+    <select
+      value={selectedGroup.slug}
+      onChange={(e) => handleChange(e.target.value)}
+      aria-label="Switch group"
+      className="bg-transparent text-white text-lg font-semibold text-center border-none focus:outline-none cursor-pointer max-w-[60vw] truncate"
+    >
+      {groups.map((group) => (
+        <option key={group.id} value={group.slug} className="bg-gray-900 text-base">
+          {group.visibility === 'invite' ? `🔒 ${group.name}` : group.name}
+        </option>
+      ))}
+      {canManage && (
+        <option value={MANAGE_OPTION} className="bg-gray-900 text-base">
+          Members & invites…
+        </option>
+      )}
+      <option value={JOIN_OPTION} className="bg-gray-900 text-base">
+        Join with invite code…
+      </option>
+    </select>
+  );
+}
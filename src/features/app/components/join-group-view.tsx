@@ -0,0 +1,78 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, H3, P, Button, Input } from '@neynar/ui';
+import { useAuth } from '@/hooks/use-auth';
+import { useJoinGroup } from '@/hooks/use-groups';
+
+interface JoinGroupViewProps {
+  initialCode: string | null; // from an invite link, if the app was opened with one
+  onJoined: (slug: string) => void;
+  onBack: () => void;
+}
+
+/**
+ * Join screen for invite-only groups — shows who the invite is for and redeems it
+ */
+export function JoinGroupView({ initialCode, onJoined, onBack }: JoinGroupViewProps) {
+  const { isAuthenticated, login } = useAuth();
+  const [draft, setDraft] = useState(initialCode ?? '');
+  const [code, setCode] = useState<string | null>(initialCode);
+  const { invite, join, isLoading, isJoining, error } = useJoinGroup(code);
+
+  const handleJoin = async () => {
+    const slug = await join();
+    if (slug) onJoined(slug);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <H3>Join a group</H3>
+          <P className="text-sm text-gray-400">
+            Private groups are invite-only. Paste the code from your invite link.
+          </P>
+          <div className="flex gap-2">
+            <Input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Invite code"
+              aria-label="Invite code"
+            />
+            <Button variant="outline" onClick={() => setCode(draft.trim() || null)} disabled={!draft.trim()}>
+              Look up
+            </Button>
+          </div>
+
+          {isLoading && <P className="text-sm text-gray-500">Checking invite...</P>}
+
+          {invite && !isLoading && (
+            <div className="space-y-2 pt-2 border-t border-gray-800">
+              <P className="text-sm text-gray-300">
+                You&apos;re invited to <span className="font-bold text-white">{invite.groupName}</span>
+              </P>
+              {invite.error ? (
+                <P className="text-sm text-red-500">{invite.error}</P>
+              ) : isAuthenticated ? (
+                <Button className="w-full" onClick={handleJoin} disabled={isJoining}>
+                  {isJoining ? 'Joining...' : `Join ${invite.groupName}`}
+                </Button>
+              ) : (
+                <Button className="w-full" variant="outline" onClick={login}>
+                  Sign in to join
+                </Button>
+              )}
+            </div>
+          )}
+
+          {error && <P className="text-sm text-red-500">{error}</P>}
+        </CardContent>
+      </Card>
+
+      <Button variant="outline" onClick={onBack}>
+        ← Back
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { Button } from '@neynar/ui';
+import { usePreferredStreamingService } from '@/hooks/use-streaming';
+import {
+  STREAMING_SERVICES,
+  STREAMING_SERVICE_LABELS,
+  isStreamingService,
+  type StreamingLinks,
+} from '@/lib/streaming-services';
+
+interface ListenOnPickerProps {
+  spotifyUrl: string | null; // null for albums not on Spotify
+  streamingLinks?: StreamingLinks | null;
+  className?: string;
+}
+
+/**
+ * "Play on …" button for the member's preferred service, with a "Listen on…"
+ * menu of the other services the album was found on. Picking one opens it
+ * and makes it the preferred service from then on.
+ */
+export function ListenOnPicker({ spotifyUrl, streamingLinks, className }: ListenOnPickerProps) {
+  const { service: preferred, choose } = usePreferredStreamingService();
+
+  const links: StreamingLinks = { ...streamingLinks };
+  if (spotifyUrl && !links.spotify) links.spotify = spotifyUrl;
+  const available = STREAMING_SERVICES.filter((service) => links[service]);
+
+  // Albums not found on the preferred service fall back to Spotify, then to
+  // wherever the album was linked from
+  const primary = preferred && links[preferred] ? preferred : links.spotify ? 'spotify' : available[0];
+  if (!primary) return null;
+
+  const others = available.filter((service) => service !== primary);
+
+  const handleChange = (value: string) => {
+    if (!isStreamingService(value) || !links[value]) return;
+    window.open(links[value], '_blank');
+    choose(value);
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className ?? ''}`}>
+      <Button
+        onClick={() => {
+          window.open(links[primary], '_blank');
+        }}
+      >
+        PLAY ON {STREAMING_SERVICE_LABELS[primary].toUpperCase()}
+      </Button>
+      {others.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => handleChange(e.target.value)}
+          aria-label="Listen on another service"
+          className="p-2 rounded border bg-gray-900 border-gray-700 text-white text-sm"
+        >
+          <option value="" disabled>
+            Listen on…
+          </option>
+          {others.map((service) => (
+            <option key={service} value={service}>
+              {STREAMING_SERVICE_LABELS[service]}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
@@ -3,15 +3,17 @@
 import { useState } from 'react';
 import { Card, CardContent, H2, P, Button, Skeleton } from '@neynar/ui';
 import { ShareButton } from '@/neynar-farcaster-sdk/mini';
-import { useAuth } from '@/hooks/use-auth';
 import { useCycle, useCurrentAlbum } from '@/hooks/use-cycle';
 import { useReviews } from '@/hooks/use-reviews';
+import { canPerform } from '@/lib/cycle-phase';
 import { CycleStatusBanner } from './cycle-status-banner';
 import { HowItWorks } from './how-it-works';
 import { AlbumDetailView } from './album-detail-view';
+import { ListenOnPicker } from '@/features/app/components/listen-on-picker';
 
 interface NowPlayingTabProps {
-  onViewProfile?: (fid: number | null, userId?: string) => void;
+  groupId: string | null;
+  onViewProfile?: (userId: string) => void;
 }
 
 function GenrePills({ genres }: { genres: string[] }) {
@@ -27,18 +29,17 @@ function GenrePills({ genres }: { genres: string[] }) {
   );
 }
 
-export function NowPlayingTab({ onViewProfile }: NowPlayingTabProps) {
+export function NowPlayingTab({ groupId, onViewProfile }: NowPlayingTabProps) {
   const [view, setView] = useState<'main' | 'detail'>('main');
 
-  // Unified auth - supports both Farcaster and Privy users
-  const { user } = useAuth();
-
   // Real data hooks
-  const { cycle, isLoading: cycleLoading } = useCycle();
-  const { album: currentAlbum, isLoading: albumLoading } = useCurrentAlbum(cycle?.id ?? null);
-  const { reviews } = useReviews(currentAlbum?.id ?? null);
+  const { cycle, isLoading: cycleLoading } = useCycle(groupId);
+  const { album: currentAlbum, isLoading: albumLoading, refresh: refreshAlbum } = useCurrentAlbum(cycle?.id ?? null);
+  const { reviews, refresh: refreshReviews } = useReviews(currentAlbum?.id ?? null);
 
   const phase = cycle?.phase ?? 'voting';
+  // The album is "now playing" from the end of voting until the cycle closes
+  const isListening = phase === 'listening' || phase === 'reviewing';
   const countdown = cycle?.countdown ?? { days: 0, hours: 0, minutes: 0 };
 
   const isLoading = cycleLoading || albumLoading;
@@ -56,21 +57,25 @@ export function NowPlayingTab({ onViewProfile }: NowPlayingTabProps) {
           avgRating: currentAlbum.avgRating,
           totalReviews: currentAlbum.totalReviews,
           mostLovedTrack: currentAlbum.mostLovedTrack,
+          mostLovedTrackId: currentAlbum.mostLovedTrackId,
           mostLovedTrackVotes: currentAlbum.mostLovedTrackVotes,
+          trackStats: currentAlbum.trackStats,
           weekNumber: cycle?.weekNumber ?? currentAlbum.weekNumber,
           submittedBy: currentAlbum.submittedByUsername,
           genres: currentAlbum.genres,
           submissionNote: currentAlbum.submissionNote ?? null,
+          streamingLinks: currentAlbum.streamingLinks,
         }}
         reviews={reviews}
         tracks={currentAlbum.tracks ?? []}
         onBack={() => setView('main')}
-        canReview={phase === 'listening' && (cycle?.isReviewOpen ?? false)}
-        userFid={user?.fid ?? null}
-        userId={user?.id ?? null}
-        username={user?.username}
-        pfpUrl={user?.pfpUrl}
+        canReview={canPerform(phase, 'review')}
+        canEditReview={canPerform(phase, 'editReview')}
         onViewProfile={onViewProfile}
+        onReviewsChanged={() => {
+          refreshReviews();
+          refreshAlbum();
+        }}
       />
     );
   }
@@ -93,14 +98,13 @@ export function NowPlayingTab({ onViewProfile }: NowPlayingTabProps) {
           phase={phase}
           countdown={countdown}
           reviewOpensAt={cycle?.reviewOpensAt ?? null}
-          isReviewOpen={cycle?.isReviewOpen ?? false}
         />
         <HowItWorks />
         <Card>
           <CardContent className="p-6">
             <div className="flex flex-col items-center text-center space-y-4">
               <P className="text-xs uppercase tracking-widest text-gray-500">
-                {phase === 'voting' ? 'Voting in Progress' : 'Waiting for Winner'}
+                {isListening ? 'Waiting for Winner' : 'Voting in Progress'}
               </P>
               <div
                 className="w-44 h-44 rounded-lg shadow-xl flex items-center justify-center bg-gray-800 border border-gray-700"
@@ -110,9 +114,9 @@ export function NowPlayingTab({ onViewProfile }: NowPlayingTabProps) {
               <div>
                 <H2>No Album Yet</H2>
                 <P className="text-gray-400">
-                  {phase === 'voting'
-                    ? 'Vote for your favorite to decide our next listen!'
-                    : 'The winning album will appear here soon.'}
+                  {isListening
+                    ? 'The winning album will appear here soon.'
+                    : 'Vote for your favorite to decide our next listen!'}
                 </P>
               </div>
             </div>
@@ -129,7 +133,6 @@ export function NowPlayingTab({ onViewProfile }: NowPlayingTabProps) {
         phase={phase}
         countdown={countdown}
         reviewOpensAt={cycle?.reviewOpensAt ?? null}
-        isReviewOpen={cycle?.isReviewOpen ?? false}
       />
 
       {/* How It Works - for new users */}
@@ -140,7 +143,7 @@ export function NowPlayingTab({ onViewProfile }: NowPlayingTabProps) {
         <CardContent className="p-6">
           <div className="flex flex-col items-center text-center space-y-4">
             <P className="text-xs uppercase tracking-widest text-gray-500">
-              {phase === 'listening' ? 'Now Listening' : "Last Week's Winner"}
+              {isListening ? 'Now Listening' : "Last Week's Winner"}
             </P>
             <P className="text-xs text-gray-600">
               Week {cycle?.weekNumber ?? currentAlbum.weekNumber} of 26
@@ -165,7 +168,7 @@ export function NowPlayingTab({ onViewProfile }: NowPlayingTabProps) {
               <P className="text-xs text-gray-600 mt-1">
                 submitted by{' '}
                 <button
-                  onClick={() => onViewProfile?.(currentAlbum.submittedByFid, currentAlbum.submittedByUserId ?? undefined)}
+                  onClick={() => currentAlbum.submittedByUserId && onViewProfile?.(currentAlbum.submittedByUserId)}
                   className="text-gray-400 hover:text-white transition-colors"
                 >
                   @{currentAlbum.submittedByUsername}
@@ -173,7 +176,7 @@ export function NowPlayingTab({ onViewProfile }: NowPlayingTabProps) {
               </P>
             </div>
 
-            {phase === 'listening' && (
+            {isListening && (
               <div className="flex gap-4 text-sm">
                 <div className="text-center">
                   <P className="font-bold text-lg text-white">{currentAlbum.totalReviews ?? 0}</P>
@@ -182,21 +185,15 @@ export function NowPlayingTab({ onViewProfile }: NowPlayingTabProps) {
               </div>
             )}
 
-            <div className="flex gap-2">
-              <Button
-                onClick={() => {
-                  window.open(currentAlbum.spotifyUrl, '_blank');
-                }}
-              >
-                PLAY ON SPOTIFY
-              </Button>
+            <div className="flex flex-wrap gap-2">
+              <ListenOnPicker spotifyUrl={currentAlbum.spotifyUrl} streamingLinks={currentAlbum.streamingLinks} />
               <Button variant="outline" onClick={() => setView('detail')}>
                 See Reviews
               </Button>
             </div>
 
-            {/* Spotify embed player — shown during listening phase */}
-            {phase === 'listening' && currentAlbum.spotifyId && (
+            {/* Spotify embed player — shown while listening and reviewing */}
+            {isListening && currentAlbum.spotifyId && (
               <div className="w-full">
                 <iframe
                   src={`https://open.spotify.com/embed/album/${currentAlbum.spotifyId}?utm_source=generator&theme=0`}
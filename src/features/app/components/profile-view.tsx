@@ -3,23 +3,26 @@
 import { useState, useRef } from 'react';
 import { Card, CardContent, H2, H3, H4, P, Button } from '@neynar/ui';
 import { useAuth } from '@/hooks/use-auth';
-import { useProfile, useUserInfo } from '@/hooks/use-profile';
+import { useProfile, useUserInfo, type ProfileData, type UserInfo } from '@/hooks/use-profile';
+import { publicConfig } from '@/config/public-config';
 import { updateUserProfile } from '@/db/actions/user-actions';
+import { WrappedView } from '@/features/app/components/wrapped-view';
 
 interface ProfileViewProps {
-  fid?: number | null;      // Farcaster users
-  userId?: string | null;   // Privy users (no FID)
+  userId: string;
+  groupId?: string | null;
   onBack: () => void;
   onViewAlbum?: (albumId: string) => void;
+  // Server-rendered /u/[username] pages pass what they loaded
+  initial?: { profile: ProfileData; userInfo: UserInfo };
 }
 
-export function ProfileView({ fid, userId, onBack, onViewAlbum }: ProfileViewProps) {
+export function ProfileView({ userId, groupId = null, onBack, onViewAlbum, initial }: ProfileViewProps) {
   // Unified auth - supports both Farcaster and Privy users
-  const { user: currentUser, logout } = useAuth();
+  const { user: currentUser, logout, getAuthToken } = useAuth();
 
-  // Load profile data — useProfile handles fid vs userId routing
-  const { profile, isLoading, error } = useProfile(fid ?? null, userId ?? null);
-  const { userInfo } = useUserInfo(fid ?? null, userId ?? null);
+  const { profile, isLoading, error } = useProfile(userId, initial?.profile);
+  const { userInfo } = useUserInfo(userId, initial?.userInfo);
 
   // Edit state
   const [isEditing, setIsEditing] = useState(false);
@@ -30,19 +33,23 @@ export function ProfileView({ fid, userId, onBack, onViewAlbum }: ProfileViewPro
   const [isUploading, setIsUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Year-end recap for the current group
+  const [showWrapped, setShowWrapped] = useState(false);
+
+  const [linkCopied, setLinkCopied] = useState(false);
+  const wrappedYear = new Date().getFullYear();
+
   // Check if this is the current user's own profile
-  const isOwnProfile =
-    (currentUser?.fid != null && fid != null && currentUser.fid === fid) ||
-    (currentUser?.id != null && userId != null && currentUser.id === userId);
+  const isOwnProfile = currentUser?.id === userId;
 
   // Display info — prefer current user's live data for own profile
   const displayName = isOwnProfile
     ? currentUser?.username
-    : userInfo?.username ?? (fid ? `User ${fid}` : 'User');
+    : userInfo?.username ?? 'User';
 
   const displayPfp: string = isOwnProfile
-    ? (currentUser?.pfpUrl ?? `https://api.dicebear.com/9.x/lorelei/svg?seed=${fid ?? userId}`)
-    : (userInfo?.pfp ?? `https://api.dicebear.com/9.x/lorelei/svg?seed=${fid ?? userId}`);
+    ? (currentUser?.pfpUrl ?? `https://api.dicebear.com/9.x/lorelei/svg?seed=${userId}`)
+    : (userInfo?.pfp ?? `https://api.dicebear.com/9.x/lorelei/svg?seed=${userId}`);
 
   const handleStartEdit = () => {
     setEditUsername(displayName ?? '');
@@ -67,11 +74,17 @@ export function ProfileView({ fid, userId, onBack, onViewAlbum }: ProfileViewPro
       const compressed = await compressImage(file);
       setEditPfpUrl(URL.createObjectURL(compressed)); // instant local preview
 
+      const authToken = await getAuthToken();
+      if (!authToken) throw new Error('Please sign in again');
+
       const formData = new FormData();
       formData.append('file', compressed, 'avatar.jpg');
-      formData.append('userId', currentUser.id);
 
-      const res = await fetch('/api/upload/profile-picture', { method: 'POST', body: formData });
+      const res = await fetch('/api/upload/profile-picture', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${authToken}` },
+        body: formData,
+      });
       if (!res.ok) {
         const { error } = await res.json();
         throw new Error(error ?? 'Upload failed');
@@ -92,7 +105,13 @@ export function ProfileView({ fid, userId, onBack, onViewAlbum }: ProfileViewPro
     setIsSaving(true);
     setEditError(null);
     try {
-      const result = await updateUserProfile(currentUser.id, {
+      const authToken = await getAuthToken();
+      if (!authToken) {
+        setEditError('Please sign in again to save changes.');
+        setIsSaving(false);
+        return;
+      }
+      const result = await updateUserProfile(authToken, {
         username: editUsername.trim() || undefined,
         pfpUrl: editPfpUrl.trim() || undefined,
       });
@@ -113,7 +132,29 @@ export function ProfileView({ fid, userId, onBack, onViewAlbum }: ProfileViewPro
     onBack();
   };
 
-  if (isLoading) {
+  if (showWrapped) {
+    return (
+      <WrappedView
+        groupId={groupId}
+        userId={userId}
+        year={wrappedYear}
+        onBack={() => setShowWrapped(false)}
+      />
+    );
+  }
+
+  const handleCopyLink = async () => {
+    if (!displayName) return;
+    try {
+      await navigator.clipboard.writeText(`${publicConfig.homeUrl}/u/${encodeURIComponent(displayName)}`);
+      setLinkCopied(true);
+    } catch {
+      // Clipboard blocked in this frame
+    }
+  };
+
+  // A server-rendered profile stays on screen while it refreshes
+  if (isLoading && !profile) {
     return (
       <div className="space-y-4">
         <Button variant="outline" onClick={onBack}>
@@ -166,11 +207,11 @@ export function ProfileView({ fid, userId, onBack, onViewAlbum }: ProfileViewPro
                   className="relative w-16 h-16 rounded-full border-2 border-dashed border-gray-600 hover:border-gray-400 overflow-hidden flex-shrink-0 transition-colors disabled:opacity-50"
                 >
                   <img
-                    src={editPfpUrl || `https://api.dicebear.com/9.x/lorelei/svg?seed=${fid ?? userId}`}
+                    src={editPfpUrl || `https://api.dicebear.com/9.x/lorelei/svg?seed=${userId}`}
                     alt="preview"
                     className="w-full h-full object-cover"
                     onError={(e) => {
-                      (e.target as HTMLImageElement).src = `https://api.dicebear.com/9.x/lorelei/svg?seed=${fid ?? userId}`;
+                      (e.target as HTMLImageElement).src = `https://api.dicebear.com/9.x/lorelei/svg?seed=${userId}`;
                     }}
                   />
                   <div className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 hover:opacity-100 transition-opacity">
@@ -237,21 +278,26 @@ export function ProfileView({ fid, userId, onBack, onViewAlbum }: ProfileViewPro
                 {!profile?.memberSince && (
                   <P className="text-sm text-gray-500">New member</P>
                 )}
-                {isOwnProfile && (
-                  <div className="flex items-center gap-2 mt-3">
-                    <Button variant="outline" size="sm" onClick={handleStartEdit}>
-                      Edit profile
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="text-red-500 border-red-500/30 hover:bg-red-500/10"
-                      onClick={handleSignOut}
-                    >
-                      Sign out
-                    </Button>
-                  </div>
-                )}
+                <div className="flex flex-wrap items-center gap-2 mt-3">
+                  {isOwnProfile && (
+                    <>
+                      <Button variant="outline" size="sm" onClick={handleStartEdit}>
+                        Edit profile
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-500 border-red-500/30 hover:bg-red-500/10"
+                        onClick={handleSignOut}
+                      >
+                        Sign out
+                      </Button>
+                    </>
+                  )}
+                  <Button variant="outline" size="sm" onClick={handleCopyLink}>
+                    {linkCopied ? 'Copied!' : 'Copy profile link'}
+                  </Button>
+                </div>
               </div>
             </div>
           )}
@@ -297,6 +343,13 @@ export function ProfileView({ fid, userId, onBack, onViewAlbum }: ProfileViewPro
         </CardContent>
       </Card>
 
+      {/* Wrapped */}
+      {groupId && (
+        <Button variant="secondary" className="w-full" onClick={() => setShowWrapped(true)}>
+          {isOwnProfile ? 'Your' : `@${displayName}'s`} {wrappedYear} Wrapped
+        </Button>
+      )}
+
       {/* Submissions */}
       <Card>
         <CardContent className="p-4">
@@ -2,18 +2,20 @@
 
 import { useState } from 'react';
 import { Card, CardContent, H4, P, Button, Textarea } from '@neynar/ui';
-import { useSubmitReview } from '@/hooks/use-reviews';
+import { useSubmitReview, useManageReview, type OwnReview } from '@/hooks/use-reviews';
+import { formatTrackDuration, type AlbumTrack } from '@/lib/album-tracks';
+import { RATING_STEP, formatRating } from '@/lib/ratings';
+import { TRACK_REACTIONS, TRACK_REACTION_LABELS, type TrackRatings, type TrackReaction } from '@/lib/track-ratings';
 
 interface ReviewFormProps {
   albumId: string;
   albumTitle: string;
-  tracks: string[];
+  tracks: AlbumTrack[];
   onClose: () => void;
-  // User info passed from parent (from useAuth)
-  userFid?: number;
-  userId?: string;
-  username: string;
-  pfpUrl: string | null;
+  // Editing: the user's existing review, prefilled and saved with updateReview
+  existingReview?: OwnReview | null;
+  // Called after the review is submitted, edited or deleted
+  onSaved?: () => void;
 }
 
 export function ReviewForm({
@@ -21,18 +23,36 @@ export function ReviewForm({
   albumTitle,
   tracks,
   onClose,
-  userFid,
-  userId,
-  username,
-  pfpUrl,
+  existingReview,
+  onSaved,
 }: ReviewFormProps) {
-  const [rating, setRating] = useState(0);
-  const [text, setText] = useState('');
-  const [favoriteTrack, setFavoriteTrack] = useState('');
-  const [hasListened, setHasListened] = useState(false);
+  const [rating, setRating] = useState(existingReview?.rating ?? 0);
+  const [text, setText] = useState(existingReview?.text ?? '');
+  // Favorites are picked by track id; reviews from before track ids only have the title
+  const [favoriteTrackId, setFavoriteTrackId] = useState(
+    existingReview?.favoriteTrackId ??
+      tracks.find((track) => track.title === existingReview?.favoriteTrack)?.id ??
+      ''
+  );
+  const [trackRatings, setTrackRatings] = useState<TrackRatings>(existingReview?.trackRatings ?? {});
+  const [showTrackRatings, setShowTrackRatings] = useState(Object.keys(existingReview?.trackRatings ?? {}).length > 0);
+  const [hasListened, setHasListened] = useState(existingReview?.hasListened ?? false);
   const [localError, setLocalError] = useState<string | null>(null);
-
-  const { submit, isSubmitting, error: submitError } = useSubmitReview();
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const { submit, isSubmitting: isCreating, error: createError } = useSubmitReview();
+  const { update, remove, isSaving, error: manageError } = useManageReview();
+  const isEditing = !!existingReview;
+  const isSubmitting = isCreating || isSaving;
+  const submitError = isEditing ? manageError : createError;
+
+  // Picking a track's current reaction again clears it
+  const toggleTrackRating = (trackId: string, reaction: TrackReaction) => {
+    setTrackRatings((prev) => {
+      const { [trackId]: current, ...rest } = prev;
+      return current === reaction ? rest : { ...rest, [trackId]: reaction };
+    });
+  };
 
   const minChars = 50;
   const charCount = text.length;
@@ -47,38 +67,56 @@ export function ReviewForm({
       setLocalError(`Review must be at least ${minChars} characters`);
       return;
     }
-    if (!userFid && !userId) {
-      setLocalError('Please sign in to submit a review');
-      return;
-    }
-
     setLocalError(null);
 
-    const result = await submit({
-      albumId,
-      fid: userFid,
-      userId,
-      username: username || 'anon',
-      pfp: pfpUrl || null,
+    const data = {
       rating,
       text,
-      favoriteTrack: favoriteTrack || null,
+      favoriteTrackId: favoriteTrackId || null,
+      trackRatings,
       hasListened,
-    });
+    };
+
+    if (existingReview) {
+      const success = await update(existingReview.id, data);
+      if (success) {
+        onSaved?.();
+        onClose();
+      }
+      return;
+    }
+
+    const result = await submit({ albumId, ...data });
 
     if (result.success) {
+      onSaved?.();
       onClose();
     } else {
       setLocalError(submitError || 'Failed to submit review');
     }
   };
 
+  const handleDelete = async () => {
+    if (!existingReview) return;
+    if (!confirmDelete) {
+      setConfirmDelete(true);
+      return;
+    }
+    const success = await remove(existingReview.id);
+    if (success) {
+      onSaved?.();
+      onClose();
+    } else {
+      setConfirmDelete(false);
+    }
+  };
+
   const error = localError || submitError;
 
   return (
     <Card>
       <CardContent className="p-4">
-        <H4>Review: {albumTitle}</H4>
+        <H4>{isEditing ? 'Edit your review' : 'Review'}: {albumTitle}</H4>
         <div className="space-y-4 mt-3">
           {/* Listened checkbox */}
           <label className="flex items-center gap-2 cursor-pointer">
@@ -94,22 +132,31 @@ export function ReviewForm({
           {/* Rating */}
           <div>
             <P className="text-sm text-gray-400 mb-2">Your Rating</P>
-            <div className="flex gap-2">
-              {[1, 2, 3, 4, 5].map((n) => (
-                <button
-                  key={n}
-                  onClick={() => setRating(n)}
-                  className={`w-10 h-10 rounded-lg text-lg font-medium transition-colors ${
-                    n <= rating
-                      ? 'bg-white text-black border-2 border-white'
-                      : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
-                  }`}
-                >
-                  {n}
-                </button>
-              ))}
+            {/* Each star is two buttons: its left half rates n - 0.5, its right half n */}
+            <div className="flex gap-1">
+              {[1, 2, 3, 4, 5].map((n) => {
+                const fill = rating >= n ? '100%' : rating >= n - RATING_STEP ? '50%' : '0%';
+                return (
+                  <div key={n} className="relative w-10 h-10 text-4xl leading-10 text-center select-none">
+                    <span className="text-gray-700">★</span>
+                    <span className="absolute inset-y-0 left-0 overflow-hidden text-white" style={{ width: fill }}>
+                      <span className="block w-10">★</span>
+                    </span>
+                    <button
+                      onClick={() => setRating(n - RATING_STEP)}
+                      aria-label={`${n - RATING_STEP} stars`}
+                      className="absolute inset-y-0 left-0 w-1/2"
+                    />
+                    <button
+                      onClick={() => setRating(n)}
+                      aria-label={`${n} stars`}
+                      className="absolute inset-y-0 right-0 w-1/2"
+                    />
+                  </div>
+                );
+              })}
             </div>
-            {rating > 0 && <P className="text-sm mt-1 text-gray-500">{rating}/5</P>}
+            {rating > 0 && <P className="text-sm mt-1 text-gray-500">{formatRating(rating)}/5</P>}
           </div>
 
           {/* Review text */}
@@ -130,19 +177,54 @@ export function ReviewForm({
           <div>
             <P className="text-sm text-gray-400 mb-2">Favorite Track (optional)</P>
             <select
-              value={favoriteTrack}
-              onChange={(e) => setFavoriteTrack(e.target.value)}
+              value={favoriteTrackId}
+              onChange={(e) => setFavoriteTrackId(e.target.value)}
               className="w-full p-2 rounded border bg-gray-900 border-gray-700 text-white text-sm"
             >
               <option value="">Select a track...</option>
               {tracks.map((track) => (
-                <option key={track} value={track}>
-                  {track}
+                <option key={track.id} value={track.id}>
+                  {track.title}
+                  {track.durationMs !== null ? ` (${formatTrackDuration(track.durationMs)})` : ''}
                 </option>
               ))}
             </select>
           </div>
 
+          {/* Track ratings */}
+          {tracks.length > 0 && (
+            <div>
+              <button
+                onClick={() => setShowTrackRatings(!showTrackRatings)}
+                className="text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                {showTrackRatings ? '▼' : '▶'} Rate the tracks (optional)
+              </button>
+              {showTrackRatings && (
+                <div className="space-y-1 mt-2">
+                  {tracks.map((track) => (
+                    <div key={track.id} className="flex items-center gap-2">
+                      <span className="flex-1 text-sm text-white truncate">{track.title}</span>
+                      {TRACK_REACTIONS.map((reaction) => (
+                        <button
+                          key={reaction}
+                          onClick={() => toggleTrackRating(track.id, reaction)}
+                          className={`px-2 py-1 rounded text-xs transition-colors ${
+                            trackRatings[track.id] === reaction
+                              ? 'bg-white text-black'
+                              : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                          }`}
+                        >
+                          {TRACK_REACTION_LABELS[reaction]}
+                        </button>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {error && <P className="text-red-500 text-sm">{error}</P>}
 
           <div className="flex gap-2">
@@ -150,11 +232,21 @@ export function ReviewForm({
               onClick={handleSubmit}
               disabled={isSubmitting || rating === 0 || charCount < minChars}
             >
-              {isSubmitting ? 'Submitting...' : 'Submit Review'}
+              {isSubmitting ? (isEditing ? 'Saving...' : 'Submitting...') : isEditing ? 'Save Changes' : 'Submit Review'}
             </Button>
             <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
               Cancel
             </Button>
+            {isEditing && (
+              <Button
+                variant="outline"
+                className="ml-auto text-red-500 border-red-500/30 hover:bg-red-500/10"
+                onClick={handleDelete}
+                disabled={isSubmitting}
+              >
+                {confirmDelete ? 'Confirm delete' : 'Delete'}
+              </Button>
+            )}
           </div>
         </div>
       </CardContent>
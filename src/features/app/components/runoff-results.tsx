@@ -0,0 +1,75 @@
+'use client';
+
+import { Card, CardContent, H3, P } from '@neynar/ui';
+import type { RunoffResult } from '@/lib/instant-runoff';
+
+interface RunoffResultsProps {
+  result: RunoffResult;
+}
+
+/**
+ * Round-by-round instant-runoff tallies for a ranked-choice cycle
+ */
+export function RunoffResults({ result }: RunoffResultsProps) {
+  const byId = new Map(result.candidates.map((c) => [c.id, c]));
+  const winner = result.winnerId ? byId.get(result.winnerId) : null;
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="text-center space-y-1">
+          <H3>How the Vote Went</H3>
+          <P className="text-xs text-gray-500">
+            {result.totalBallots} ranked {result.totalBallots === 1 ? 'ballot' : 'ballots'} •{' '}
+            {result.rounds.length} {result.rounds.length === 1 ? 'round' : 'rounds'}
+          </P>
+        </div>
+
+        {result.rounds.map((round) => {
+          const counting = Object.values(round.tallies).reduce((sum, n) => sum + n, 0);
+          const rows = Object.entries(round.tallies).sort(([, a], [, b]) => b - a);
+
+          return (
+            <div key={round.round} className="space-y-1">
+              <P className="text-xs uppercase tracking-widest text-gray-500">Round {round.round}</P>
+              {rows.map(([id, count]) => {
+                const candidate = byId.get(id);
+                const isOut = id === round.eliminated;
+                const isWinner = round.eliminated === null && id === result.winnerId;
+                const share = counting > 0 ? Math.round((count / counting) * 100) : 0;
+
+                return (
+                  <div key={id} className="space-y-0.5">
+                    <div className="flex justify-between gap-2 text-xs">
+                      <span className={isOut ? 'text-gray-600 line-through truncate' : 'text-gray-300 truncate'}>
+                        {candidate?.title ?? 'Unknown album'}
+                      </span>
+                      <span className={isWinner ? 'text-red-500 font-bold' : 'text-gray-400'}>
+                        {count} ({share}%)
+                      </span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-gray-800">
+                      <div
+                        className={`h-1.5 rounded-full ${isWinner ? 'bg-red-500' : isOut ? 'bg-gray-700' : 'bg-gray-500'}`}
+                        style={{ width: `${share}%` }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+              {round.exhausted > 0 && (
+                <P className="text-xs text-gray-600">{round.exhausted} ballots had no choices left</P>
+              )}
+            </div>
+          );
+        })}
+
+        {winner && (
+          <P className="text-sm text-center text-gray-300">
+            <span className="font-bold text-white">{winner.title}</span> by {winner.artist} wins
+          </P>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
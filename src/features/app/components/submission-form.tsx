@@ -1,26 +1,21 @@
 'use client';
 
 import { useState } from 'react';
+import Image from 'next/image';
 import { Card, CardContent, H4, P, Button, Input, Skeleton } from '@neynar/ui';
 import { useSubmitAlbum } from '@/hooks/use-submissions';
+import { parseAlbumUrl } from '@/lib/album-urls';
+import { STREAMING_SERVICE_LABELS } from '@/lib/streaming-services';
+import { albumRuntimeMs, formatRuntime } from '@/lib/album-tracks';
+import type { AlbumCandidate, AlbumSearchPage } from '@/lib/spotify';
+import type { LinkedAlbum } from '@/lib/album-links';
 
 interface SubmissionFormProps {
   onClose: () => void;
   cycleId: string | null;
-  userFid?: number; // Legacy - Farcaster users
-  userId?: string; // New - unified user ID
-  username: string;
 }
 
-interface AlbumData {
-  spotifyId: string;
-  title: string;
-  artist: string;
-  coverUrl: string;
-  spotifyUrl: string;
-  tracks: string[];
-  genres: string[];
-}
+type AlbumData = LinkedAlbum;
 
 function GenrePills({ genres }: { genres: string[] }) {
   if (!genres.length) return null;
@@ -38,66 +33,67 @@ function GenrePills({ genres }: { genres: string[] }) {
 export function SubmissionForm({
   onClose,
   cycleId,
-  userFid,
-  userId,
-  username,
 }: SubmissionFormProps) {
-  const [step, setStep] = useState<'input' | 'loading' | 'preview' | 'success'>('input');
+  const [step, setStep] = useState<'input' | 'loading' | 'choose' | 'preview' | 'success'>('input');
   const [query, setQuery] = useState('');
   const [albumData, setAlbumData] = useState<AlbumData | null>(null);
+  // Search hits to pick an edition from; full metadata is fetched for the chosen one
+  const [candidates, setCandidates] = useState<AlbumCandidate[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [submissionNote, setSubmissionNote] = useState('');
   const NOTE_LIMIT = 280;
 
   const { submit, isSubmitting, error: submitError } = useSubmitAlbum();
 
-  const isSpotifyUrl = (input: string) =>
-    input.includes('spotify.com/album') || input.includes('spotify:album:');
+  // Full metadata (tracks, genres) for an album link on any supported service,
+  // matched to Spotify where Spotify has it
+  const fetchAlbum = async (url: string, backTo: 'input' | 'choose') => {
+    setStep('loading');
+
+    const res = await fetch(`/api/album-link?url=${encodeURIComponent(url)}`);
+    if (res.ok) {
+      setAlbumData(await res.json());
+      setStep('preview');
+    } else {
+      setError(
+        res.status === 404
+          ? 'Album not found — check the link and try again'
+          : 'Could not fetch album — check the link and try again'
+      );
+      setStep(backTo);
+    }
+  };
 
   const handleFind = async () => {
     const trimmed = query.trim();
     if (!trimmed) {
-      setError('Please enter a Spotify link or album name');
+      setError('Please enter an album link or album name');
       return;
     }
 
     setError(null);
-    setStep('loading');
 
     try {
-      let data: AlbumData | null = null;
-
-      if (isSpotifyUrl(trimmed)) {
-        const res = await fetch(`/api/spotify/album?url=${encodeURIComponent(trimmed)}`);
-        if (res.ok) {
-          data = await res.json();
-        } else if (res.status === 404) {
-          setError('Album not found on Spotify — check the link and try again');
-          setStep('input');
-          return;
-        } else {
-          setError('Could not fetch album — check the link and try again');
-          setStep('input');
-          return;
-        }
-      } else {
-        const res = await fetch(`/api/spotify/search?q=${encodeURIComponent(trimmed)}`);
-        if (res.ok) {
-          data = await res.json();
-        } else if (res.status === 404) {
-          setError('No album found — try a different search');
-          setStep('input');
-          return;
-        } else {
-          setError('Search failed — try again');
-          setStep('input');
-          return;
-        }
+      if (parseAlbumUrl(trimmed)) {
+        await fetchAlbum(trimmed, 'input');
+        return;
       }
 
-      if (data) {
-        setAlbumData(data);
-        setStep('preview');
+      setStep('loading');
+      const res = await fetch(`/api/spotify/search?q=${encodeURIComponent(trimmed)}`);
+      if (res.ok) {
+        const page: AlbumSearchPage = await res.json();
+        setCandidates(page.items);
+        setHasMore(page.hasMore);
+        setStep('choose');
+      } else if (res.status === 404) {
+        setError('No album found — try a different search');
+        setStep('input');
+      } else {
+        setError('Search failed — try again');
+        setStep('input');
       }
     } catch {
       setError('Something went wrong — try again');
@@ -105,6 +101,32 @@ export function SubmissionForm({
     }
   };
 
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    try {
+      const res = await fetch(
+        `/api/spotify/search?q=${encodeURIComponent(query.trim())}&offset=${candidates.length}`
+      );
+      if (res.ok) {
+        const page: AlbumSearchPage = await res.json();
+        setCandidates((prev) => [...prev, ...page.items]);
+        setHasMore(page.hasMore);
+      }
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleChoose = async (candidate: AlbumCandidate) => {
+    setError(null);
+    try {
+      await fetchAlbum(candidate.spotifyUrl, 'choose');
+    } catch {
+      setError('Something went wrong — try again');
+      setStep('choose');
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && query.trim()) {
       handleFind();
@@ -120,11 +142,6 @@ export function SubmissionForm({
       setError('No active voting cycle — check back when voting opens');
       return;
     }
-    if (!userFid && !userId) {
-      setError('Please sign in to submit albums');
-      return;
-    }
-
     setError(null);
 
     const result = await submit({
@@ -133,12 +150,13 @@ export function SubmissionForm({
       artist: albumData.artist,
       coverUrl: albumData.coverUrl,
       spotifyUrl: albumData.spotifyUrl,
+      sourceUrl: albumData.source !== 'spotify' ? albumData.sourceUrl : undefined,
       tracks: albumData.tracks,
       genres: albumData.genres,
+      releaseDate: albumData.releaseDate,
+      upc: albumData.upc,
+      isrcs: albumData.isrcs,
       cycleId,
-      fid: userFid,
-      userId,
-      username,
       submissionNote: submissionNote.trim() || undefined,
     });
 
@@ -148,7 +166,7 @@ export function SubmissionForm({
         onClose();
       }, 1500);
     } else {
-      setError(submitError || 'Failed to submit album');
+      setError(result.error || submitError || 'Failed to submit album');
     }
   };
 
@@ -186,7 +204,64 @@ export function SubmissionForm({
     );
   }
 
+  if (step === 'choose') {
+    return (
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <H4>Which one?</H4>
+          <P className="text-xs text-gray-500">Pick the edition you mean — originals, remasters and deluxes are listed separately</P>
+
+          <div className="space-y-2">
+            {candidates.map((candidate) => (
+              <div
+                key={candidate.spotifyId}
+                className="flex items-center gap-3 p-2 bg-gray-900 rounded-lg cursor-pointer hover:bg-gray-800 transition-colors"
+                onClick={() => handleChoose(candidate)}
+              >
+                {candidate.coverUrl ? (
+                  <Image
+                    src={candidate.coverUrl}
+                    alt={candidate.title}
+                    width={48}
+                    height={48}
+                    className="w-12 h-12 rounded flex-shrink-0 object-cover"
+                  />
+                ) : (
+                  <div className="w-12 h-12 rounded flex-shrink-0 bg-gray-800" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <P className="font-medium text-white truncate">{candidate.title}</P>
+                  <P className="text-sm text-gray-400 truncate">{candidate.artist}</P>
+                  <P className="text-xs text-gray-600">
+                    {[candidate.year, `${candidate.totalTracks} ${candidate.totalTracks === 1 ? 'track' : 'tracks'}`]
+                      .filter(Boolean)
+                      .join(' • ')}
+                  </P>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {error && <P className="text-red-500 text-sm">{error}</P>}
+
+          <div className="flex gap-2">
+            {hasMore && (
+              <Button variant="outline" onClick={handleLoadMore} disabled={isLoadingMore}>
+                {isLoadingMore ? 'Loading...' : 'More results'}
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => { setCandidates([]); setStep('input'); }}>
+              New search
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (step === 'preview' && albumData) {
+    const runtimeMs = albumRuntimeMs(albumData.tracks);
+
     return (
       <Card>
         <CardContent className="p-4 space-y-4">
@@ -210,7 +285,18 @@ export function SubmissionForm({
               <P className="text-gray-400">{albumData.artist}</P>
               <GenrePills genres={albumData.genres} />
               {albumData.tracks.length > 0 && (
-                <P className="text-xs text-gray-600 mt-1">{albumData.tracks.length} tracks</P>
+                <P className="text-xs text-gray-600 mt-1">
+                  {[`${albumData.tracks.length} tracks`, runtimeMs !== null ? formatRuntime(runtimeMs) : null]
+                    .filter(Boolean)
+                    .join(' • ')}
+                </P>
+              )}
+              {albumData.source !== 'spotify' && (
+                <P className="text-xs text-gray-600 mt-1">
+                  {albumData.spotifyId
+                    ? `Matched on Spotify from your ${STREAMING_SERVICE_LABELS[albumData.source]} link`
+                    : `Not on Spotify — submitting from ${STREAMING_SERVICE_LABELS[albumData.source]}`}
+                </P>
               )}
             </div>
           </div>
@@ -248,7 +334,15 @@ export function SubmissionForm({
             </Button>
             <Button
               variant="outline"
-              onClick={() => { setQuery(''); setAlbumData(null); setStep('input'); }}
+              onClick={() => {
+                setAlbumData(null);
+                if (candidates.length > 0) {
+                  setStep('choose');
+                } else {
+                  setQuery('');
+                  setStep('input');
+                }
+              }}
               disabled={isSubmitting}
             >
               Wrong album?
@@ -268,14 +362,14 @@ export function SubmissionForm({
             value={query}
             onChange={(e) => setQuery(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="Paste Spotify link or search artist + album"
+            placeholder="Paste an album link or search artist + album"
             autoFocus
           />
 
           {error && <P className="text-red-500 text-sm">{error}</P>}
 
           <div className="text-xs text-gray-500 space-y-0.5">
-            <P>Drop a Spotify album link, or type artist + album name</P>
+            <P>Drop an album link from Spotify, Apple Music, YouTube Music, Deezer, Tidal or Bandcamp, or type artist + album name</P>
           </div>
 
           <div className="flex gap-2">
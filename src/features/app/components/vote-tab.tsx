@@ -4,11 +4,23 @@ import { useState } from 'react';
 import { Card, CardContent, H3, P, Button, Skeleton } from '@neynar/ui';
 import { useAuth } from '@/hooks/use-auth';
 import { useCycle } from '@/hooks/use-cycle';
-import { useSubmissions, useVote } from '@/hooks/use-submissions';
+import {
+  useSubmissions,
+  useUserSubmissionCount,
+  useVote,
+  useAllocateVotes,
+  useBallot,
+  useSubmitBallot,
+  useManageSubmission,
+  type SubmissionData,
+} from '@/hooks/use-submissions';
+import { canPerform } from '@/lib/cycle-phase';
 import { SubmissionForm } from './submission-form';
+import { RunoffResults } from '@/features/app/components/runoff-results';
 
 interface VoteTabProps {
-  onViewProfile?: (fid: number | null, userId?: string) => void;
+  groupId: string | null;
+  onViewProfile?: (userId: string) => void;
 }
 
 function GenrePills({ genres }: { genres: string[] }) {
@@ -50,7 +62,99 @@ function NoteCallout({ note }: { note: string | null }) {
   );
 }
 
-export function VoteTab({ onViewProfile }: VoteTabProps) {
+const NOTE_LIMIT = 280;
+
+/**
+ * Submitter-only controls while voting is open: edit the note or withdraw the album
+ */
+function OwnSubmissionControls({ album, onChanged }: { album: SubmissionData; onChanged: () => void }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isConfirmingWithdraw, setIsConfirmingWithdraw] = useState(false);
+  const [noteDraft, setNoteDraft] = useState(album.submissionNote ?? '');
+  const { updateNote, withdraw, isSaving, error } = useManageSubmission();
+
+  const handleSaveNote = async () => {
+    if (await updateNote(album.id, noteDraft)) {
+      setIsEditing(false);
+      onChanged();
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (await withdraw(album.id)) {
+      onChanged();
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <div className="mt-2 space-y-1">
+        <textarea
+          value={noteDraft}
+          onChange={(e) => {
+            if (e.target.value.length <= NOTE_LIMIT) setNoteDraft(e.target.value);
+          }}
+          placeholder="Why should the group listen to this?"
+          rows={3}
+          className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-600 resize-none focus:outline-none focus:border-gray-500 transition-colors"
+        />
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={handleSaveNote} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setIsEditing(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <P className="text-xs text-gray-600 tabular-nums ml-auto">{noteDraft.length}/{NOTE_LIMIT}</P>
+        </div>
+        {error && <P className="text-xs text-red-500">{error}</P>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-1 space-y-1">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => {
+            setNoteDraft(album.submissionNote ?? '');
+            setIsEditing(true);
+          }}
+          className="text-xs text-gray-600 hover:text-gray-400 transition-colors"
+        >
+          edit note
+        </button>
+        {isConfirmingWithdraw ? (
+          <>
+            <button
+              onClick={handleWithdraw}
+              disabled={isSaving}
+              className="text-xs text-red-500 hover:text-red-400 transition-colors"
+            >
+              {isSaving ? 'withdrawing...' : 'confirm withdraw (votes are voided)'}
+            </button>
+            <button
+              onClick={() => setIsConfirmingWithdraw(false)}
+              className="text-xs text-gray-600 hover:text-gray-400 transition-colors"
+            >
+              keep
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => setIsConfirmingWithdraw(true)}
+            className="text-xs text-gray-600 hover:text-gray-400 transition-colors"
+          >
+            withdraw
+          </button>
+        )}
+      </div>
+      {error && <P className="text-xs text-red-500">{error}</P>}
+    </div>
+  );
+}
+
+export function VoteTab({ groupId, onViewProfile }: VoteTabProps) {
   const [showSubmitForm, setShowSubmitForm] = useState(false);
   const [expandedPreview, setExpandedPreview] = useState<string | null>(null);
 
@@ -58,37 +162,92 @@ export function VoteTab({ onViewProfile }: VoteTabProps) {
   const { user, isAuthenticated, login } = useAuth();
   const userFid = user?.fid ?? undefined;
   const userId = user?.id ?? undefined;
-  const username = user?.username ?? 'anon';
 
   // Get cycle state
-  const { cycle, isLoading: cycleLoading } = useCycle();
+  const { cycle, isLoading: cycleLoading } = useCycle(groupId);
 
-  // Get submissions with vote status - pass both FID and userId
+  // Get submissions with the signed-in user's vote status
   const { submissions, isLoading: submissionsLoading, refresh: refreshSubmissions } = useSubmissions(
-    cycle?.id ?? null,
-    userFid,
-    userId
+    cycle?.id ?? null
   );
 
+  // Submission cap — enforced by submitAlbum, shown here so members know before they search
+  const { count: mySubmissionCount, refresh: refreshSubmissionCount } = useUserSubmissionCount(cycle?.id ?? null);
+  const maxSubmissions = cycle?.maxSubmissions ?? 3;
+  const atSubmissionCap = mySubmissionCount >= maxSubmissions;
+
   // Voting hook
-  const { vote, isVoting } = useVote();
+  const { toggleVote, optimisticVotes, error: voteError } = useVote(refreshSubmissions);
+
+  // Ranked-choice mode: the saved ballot plus an unsaved draft while reordering
+  const isRanked = cycle?.votingMode === 'ranked';
+  const maxChoices = cycle?.maxRankedChoices ?? 3;
+  const { ballot, ballotCount, refresh: refreshBallot } = useBallot(isRanked ? cycle?.id ?? null : null, userId);
+  const { submit: saveBallot, isSubmitting: isSavingBallot, error: ballotError } = useSubmitBallot();
+  const [draftBallot, setDraftBallot] = useState<string[] | null>(null);
+  const ranking = draftBallot ?? ballot;
+
+  // Quadratic mode: n votes on one album cost n² of the member's credits
+  const isQuadratic = cycle?.votingMode === 'quadratic';
+  const voteCredits = cycle?.voteCredits ?? 0;
+  const { allocate, isAllocating, error: allocateError } = useAllocateVotes();
 
   const phase = cycle?.phase ?? 'voting';
   const daysLeftInPhase = cycle?.countdown?.days ?? 0;
   const hoursLeft = cycle?.countdown?.hours ?? 0;
   const minutesLeft = cycle?.countdown?.minutes ?? 0;
 
-  const canVote = phase === 'voting';
+  const canVote = canPerform(phase, 'vote');
   const totalVotes = submissions.reduce((sum, s) => sum + s.votes, 0);
+  const creditsLeft = voteCredits - submissions.reduce((sum, s) => sum + s.myVotes * s.myVotes, 0);
+
+  // Optimistic vote state wins over the last fetched state while a toggle is in flight
+  const hasVotedFor = (album: SubmissionData) => optimisticVotes[album.id] ?? album.hasVoted;
+  const shownVotes = (album: SubmissionData) =>
+    album.votes + (hasVotedFor(album) === album.hasVoted ? 0 : hasVotedFor(album) ? 1 : -1);
+  // The submitter's auto-vote can't be taken back (they withdraw the album instead)
+  const isOwnAlbum = (album: SubmissionData) =>
+    (!!userId && album.submitterUserId === userId) || (!!userFid && album.submitterFid === userFid);
+
+  const handleSubmissionChanged = () => {
+    refreshSubmissions();
+    refreshSubmissionCount();
+    if (isRanked) {
+      setDraftBallot(null);
+      refreshBallot();
+    }
+  };
+
+  const handleVote = (album: SubmissionData) => {
+    if (!isAuthenticated || optimisticVotes[album.id] !== undefined) return;
+    toggleVote(album.id, album.hasVoted);
+  };
 
-  const handleVote = async (id: string) => {
-    if (!isAuthenticated || isVoting) return;
-    const success = await vote(id, userFid, userId);
+  const handleAllocate = async (albumId: string, weight: number) => {
+    if (!isAuthenticated || isAllocating) return;
+    const success = await allocate(albumId, weight);
     if (success) {
       refreshSubmissions();
     }
   };
 
+  const toggleRank = (albumId: string) => {
+    if (ranking.includes(albumId)) {
+      setDraftBallot(ranking.filter((id) => id !== albumId));
+    } else if (ranking.length < maxChoices) {
+      setDraftBallot([...ranking, albumId]);
+    }
+  };
+
+  const handleSaveBallot = async () => {
+    if (!cycle || !draftBallot || isSavingBallot) return;
+    const success = await saveBallot(cycle.id, draftBallot);
+    if (success) {
+      setDraftBallot(null);
+      refreshBallot();
+    }
+  };
+
   const togglePreview = (albumId: string) => {
     setExpandedPreview((prev) => (prev === albumId ? null : albumId));
   };
@@ -112,11 +271,9 @@ export function VoteTab({ onViewProfile }: VoteTabProps) {
           onClose={() => {
             setShowSubmitForm(false);
             refreshSubmissions();
+            refreshSubmissionCount();
           }}
           cycleId={cycle?.id ?? null}
-          userFid={userFid}
-          userId={userId}
-          username={username}
         />
       </div>
     );
@@ -135,8 +292,18 @@ export function VoteTab({ onViewProfile }: VoteTabProps) {
                   {daysLeftInPhase}d {hoursLeft}h {minutesLeft}m
                 </P>
                 <P className="text-xs text-gray-500">
-                  {submissions.length} albums • {totalVotes} total votes
+                  {isRanked
+                    ? `${submissions.length} albums • ${ballotCount} ballots • rank up to ${maxChoices}`
+                    : `${submissions.length} albums • ${totalVotes} total votes`}
                 </P>
+                {isQuadratic && isAuthenticated && (
+                  <P className="text-sm font-medium text-white">
+                    {creditsLeft} of {voteCredits} credits left
+                    <span className="block text-xs font-normal text-gray-500">n votes on one album cost n² credits</span>
+                  </P>
+                )}
+                {isQuadratic && allocateError && <P className="text-xs text-red-500">{allocateError}</P>}
+                {voteError && <P className="text-xs text-red-500">{voteError}</P>}
               </>
             ) : (
               <P className="text-sm text-gray-400">Voting opens Monday • See current standings</P>
@@ -147,9 +314,16 @@ export function VoteTab({ onViewProfile }: VoteTabProps) {
 
       {/* Submit Button */}
       {canVote && isAuthenticated && (
-        <Button className="w-full" onClick={() => setShowSubmitForm(true)}>
-          + Submit an Album
-        </Button>
+        <div className="space-y-1">
+          <Button className="w-full" onClick={() => setShowSubmitForm(true)} disabled={atSubmissionCap}>
+            + Submit an Album
+          </Button>
+          <P className="text-xs text-center text-gray-500">
+            {atSubmissionCap
+              ? `You've submitted ${maxSubmissions} of ${maxSubmissions} — withdraw one to submit another`
+              : `${mySubmissionCount} of ${maxSubmissions} submissions used`}
+          </P>
+        </div>
       )}
       {canVote && !isAuthenticated && (
         <div className="text-center py-2">
@@ -183,7 +357,7 @@ export function VoteTab({ onViewProfile }: VoteTabProps) {
               <Card key={album.id}>
                 <CardContent className="p-3">
                   <div className="flex items-center gap-3">
-                    <div className="text-lg font-bold text-gray-600 w-6">#{index + 1}</div>
+                    {!isRanked && <div className="text-lg font-bold text-gray-600 w-6">#{index + 1}</div>}
                     {'coverUrl' in album && album.coverUrl ? (
                       <img
                         src={album.coverUrl}
@@ -204,7 +378,7 @@ export function VoteTab({ onViewProfile }: VoteTabProps) {
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
-                              onViewProfile?.(album.submitterFid, album.submitterUserId ?? undefined);
+                              if (album.submitterUserId) onViewProfile?.(album.submitterUserId);
                             }}
                             className="text-gray-400 hover:text-white transition-colors"
                           >
@@ -222,16 +396,49 @@ export function VoteTab({ onViewProfile }: VoteTabProps) {
                         )}
                       </div>
                       <NoteCallout note={album.submissionNote ?? null} />
+                      {canVote && isOwnAlbum(album) && (
+                        <OwnSubmissionControls album={album} onChanged={handleSubmissionChanged} />
+                      )}
                     </div>
                     <div className="flex flex-col items-center gap-1">
-                      {canVote && isAuthenticated ? (
+                      {isQuadratic && canVote && isAuthenticated ? (
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleAllocate(album.id, album.myVotes - 1)}
+                            disabled={album.myVotes === 0 || isAllocating}
+                          >
+                            −
+                          </Button>
+                          <span className="w-5 text-center text-sm text-red-500 font-bold">{album.myVotes}</span>
+                          <Button
+                            size="sm"
+                            onClick={() => handleAllocate(album.id, album.myVotes + 1)}
+                            disabled={isAllocating || 2 * album.myVotes + 1 > creditsLeft}
+                          >
+                            +
+                          </Button>
+                        </div>
+                      ) : isRanked && canVote && isAuthenticated ? (
                         <Button
-                          variant={album.hasVoted ? 'secondary' : 'default'}
+                          variant={ranking.includes(album.id) ? 'default' : 'outline'}
                           size="sm"
-                          onClick={() => !album.hasVoted && handleVote(String(album.id))}
-                          disabled={album.hasVoted || isVoting}
+                          onClick={() => toggleRank(album.id)}
+                          disabled={
+                            isSavingBallot || (!ranking.includes(album.id) && ranking.length >= maxChoices)
+                          }
                         >
-                          {album.hasVoted ? 'VOTED' : '+'}
+                          {ranking.includes(album.id) ? `#${ranking.indexOf(album.id) + 1}` : 'RANK'}
+                        </Button>
+                      ) : canVote && isAuthenticated ? (
+                        <Button
+                          variant={hasVotedFor(album) ? 'secondary' : 'default'}
+                          size="sm"
+                          onClick={() => handleVote(album)}
+                          disabled={isOwnAlbum(album) || optimisticVotes[album.id] !== undefined}
+                        >
+                          {hasVotedFor(album) ? 'VOTED' : '+'}
                         </Button>
                       ) : canVote ? (
                         <Button
@@ -246,7 +453,7 @@ export function VoteTab({ onViewProfile }: VoteTabProps) {
                           +
                         </div>
                       )}
-                      <span className="text-sm font-medium text-white">{album.votes}</span>
+                      {!isRanked && <span className="text-sm font-medium text-white">{shownVotes(album)}</span>}
                     </div>
                   </div>
 
@@ -269,6 +476,19 @@ export function VoteTab({ onViewProfile }: VoteTabProps) {
         </div>
       )}
 
+      {/* Ranked ballot — save once the order changes */}
+      {isRanked && canVote && isAuthenticated && draftBallot !== null && (
+        <div className="space-y-2">
+          <Button className="w-full" onClick={handleSaveBallot} disabled={isSavingBallot || draftBallot.length === 0}>
+            {isSavingBallot ? 'Saving...' : ballot.length > 0 ? 'Update Ballot' : 'Cast Ballot'}
+          </Button>
+          {ballotError && <P className="text-sm text-red-500 text-center">{ballotError}</P>}
+        </div>
+      )}
+
+      {/* Instant-runoff rounds once a ranked vote has closed */}
+      {!canVote && cycle?.runoffResult && <RunoffResults result={cycle.runoffResult} />}
+
       {!canVote && (
         <div className="text-center py-2">
           <P className="text-sm text-gray-500">Voting opens Monday</P>
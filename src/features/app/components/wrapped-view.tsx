@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, H2, P, Button, Skeleton } from '@neynar/ui';
+import { ShareButton } from '@/neynar-farcaster-sdk/mini';
+import { useWrapped, type WrappedData } from '@/hooks/use-profile';
+
+interface WrappedViewProps {
+  groupId: string | null;
+  userId: string;
+  year: number;
+  onBack: () => void;
+}
+
+type Member = NonNullable<WrappedData['member']>;
+type Take = NonNullable<Member['mostAgreed']>;
+
+interface Slide {
+  label: string;
+  body: React.ReactNode;
+}
+
+function TakeSlide({ take, caption }: { take: Take; caption: string }) {
+  return (
+    <div className="space-y-2">
+      <H2>{take.title}</H2>
+      <P className="text-gray-400">{take.artist}</P>
+      <P className="text-lg text-white mt-4">
+        You gave it {take.rating}/5 — everyone else, {take.groupRating}/5
+      </P>
+      <P className="text-sm text-gray-500">{caption}</P>
+    </div>
+  );
+}
+
+/**
+ * Build the story for a member, skipping slides they have no data for
+ */
+function buildSlides(wrapped: WrappedData, member: Member): Slide[] {
+  const { year, group } = wrapped;
+  const slides: Slide[] = [
+    {
+      label: `${year} Wrapped`,
+      body: (
+        <div className="space-y-2">
+          <H2>@{member.username}&apos;s year in albums</H2>
+          <P className="text-gray-400">Tap to see how {year} sounded</P>
+        </div>
+      ),
+    },
+    {
+      label: 'Listening',
+      body: (
+        <div className="space-y-2">
+          <P className="text-6xl font-bold text-white">{member.albumsListened}</P>
+          <P className="text-lg text-white">albums listened</P>
+          <P className="text-sm text-gray-500">
+            out of the group&apos;s {group.albumsListened}, with {member.reviewsWritten}{' '}
+            {member.reviewsWritten === 1 ? 'review' : 'reviews'} written
+          </P>
+        </div>
+      ),
+    },
+    {
+      label: 'Ratings',
+      body: (
+        <div className="space-y-2">
+          <P className="text-6xl font-bold text-white">{member.avgRatingGiven ?? '-'}/5</P>
+          <P className="text-lg text-white">your average rating</P>
+          <P className="text-sm text-gray-500">Everyone else averaged {member.othersAvgRating ?? '-'}/5</P>
+        </div>
+      ),
+    },
+  ];
+
+  if (member.mostAgreed) {
+    slides.push({
+      label: 'Most agreed',
+      body: <TakeSlide take={member.mostAgreed} caption="You and the group were in sync" />,
+    });
+  }
+
+  if (member.mostContrarian) {
+    slides.push({
+      label: 'Hottest take',
+      body: <TakeSlide take={member.mostContrarian} caption="Nobody else heard it quite like you" />,
+    });
+  }
+
+  if (member.favoriteGenres.length > 0) {
+    slides.push({
+      label: 'Genres',
+      body: (
+        <div className="space-y-2">
+          <P className="text-lg text-white">Your favorite sounds</P>
+          {member.favoriteGenres.map((genre, i) => (
+            <P key={genre} className="text-3xl font-bold text-white capitalize">
+              {i + 1}. {genre}
+            </P>
+          ))}
+        </div>
+      ),
+    });
+  }
+
+  slides.push({
+    label: 'Submissions',
+    body: (
+      <div className="space-y-2">
+        <P className="text-6xl font-bold text-white">{member.winRate !== null ? `${member.winRate}%` : '-'}</P>
+        <P className="text-lg text-white">win rate</P>
+        <P className="text-sm text-gray-500">
+          {member.wins} of {member.submissions} {member.submissions === 1 ? 'submission' : 'submissions'} picked,{' '}
+          {member.votesCast} {member.votesCast === 1 ? 'vote' : 'votes'} cast
+        </P>
+      </div>
+    ),
+  });
+
+  return slides;
+}
+
+/**
+ * Story-style year-end recap for a member — tap the right side to advance,
+ * the left side to go back, and share from the last slide
+ */
+export function WrappedView({ groupId, userId, year, onBack }: WrappedViewProps) {
+  const { wrapped, isLoading, error } = useWrapped(groupId, year, userId);
+  const [index, setIndex] = useState(0);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-2 w-full" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  const member = wrapped?.member;
+  if (error || !wrapped || !member) {
+    return (
+      <div className="space-y-4">
+        <Button variant="outline" onClick={onBack}>
+          ← Back
+        </Button>
+        <div className="text-center py-12">
+          <P className="text-gray-500">{error ?? `No ${year} recap yet`}</P>
+        </div>
+      </div>
+    );
+  }
+
+  const slides = buildSlides(wrapped, member);
+  const current = Math.min(index, slides.length - 1);
+  const isLast = current === slides.length - 1;
+
+  const handleTap = (e: React.MouseEvent<HTMLDivElement>) => {
+    const { left, width } = e.currentTarget.getBoundingClientRect();
+    const forward = e.clientX - left > width / 3;
+    setIndex(forward ? Math.min(current + 1, slides.length - 1) : Math.max(current - 1, 0));
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Progress bars */}
+      <div className="flex gap-1">
+        {slides.map((slide, i) => (
+          <div
+            key={slide.label}
+            className={`h-1 flex-1 rounded-full ${i <= current ? 'bg-white' : 'bg-gray-800'}`}
+          />
+        ))}
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          <div className="min-h-[360px] flex flex-col cursor-pointer select-none" onClick={handleTap}>
+            <P className="text-xs uppercase tracking-widest text-gray-500">{slides[current].label}</P>
+            <div className="flex-1 flex flex-col justify-center">{slides[current].body}</div>
+            {!isLast && <P className="text-xs text-gray-600 text-right">Tap to continue</P>}
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLast && (
+        <ShareButton
+          variant="secondary"
+          className="w-full"
+          text={`My Playgroup ${year} Wrapped: ${member.albumsListened} albums listened, ${member.reviewsWritten} reviews, ${member.avgRatingGiven ?? '-'}/5 avg rating.`}
+          queryParams={{
+            shareType: 'wrapped',
+            year: year.toString(),
+            username: member.username,
+            albumsListened: member.albumsListened.toString(),
+            reviewsWritten: member.reviewsWritten.toString(),
+            avgRating: member.avgRatingGiven?.toString() ?? '-',
+            othersAvgRating: member.othersAvgRating?.toString() ?? '-',
+            ...(member.favoriteGenres[0] ? { topGenre: member.favoriteGenres[0] } : {}),
+            ...(member.winRate !== null ? { winRate: member.winRate.toString() } : {}),
+          }}
+        >
+          Share My Wrapped
+        </ShareButton>
+      )}
+
+      <Button variant="outline" onClick={onBack}>
+        ← Back
+      </Button>
+    </div>
+  );
+}
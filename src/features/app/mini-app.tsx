@@ -1,23 +1,99 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Tabs, TabsList, TabsTrigger, TabsContent, H3 } from '@neynar/ui';
 import { useAuth } from '@/hooks/use-auth';
+import { useGroups } from '@/hooks/use-groups';
+import { useAlbum, type AlbumWithPhase } from '@/hooks/use-cycle';
+import { useReviews, type ReviewData } from '@/hooks/use-reviews';
+import type { ProfileData, UserInfo } from '@/hooks/use-profile';
 import { NowPlayingTab } from './components/now-playing-tab';
 import { VoteTab } from './components/vote-tab';
 import { ArchiveTab } from './components/archive-tab';
 import { ProfileView } from './components/profile-view';
 import { UserButton } from './components/login-modal';
+import { GroupSwitcher } from '@/features/app/components/group-switcher';
+import { JoinGroupView } from '@/features/app/components/join-group-view';
+import { GroupMembersView } from '@/features/app/components/group-members-view';
+import { AlbumDetailView } from '@/features/app/components/album-detail-view';
+import { canPerform } from '@/lib/cycle-phase';
 
-// Supports routing by FID (Farcaster users) or userId (Privy users)
-interface ProfileTarget {
-  fid?: number;
-  userId?: string;
+interface MiniAppProps {
+  // Server-rendered album pages open the app on that album
+  deepLink?: { album: AlbumWithPhase; reviews: ReviewData[] };
+  // Server-rendered /u/[username] pages open the app on that profile
+  profileLink?: { userId: string; userInfo: UserInfo; profile: ProfileData };
 }
 
-export function MiniApp() {
+export function MiniApp({ deepLink, profileLink }: MiniAppProps = {}) {
   const { user } = useAuth();
-  const [viewingProfile, setViewingProfile] = useState<ProfileTarget | null>(null);
+  const [viewingProfile, setViewingProfile] = useState<string | null>(profileLink?.userId ?? null); // users.id
+  const { groups, selectedGroup, selectGroup, refresh: refreshGroups } = useGroups(user?.id);
+  const groupId = selectedGroup?.id ?? null;
+
+  // Join / members screens opened from the group switcher or an invite link
+  const [groupScreen, setGroupScreen] = useState<'join' | 'manage' | null>(null);
+  const [inviteCode, setInviteCode] = useState<string | null>(null);
+
+  // Invite links open the app with ?invite=CODE
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get('invite');
+    if (code) {
+      setInviteCode(code);
+      setGroupScreen('join');
+    }
+  }, []);
+
+  // Album opened by /album/[id] or /week/[year]/[number], until the user backs out
+  const [linkedAlbumId, setLinkedAlbumId] = useState<string | null>(deepLink?.album.id ?? null);
+  const { album: linkedAlbum, refresh: refreshLinkedAlbum } = useAlbum(linkedAlbumId, deepLink?.album ?? null);
+  const { reviews: linkedReviews, isLoading: linkedReviewsLoading, refresh: refreshLinkedReviews } = useReviews(linkedAlbumId);
+
+  const closeLinkedAlbum = () => {
+    setLinkedAlbumId(null);
+    window.history.replaceState(null, '', '/');
+  };
+
+  const closeProfile = () => {
+    // Leaving the linked profile drops its /u/ URL
+    if (viewingProfile === profileLink?.userId) {
+      window.history.replaceState(null, '', '/');
+    }
+    setViewingProfile(null);
+  };
+
+  const closeGroupScreen = () => {
+    setGroupScreen(null);
+    if (inviteCode) {
+      setInviteCode(null);
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  };
+
+  if (groupScreen !== null) {
+    return (
+      <div className="h-dvh flex flex-col overflow-hidden bg-black">
+        <header className="shrink-0 p-4 border-b border-gray-800">
+          <H3 className="text-white text-center">{groupScreen === 'join' ? 'Join a Group' : 'Members'}</H3>
+        </header>
+        <div className="flex-1 overflow-y-auto p-4">
+          {groupScreen === 'manage' && selectedGroup ? (
+            <GroupMembersView group={selectedGroup} onBack={closeGroupScreen} />
+          ) : (
+            <JoinGroupView
+              initialCode={inviteCode}
+              onBack={closeGroupScreen}
+              onJoined={async (slug) => {
+                await refreshGroups();
+                selectGroup(slug);
+                closeGroupScreen();
+              }}
+            />
+          )}
+        </div>
+      </div>
+    );
+  }
 
   // Profile view overlay
   if (viewingProfile !== null) {
@@ -28,9 +104,53 @@ export function MiniApp() {
         </header>
         <div className="flex-1 overflow-y-auto p-4">
           <ProfileView
-            fid={viewingProfile.fid}
-            userId={viewingProfile.userId}
-            onBack={() => setViewingProfile(null)}
+            userId={viewingProfile}
+            groupId={groupId}
+            onBack={closeProfile}
+            initial={viewingProfile === profileLink?.userId ? profileLink : undefined}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  // Deep-linked album overlay
+  if (linkedAlbumId !== null && linkedAlbum) {
+    return (
+      <div className="h-dvh flex flex-col overflow-hidden bg-black">
+        <header className="shrink-0 p-4 border-b border-gray-800">
+          <H3 className="text-white text-center">Week {linkedAlbum.weekNumber}</H3>
+        </header>
+        <div className="flex-1 overflow-y-auto p-4">
+          <AlbumDetailView
+            album={{
+              id: linkedAlbum.id,
+              title: linkedAlbum.title,
+              artist: linkedAlbum.artist,
+              coverUrl: linkedAlbum.coverUrl,
+              spotifyUrl: linkedAlbum.spotifyUrl,
+              avgRating: linkedAlbum.avgRating,
+              totalReviews: linkedAlbum.totalReviews,
+              mostLovedTrack: linkedAlbum.mostLovedTrack,
+              mostLovedTrackId: linkedAlbum.mostLovedTrackId,
+              mostLovedTrackVotes: linkedAlbum.mostLovedTrackVotes,
+              trackStats: linkedAlbum.trackStats,
+              weekNumber: linkedAlbum.weekNumber,
+              submittedBy: linkedAlbum.submittedByUsername,
+              genres: linkedAlbum.genres,
+              submissionNote: linkedAlbum.submissionNote,
+              streamingLinks: linkedAlbum.streamingLinks,
+            }}
+            reviews={linkedReviewsLoading ? (deepLink?.reviews ?? []) : linkedReviews}
+            tracks={linkedAlbum.tracks ?? []}
+            onBack={closeLinkedAlbum}
+            canReview={canPerform(linkedAlbum.cyclePhase, 'review')}
+            canEditReview={canPerform(linkedAlbum.cyclePhase, 'editReview')}
+            onViewProfile={setViewingProfile}
+            onReviewsChanged={() => {
+              refreshLinkedReviews();
+              refreshLinkedAlbum();
+            }}
           />
         </div>
       </div>
@@ -39,20 +159,20 @@ export function MiniApp() {
 
   return (
     <div className="h-dvh flex flex-col overflow-hidden bg-black">
-      {/* Fixed header with profile icon */}
+      {/* Fixed header with group switcher and profile icon */}
       <header className="shrink-0 p-4 border-b border-gray-800">
         <div className="flex items-center justify-between">
           <div className="w-8" /> {/* Spacer for centering */}
-          <H3 className="text-white text-center">Playgroup</H3>
+          <GroupSwitcher
+            groups={groups}
+            selectedGroup={selectedGroup}
+            onSelect={selectGroup}
+            onJoin={() => setGroupScreen('join')}
+            onManage={() => setGroupScreen('manage')}
+          />
           <UserButton
             onProfileClick={() => {
-              if (user?.fid) {
-                // Farcaster user — route by FID
-                setViewingProfile({ fid: user.fid });
-              } else if (user?.id) {
-                // Privy user — route by userId (fid is null)
-                setViewingProfile({ userId: user.id });
-              }
+              if (user?.id) setViewingProfile(user.id);
             }}
           />
         </div>
@@ -74,22 +194,13 @@ export function MiniApp() {
 
         {/* Tab content - each fills available space */}
         <TabsContent value="now" className="flex-1 overflow-y-auto p-4 mt-0">
-          <NowPlayingTab onViewProfile={(fid, userId) => {
-            if (fid != null) setViewingProfile({ fid });
-            else if (userId) setViewingProfile({ userId });
-          }} />
+          <NowPlayingTab groupId={groupId} onViewProfile={setViewingProfile} />
         </TabsContent>
         <TabsContent value="vote" className="flex-1 overflow-y-auto p-4 mt-0">
-          <VoteTab onViewProfile={(fid, userId) => {
-            if (fid != null) setViewingProfile({ fid });
-            else if (userId) setViewingProfile({ userId });
-          }} />
+          <VoteTab groupId={groupId} onViewProfile={setViewingProfile} />
         </TabsContent>
         <TabsContent value="archive" className="flex-1 overflow-y-auto p-4 mt-0">
-          <ArchiveTab onViewProfile={(fid, userId) => {
-            if (fid != null) setViewingProfile({ fid });
-            else if (userId) setViewingProfile({ userId });
-          }} />
+          <ArchiveTab groupId={groupId} onViewProfile={setViewingProfile} />
         </TabsContent>
       </Tabs>
     </div>
@@ -2,10 +2,13 @@
 // PLAYGROUP - TYPE DEFINITIONS
 // ===========================================
 
+import type { CyclePhase } from '@/lib/cycle-phase';
+
 /**
- * Cycle phase - either voting for next album or listening to current
+ * Cycle phase - upcoming → voting → listening → reviewing → closed
+ * (state machine lives in src/lib/cycle-phase.ts)
  */
-export type CyclePhase = 'voting' | 'listening';
+export type { CyclePhase };
 
 /**
  * The current cycle state
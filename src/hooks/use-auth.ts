@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { usePrivy, useWallets } from '@privy-io/react-auth';
+import sdk from '@farcaster/miniapp-sdk';
 import { useFarcasterUser } from '@/neynar-farcaster-sdk/mini';
 import {
   getOrCreateFarcasterUser,
@@ -47,6 +48,9 @@ export interface UseAuthResult {
   login: () => void;
   logout: () => Promise<void>;
 
+  // Fresh auth token for server actions (null if not logged in)
+  getAuthToken: () => Promise<string | null>;
+
   // Raw Privy state (for advanced use)
   privy: {
     ready: boolean;
@@ -56,6 +60,31 @@ export interface UseAuthResult {
   };
 }
 
+/**
+ * Hook returning a getter for the current auth token
+ *
+ * Server actions derive the acting user from this token, never from
+ * client-supplied ids. Farcaster mini app users get a Quick Auth JWT;
+ * Privy users get their Privy access token. Both SDKs cache the token and
+ * transparently fetch a new one when it expires, so call the getter right
+ * before each server action instead of storing the result.
+ */
+export function useAuthToken(): () => Promise<string | null> {
+  const { data: farcasterUser } = useFarcasterUser();
+  const { authenticated: privyAuthenticated, getAccessToken } = usePrivy();
+
+  return useCallback(async () => {
+    if (farcasterUser?.fid) {
+      const { token } = await sdk.quickAuth.getToken();
+      return token;
+    }
+    if (privyAuthenticated) {
+      return getAccessToken();
+    }
+    return null;
+  }, [farcasterUser?.fid, privyAuthenticated, getAccessToken]);
+}
+
 /**
  * Unified authentication hook supporting both Farcaster and Privy users
  *
@@ -83,6 +112,8 @@ export function useAuth(): UseAuthResult {
 
   const { wallets } = useWallets();
 
+  const getAuthToken = useAuthToken();
+
   // Sync user to database and get unified user record
   const syncUser = useCallback(async () => {
     setIsLoading(true);
@@ -93,9 +124,10 @@ export function useAuth(): UseAuthResult {
         // Context.UserContext uses camelCase props (displayName, pfpUrl)
         // No custody_address on UserContext - use Privy wallet if available
         const walletAddress = wallets?.[0]?.address;
+        const authToken = await getAuthToken();
+        if (!authToken) return;
 
-        const dbUser = await getOrCreateFarcasterUser({
-          fid: farcasterUser.fid,
+        const dbUser = await getOrCreateFarcasterUser(authToken, {
           username: farcasterUser.username ?? `user_${farcasterUser.fid}`,
           displayName: farcasterUser.displayName || farcasterUser.username || `User ${farcasterUser.fid}`,
           pfpUrl: farcasterUser.pfpUrl,
@@ -121,6 +153,8 @@ export function useAuth(): UseAuthResult {
       if (privyAuthenticated && privyUser) {
         const email = privyUser.email?.address;
         const walletAddress = wallets?.[0]?.address;
+        const authToken = await getAuthToken();
+        if (!authToken) return;
 
         // Check if this Privy user has a linked Farcaster account
         const linkedFarcaster = privyUser.linkedAccounts?.find(
@@ -134,8 +168,8 @@ export function useAuth(): UseAuthResult {
           if (!fid || isNaN(fid)) return;
 
           // User linked Farcaster - treat as Farcaster user
-          const dbUser = await getOrCreateFarcasterUser({
-            fid,
+          // (the server confirms the link with Privy before trusting the FID)
+          const dbUser = await getOrCreateFarcasterUser(authToken, {
             username: (linkedFarcaster as any).username || email?.split('@')[0] || 'user',
             displayName: (linkedFarcaster as any).displayName || (linkedFarcaster as any).username || 'User',
             pfpUrl: (linkedFarcaster as any).pfp,
@@ -158,8 +192,7 @@ export function useAuth(): UseAuthResult {
         }
 
         // Pure Privy user (email/Google login)
-        const dbUser = await getOrCreatePrivyUser({
-          privyId: privyUser.id,
+        const dbUser = await getOrCreatePrivyUser(authToken, {
           email,
           walletAddress,
           displayName: privyUser.google?.name ?? undefined,
@@ -189,7 +222,7 @@ export function useAuth(): UseAuthResult {
       setIsLoading(false);
       setIsInitialized(true);
     }
-  }, [farcasterUser, privyAuthenticated, privyUser, wallets]);
+  }, [farcasterUser, privyAuthenticated, privyUser, wallets, getAuthToken]);
 
   // Sync user when auth state changes
   useEffect(() => {
@@ -224,6 +257,7 @@ export function useAuth(): UseAuthResult {
     isPrivyUser: unifiedUser?.authProvider === 'privy',
     login,
     logout,
+    getAuthToken,
     privy: {
       ready: privyReady,
       authenticated: privyAuthenticated,
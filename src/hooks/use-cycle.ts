@@ -1,9 +1,22 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { getCycleWithCountdown, getCycleAlbum, getPastAlbums, getListenerCount, getOrCreateCurrentCycle } from '@/db/actions/cycle-actions';
+import {
+  getCycleWithCountdown,
+  getCycleAlbum,
+  getPastAlbums,
+  getArchiveYears,
+  getAlbumById,
+  getListenerCount,
+} from '@/db/actions/cycle-actions';
+import { useAuthToken } from '@/hooks/use-auth';
+import type { CyclePhase } from '@/lib/cycle-phase';
+import type { RunoffResult } from '@/lib/instant-runoff';
+import type { StreamingLinks } from '@/lib/streaming-services';
+import { albumTracks, type AlbumTrack } from '@/lib/album-tracks';
+import type { TrackStat } from '@/lib/track-ratings';
 
-export type CyclePhase = 'voting' | 'listening';
+export type { CyclePhase };
 
 export interface CycleData {
   id: string;
@@ -13,8 +26,12 @@ export interface CycleData {
   votingEndsAt: Date;
   endDate: Date;
   reviewOpensAt: Date | null;
-  isReviewOpen: boolean;
   winnerId: string | null;
+  votingMode: 'upvote' | 'ranked' | 'quadratic';
+  maxRankedChoices: number;
+  voteCredits: number;
+  maxSubmissions: number;
+  runoffResult: RunoffResult | null;
   countdown: {
     days: number;
     hours: number;
@@ -24,52 +41,79 @@ export interface CycleData {
 
 export interface AlbumData {
   id: string;
-  spotifyId: string;
+  spotifyId: string | null; // null for albums not on Spotify
   title: string;
   artist: string;
   coverUrl: string;
-  spotifyUrl: string;
+  spotifyUrl: string | null;
   avgRating: number | null;
   totalReviews: number | null;
   mostLovedTrack: string | null;
+  mostLovedTrackId: string | null;
   mostLovedTrackVotes: number | null;
   weekNumber: number;
   submittedByFid: number | null;
   submittedByUserId: string | null;
   submittedByUsername: string;
-  tracks: string[] | null;
+  tracks: AlbumTrack[] | null;
+  trackStats: TrackStat[] | null; // per-track ranking, empty until reviewed
   genres: string[] | null;
   submissionNote: string | null;
+  streamingLinks: StreamingLinks | null;
 }
 
 /**
- * Hook to get current cycle state with countdown
+ * An album opened on its own, with its cycle's phase (which decides whether it can be reviewed)
  */
-export function useCycle() {
+export interface AlbumWithPhase extends AlbumData {
+  cyclePhase: CyclePhase;
+}
+
+/**
+ * A past winner with the year of its cycle
+ */
+export interface ArchiveAlbumData extends AlbumWithPhase {
+  year: number;
+  editionOf: { weekNumber: number; year: number } | null; // earlier win of another edition
+}
+
+export interface ArchiveYear {
+  year: number;
+  albums: number; // winners that year
+}
+
+/**
+ * Hook to get a group's current cycle state with countdown
+ * Stays loading until the group is known
+ */
+export function useCycle(groupId: string | null) {
+  const getAuthToken = useAuthToken();
   const [cycle, setCycle] = useState<CycleData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const refresh = useCallback(async () => {
-    try {
-      // Ensure a cycle exists (creates one if needed) — this may create a new cycle
-      // if the previous one has fully ended. We use the returned cycle directly to
-      // avoid a stale-read race between create and fetch.
-      await getOrCreateCurrentCycle();
+    if (!groupId) return;
 
-      // getCycleWithCountdown reads the most recent cycle (now guaranteed to exist)
-      const data = await getCycleWithCountdown();
+    try {
+      // Cycles are created and transitioned by the /api/cron/tick job;
+      // this only reads the most recent cycle
+      const data = await getCycleWithCountdown(await getAuthToken(), groupId);
       if (data) {
         setCycle({
           id: data.id,
           weekNumber: data.weekNumber,
           year: data.year,
-          phase: data.phase as CyclePhase,
+          phase: data.phase,
           votingEndsAt: data.votingEndsAt,
           endDate: data.endDate,
           reviewOpensAt: data.reviewOpensAt ?? null,
-          isReviewOpen: data.isReviewOpen,
           winnerId: data.winnerId,
+          votingMode: data.votingMode as CycleData['votingMode'],
+          maxRankedChoices: data.maxRankedChoices,
+          voteCredits: data.voteCredits,
+          maxSubmissions: data.maxSubmissions,
+          runoffResult: (data.runoffResult as RunoffResult | null) ?? null,
           countdown: data.countdown,
         });
       } else {
@@ -80,7 +124,7 @@ export function useCycle() {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [groupId, getAuthToken]);
 
   useEffect(() => {
     refresh();
@@ -96,99 +140,192 @@ export function useCycle() {
  * Hook to get current album (winner of current or last cycle)
  */
 export function useCurrentAlbum(cycleId: string | null) {
+  const getAuthToken = useAuthToken();
   const [album, setAlbum] = useState<AlbumData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
+  const refresh = useCallback(async () => {
     if (!cycleId) {
+      setAlbum(null);
       setIsLoading(false);
       return;
     }
 
-    const id = cycleId; // Capture for closure after null check
-
-    async function load() {
-      try {
-        const data = await getCycleAlbum(id);
-        if (data) {
-          setAlbum({
-            id: data.id,
-            spotifyId: data.spotifyId,
-            title: data.title,
-            artist: data.artist,
-            coverUrl: data.coverUrl,
-            spotifyUrl: data.spotifyUrl,
-            avgRating: data.avgRating,
-            totalReviews: data.totalReviews,
-            mostLovedTrack: data.mostLovedTrack,
-            mostLovedTrackVotes: data.mostLovedTrackVotes,
-            weekNumber: 0, // Will be filled by cycle
-            submittedByFid: data.submittedByFid,
-            submittedByUserId: data.submittedByUserId ?? null,
-            submittedByUsername: data.submittedByUsername,
-            tracks: data.tracks as string[] | null,
-            genres: (data.genres as string[] | null) ?? null,
-            submissionNote: data.submissionNote ?? null,
-          });
-        }
-      } catch (e) {
-        setError(e instanceof Error ? e.message : 'Failed to load album');
-      } finally {
-        setIsLoading(false);
+    try {
+      const data = await getCycleAlbum(await getAuthToken(), cycleId);
+      if (data) {
+        setAlbum({
+          id: data.id,
+          spotifyId: data.spotifyId,
+          title: data.title,
+          artist: data.artist,
+          coverUrl: data.coverUrl,
+          spotifyUrl: data.spotifyUrl,
+          avgRating: data.avgRating,
+          totalReviews: data.totalReviews,
+          mostLovedTrack: data.mostLovedTrack,
+          mostLovedTrackId: data.mostLovedTrackId,
+          mostLovedTrackVotes: data.mostLovedTrackVotes,
+          weekNumber: 0, // Will be filled by cycle
+          submittedByFid: data.submittedByFid,
+          submittedByUserId: data.submittedByUserId ?? null,
+          submittedByUsername: data.submittedByUsername,
+          tracks: albumTracks(data.trackList, data.tracks),
+          trackStats: data.trackStats as TrackStat[] | null,
+          genres: (data.genres as string[] | null) ?? null,
+          submissionNote: data.submissionNote ?? null,
+          streamingLinks: data.streamingLinks as StreamingLinks | null,
+        });
+      } else {
+        setAlbum(null);
       }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load album');
+    } finally {
+      setIsLoading(false);
     }
+  }, [cycleId, getAuthToken]);
 
-    load();
-  }, [cycleId]);
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
 
-  return { album, isLoading, error };
+  return { album, isLoading, error, refresh };
 }
 
 /**
- * Hook to get past albums for archive
+ * Hook to get a group's past albums for archive
+ * `year` scopes to one year's cycles; omit it for all time
  */
-export function usePastAlbums(year?: number) {
-  const [albums, setAlbums] = useState<AlbumData[]>([]);
+export function usePastAlbums(groupId: string | null, year?: number) {
+  const getAuthToken = useAuthToken();
+  const [albums, setAlbums] = useState<ArchiveAlbumData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const refresh = useCallback(async () => {
+    if (!groupId) return;
+
+    try {
+      const data = await getPastAlbums(await getAuthToken(), groupId, year);
+      setAlbums(
+        data.map((a) => ({
+          id: a.id,
+          spotifyId: a.spotifyId,
+          title: a.title,
+          artist: a.artist,
+          coverUrl: a.coverUrl,
+          spotifyUrl: a.spotifyUrl,
+          avgRating: a.avgRating,
+          totalReviews: a.totalReviews,
+          mostLovedTrack: a.mostLovedTrack,
+          mostLovedTrackId: a.mostLovedTrackId,
+          mostLovedTrackVotes: a.mostLovedTrackVotes,
+          weekNumber: a.weekNumber,
+          year: a.year,
+          editionOf: a.editionOf,
+          cyclePhase: a.cyclePhase,
+          submittedByFid: a.submittedByFid,
+          submittedByUserId: a.submittedByUserId ?? null,
+          submittedByUsername: a.submittedByUsername,
+          tracks: albumTracks(a.trackList, a.tracks),
+          trackStats: a.trackStats as TrackStat[] | null,
+          genres: (a.genres as string[] | null) ?? null,
+          submissionNote: a.submissionNote ?? null,
+          streamingLinks: a.streamingLinks as StreamingLinks | null,
+        }))
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load albums');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId, year, getAuthToken]);
+
   useEffect(() => {
-    async function load() {
-      try {
-        const data = await getPastAlbums(year);
-        setAlbums(
-          data.map((a) => ({
-            id: a.id,
-            spotifyId: a.spotifyId,
-            title: a.title,
-            artist: a.artist,
-            coverUrl: a.coverUrl,
-            spotifyUrl: a.spotifyUrl,
-            avgRating: a.avgRating,
-            totalReviews: a.totalReviews,
-            mostLovedTrack: a.mostLovedTrack,
-            mostLovedTrackVotes: a.mostLovedTrackVotes,
-            weekNumber: a.weekNumber,
-            submittedByFid: a.submittedByFid,
-            submittedByUserId: a.submittedByUserId ?? null,
-            submittedByUsername: a.submittedByUsername,
-            tracks: null,
-            genres: (a.genres as string[] | null) ?? null,
-            submissionNote: a.submissionNote ?? null,
-          }))
-        );
-      } catch (e) {
-        setError(e instanceof Error ? e.message : 'Failed to load albums');
-      } finally {
-        setIsLoading(false);
-      }
+    refresh();
+  }, [refresh]);
+
+  return { albums, isLoading, error, refresh };
+}
+
+/**
+ * Hook to get the years a group has winners in, newest first
+ */
+export function useArchiveYears(groupId: string | null) {
+  const getAuthToken = useAuthToken();
+  const [years, setYears] = useState<ArchiveYear[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!groupId) return;
+
+    try {
+      setYears(await getArchiveYears(await getAuthToken(), groupId));
+    } finally {
+      setIsLoading(false);
     }
+  }, [groupId, getAuthToken]);
 
-    load();
-  }, [year]);
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { years, isLoading, refresh };
+}
+
+/**
+ * Hook to get one album by id, e.g. the album a deep link opened
+ * `initial` is shown until the first load (server-rendered pages pass theirs)
+ */
+export function useAlbum(albumId: string | null, initial: AlbumWithPhase | null = null) {
+  const getAuthToken = useAuthToken();
+  const [album, setAlbum] = useState<AlbumWithPhase | null>(initial);
+  const [isLoading, setIsLoading] = useState(!initial);
+
+  const refresh = useCallback(async () => {
+    if (!albumId) return;
+
+    try {
+      const data = await getAlbumById(await getAuthToken(), albumId);
+      setAlbum(
+        data
+          ? {
+              id: data.id,
+              spotifyId: data.spotifyId,
+              title: data.title,
+              artist: data.artist,
+              coverUrl: data.coverUrl,
+              spotifyUrl: data.spotifyUrl,
+              avgRating: data.avgRating,
+              totalReviews: data.totalReviews,
+              mostLovedTrack: data.mostLovedTrack,
+              mostLovedTrackId: data.mostLovedTrackId,
+              mostLovedTrackVotes: data.mostLovedTrackVotes,
+              weekNumber: data.weekNumber,
+              cyclePhase: data.cyclePhase,
+              submittedByFid: data.submittedByFid,
+              submittedByUserId: data.submittedByUserId ?? null,
+              submittedByUsername: data.submittedByUsername,
+              tracks: albumTracks(data.trackList, data.tracks),
+              trackStats: data.trackStats as TrackStat[] | null,
+              genres: (data.genres as string[] | null) ?? null,
+              submissionNote: data.submissionNote ?? null,
+              streamingLinks: data.streamingLinks as StreamingLinks | null,
+            }
+          : null
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [albumId, getAuthToken]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
 
-  return { albums, isLoading, error };
+  return { album, isLoading, refresh };
 }
 
 /**
@@ -0,0 +1,255 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getGroups,
+  joinGroup,
+  getInvite,
+  redeemInvite,
+  createInvite,
+  getGroupMembers,
+  setMemberRole,
+} from '@/db/actions/group-actions';
+import { useAuthToken } from '@/hooks/use-auth';
+import type { GroupRole } from '@/lib/groups';
+
+export type { GroupRole };
+
+export interface GroupData {
+  id: string;
+  slug: string;
+  name: string;
+  visibility: 'open' | 'invite';
+  role: GroupRole | null; // null = not a member
+}
+
+export interface GroupMemberData {
+  userId: string;
+  username: string;
+  role: GroupRole;
+  joinedAt: Date;
+}
+
+export interface InvitePreview {
+  groupSlug: string;
+  groupName: string;
+  error: string | null; // why the invite can't be used, if it can't
+}
+
+// Remembers the last group the user opened on this device
+const SELECTED_GROUP_KEY = 'playgroup:selected-group';
+
+function readSelectedSlug(): string | null {
+  try {
+    return window.localStorage.getItem(SELECTED_GROUP_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function writeSelectedSlug(slug: string) {
+  try {
+    window.localStorage.setItem(SELECTED_GROUP_KEY, slug);
+  } catch {
+    // Storage unavailable (private mode, sandboxed frame) — selection just isn't remembered
+  }
+}
+
+/**
+ * Hook for the group list and the selected group
+ * Opening an open group while signed in joins it; invite-only groups
+ * are joined with an invite code (see useJoinGroup).
+ */
+export function useGroups(userId?: string | null) {
+  const [groups, setGroups] = useState<GroupData[]>([]);
+  const [selectedSlug, setSelectedSlug] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const getAuthToken = useAuthToken();
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await getGroups(await getAuthToken());
+      setGroups(data);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load groups');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getAuthToken]);
+
+  useEffect(() => {
+    setSelectedSlug(readSelectedSlug());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Unknown or missing selection falls back to the default group (listed first)
+  const selectedGroup = groups.find((g) => g.slug === selectedSlug) ?? groups[0] ?? null;
+
+  // Record membership for an open group once the user is signed in
+  useEffect(() => {
+    if (!userId || !selectedGroup || selectedGroup.role || selectedGroup.visibility !== 'open') return;
+
+    const groupId = selectedGroup.id;
+    async function join() {
+      const authToken = await getAuthToken();
+      if (!authToken) return;
+      const result = await joinGroup(authToken, groupId);
+      if (result.success) refresh();
+    }
+
+    join();
+  }, [userId, selectedGroup, getAuthToken, refresh]);
+
+  const selectGroup = useCallback((slug: string) => {
+    setSelectedSlug(slug);
+    writeSelectedSlug(slug);
+  }, []);
+
+  return { groups, selectedGroup, selectGroup, isLoading, error, refresh };
+}
+
+/**
+ * Hook for the join screen: previews an invite code and redeems it
+ */
+export function useJoinGroup(code: string | null) {
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isJoining, setIsJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const getAuthToken = useAuthToken();
+
+  useEffect(() => {
+    if (!code) {
+      setInvite(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    getInvite(code)
+      .then((data) => {
+        if (cancelled) return;
+        setInvite(data);
+        if (!data) setError('Invite not found');
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load invite');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  // Resolves to the joined group's slug, or null on failure
+  const join = useCallback(async (): Promise<string | null> => {
+    if (!code) return null;
+
+    setIsJoining(true);
+    setError(null);
+    try {
+      const authToken = await getAuthToken();
+      if (!authToken) throw new Error('Please sign in to join this group');
+
+      const result = await redeemInvite(authToken, code);
+      if (!result.success) throw new Error(result.error);
+      return result.groupSlug;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to join group');
+      return null;
+    } finally {
+      setIsJoining(false);
+    }
+  }, [code, getAuthToken]);
+
+  return { invite, join, isLoading, isJoining, error };
+}
+
+/**
+ * Hook for owners and moderators: the member list, invite links and roles
+ */
+export function useManageGroup(groupId: string | null) {
+  const [members, setMembers] = useState<GroupMemberData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const getAuthToken = useAuthToken();
+
+  const refresh = useCallback(async () => {
+    if (!groupId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const data = await getGroupMembers(await getAuthToken(), groupId);
+      setMembers(data);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load members');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId, getAuthToken]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Resolves to the new invite code, or null on failure
+  const invite = useCallback(
+    async (options: { expiresInDays: number; maxUses: number | null }): Promise<string | null> => {
+      if (!groupId) return null;
+
+      setIsSaving(true);
+      setError(null);
+      try {
+        const authToken = await getAuthToken();
+        if (!authToken) throw new Error('Please sign in to invite members');
+
+        const result = await createInvite(authToken, groupId, options);
+        if (!result.success) throw new Error(result.error);
+        return result.invite.code;
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to create invite');
+        return null;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [groupId, getAuthToken]
+  );
+
+  const changeRole = useCallback(
+    async (userId: string, role: GroupRole) => {
+      if (!groupId) return false;
+
+      setIsSaving(true);
+      setError(null);
+      try {
+        const authToken = await getAuthToken();
+        if (!authToken) throw new Error('Please sign in to manage members');
+
+        const result = await setMemberRole(authToken, groupId, userId, role);
+        if (!result.success) throw new Error(result.error);
+        await refresh();
+        return true;
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to change role');
+        return false;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [groupId, getAuthToken, refresh]
+  );
+
+  return { members, invite, changeRole, isLoading, isSaving, error, refresh };
+}
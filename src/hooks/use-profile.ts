@@ -1,19 +1,16 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import {
-  getProfileByFid,
-  getProfileByUserId,
-  getUserInfoByFid,
-  getUserInfoByUserId,
-} from '@/db/actions/profile-actions';
+import { getProfile, getUserInfo } from '@/db/actions/profile-actions';
+import { getWrapped } from '@/db/actions/wrapped-actions';
+import { useAuthToken } from '@/hooks/use-auth';
 
 export interface ProfileSubmission {
   id: string;
   title: string;
   artist: string;
   coverUrl: string;
-  spotifyUrl: string;
+  spotifyUrl: string | null;
   status: string;
   votes: number;
   avgRating: number | null;
@@ -44,27 +41,33 @@ export interface ProfileStats {
 }
 
 export interface ProfileData {
-  fid?: number;
-  userId?: string;
+  userId: string;
   submissions: ProfileSubmission[];
   reviews: ProfileReview[];
   stats: ProfileStats;
   memberSince: Date | null;
 }
 
+export interface UserInfo {
+  username: string;
+  pfp?: string;
+  displayName?: string;
+}
+
+export type WrappedData = NonNullable<Awaited<ReturnType<typeof getWrapped>>>;
+
 /**
- * Hook to get profile data for a user.
- * Supports both Farcaster users (by fid) and Privy users (by userId).
- * fid takes priority when both are provided.
+ * Hook to get profile data for a user (by users.id)
+ * `initial` is shown until the first load (server-rendered pages pass theirs)
  */
-export function useProfile(fid: number | null, userId?: string | null) {
-  const [profile, setProfile] = useState<ProfileData | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+export function useProfile(userId: string | null, initial: ProfileData | null = null) {
+  const getAuthToken = useAuthToken();
+  const [profile, setProfile] = useState<ProfileData | null>(initial);
+  const [isLoading, setIsLoading] = useState(!initial);
   const [error, setError] = useState<string | null>(null);
 
   const refresh = useCallback(async () => {
-    // Need at least one identifier
-    if (!fid && !userId) {
+    if (!userId) {
       setIsLoading(false);
       return;
     }
@@ -72,23 +75,14 @@ export function useProfile(fid: number | null, userId?: string | null) {
     setIsLoading(true);
     setError(null);
     try {
-      let data: ProfileData | null = null;
-
-      if (fid) {
-        // Farcaster user — query by FID
-        data = await getProfileByFid(fid);
-      } else if (userId) {
-        // Privy user — query by userId
-        data = await getProfileByUserId(userId);
-      }
-
+      const data = await getProfile(await getAuthToken(), userId);
       setProfile(data);
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to load profile');
     } finally {
       setIsLoading(false);
     }
-  }, [fid, userId]);
+  }, [userId, getAuthToken]);
 
   useEffect(() => {
     refresh();
@@ -98,27 +92,22 @@ export function useProfile(fid: number | null, userId?: string | null) {
 }
 
 /**
- * Hook to get basic user info (username, pfp) for profile display.
- * Supports both Farcaster users (by fid) and Privy users (by userId).
+ * Hook to get basic user info (username, pfp) for profile display
  */
-export function useUserInfo(fid: number | null, userId?: string | null) {
-  const [userInfo, setUserInfo] = useState<{ username: string; pfp?: string; displayName?: string } | null>(null);
+export function useUserInfo(userId: string | null, initial: UserInfo | null = null) {
+  const [userInfo, setUserInfo] = useState<UserInfo | null>(initial);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    if (!fid && !userId) {
+    if (!userId) {
       setIsLoading(false);
       return;
     }
 
-    async function fetchInfo() {
-      let info: { username: string; pfp?: string | null; displayName?: string } | null = null;
+    const id = userId; // Capture for closure after null check
 
-      if (fid) {
-        info = await getUserInfoByFid(fid);
-      } else if (userId) {
-        info = await getUserInfoByUserId(userId);
-      }
+    async function fetchInfo() {
+      const info = await getUserInfo(id);
 
       setUserInfo(
         info
@@ -129,7 +118,41 @@ export function useUserInfo(fid: number | null, userId?: string | null) {
     }
 
     fetchInfo();
-  }, [fid, userId]);
+  }, [userId]);
 
   return { userInfo, isLoading };
 }
+
+/**
+ * Hook to get a member's year-end recap within a group
+ */
+export function useWrapped(groupId: string | null, year: number, userId: string | null) {
+  const getAuthToken = useAuthToken();
+  const [wrapped, setWrapped] = useState<WrappedData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!groupId || !userId) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await getWrapped(await getAuthToken(), groupId, year, userId);
+      setWrapped(data);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load your year');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId, year, userId, getAuthToken]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { wrapped, isLoading, error, refresh };
+}
@@ -1,7 +1,15 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { getAlbumReviews, submitReview, getUserReview } from '@/db/actions/review-actions';
+import {
+  getAlbumReviews,
+  submitReview,
+  getUserReview,
+  updateReview,
+  deleteReview,
+} from '@/db/actions/review-actions';
+import { useAuthToken } from '@/hooks/use-auth';
+import type { TrackRatings } from '@/lib/track-ratings';
 
 export interface ReviewData {
   id: string;
@@ -12,14 +20,30 @@ export interface ReviewData {
   pfp: string;
   rating: number;
   text: string;
-  favoriteTrack: string | null;
+  favoriteTrack: string | null; // title when picked
+  favoriteTrackId: string | null;
+  editedAt: Date | null;
   daysAgo: number;
 }
 
+/**
+ * The signed-in user's own review, as needed to edit it
+ */
+export interface OwnReview {
+  id: string;
+  rating: number;
+  text: string;
+  favoriteTrack: string | null;
+  favoriteTrackId: string | null;
+  trackRatings: TrackRatings;
+  hasListened: boolean;
+}
+
 /**
  * Hook to get reviews for an album
  */
 export function useReviews(albumId: string | null) {
+  const getAuthToken = useAuthToken();
   const [reviews, setReviews] = useState<ReviewData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -31,14 +55,14 @@ export function useReviews(albumId: string | null) {
     }
 
     try {
-      const data = await getAlbumReviews(albumId);
+      const data = await getAlbumReviews(await getAuthToken(), albumId);
       setReviews(data);
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to load reviews');
     } finally {
       setIsLoading(false);
     }
-  }, [albumId]);
+  }, [albumId, getAuthToken]);
 
   useEffect(() => {
     refresh();
@@ -49,62 +73,70 @@ export function useReviews(albumId: string | null) {
 
 /**
  * Hook to check if user has reviewed an album
- * Supports both FID (legacy) and userId (new)
  */
-export function useUserReview(
-  albumId: string | null,
-  fid?: number | null,
-  userId?: string | null
-) {
-  const [hasReviewed, setHasReviewed] = useState(false);
+export function useUserReview(albumId: string | null) {
+  const getAuthToken = useAuthToken();
+  const [review, setReview] = useState<OwnReview | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  useEffect(() => {
-    if (!albumId || (!fid && !userId)) {
+  const refresh = useCallback(async () => {
+    if (!albumId) {
       setIsLoading(false);
       return;
     }
 
-    // Capture non-null values for the async function
-    const currentAlbumId = albumId;
-
-    async function check() {
-      const review = await getUserReview(currentAlbumId, fid ?? undefined, userId ?? undefined);
-      setHasReviewed(!!review);
-      setIsLoading(false);
-    }
+    const row = await getUserReview(await getAuthToken(), albumId);
+    setReview(
+      row
+        ? {
+            id: row.id,
+            rating: row.rating,
+            text: row.reviewText,
+            favoriteTrack: row.favoriteTrack,
+            favoriteTrackId: row.favoriteTrackId,
+            trackRatings: row.trackRatings,
+            hasListened: row.hasListened ?? false,
+          }
+        : null
+    );
+    setIsLoading(false);
+  }, [albumId, getAuthToken]);
 
-    check();
-  }, [albumId, fid, userId]);
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
 
-  return { hasReviewed, isLoading };
+  return { hasReviewed: !!review, review, isLoading, refresh };
 }
 
 /**
  * Hook for submitting a review
- * Supports both FID (legacy) and userId (new)
+ * The reviewer is identified on the server from the auth token
  */
 export function useSubmitReview() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const getAuthToken = useAuthToken();
 
   const submit = useCallback(
     async (data: {
       albumId: string;
-      fid?: number;
-      userId?: string;
-      username: string;
-      pfp: string | null;
       rating: number;
       text: string;
-      favoriteTrack: string | null;
+      favoriteTrackId: string | null;
+      trackRatings?: TrackRatings;
       hasListened: boolean;
     }) => {
       setIsSubmitting(true);
       setError(null);
 
       try {
-        const result = await submitReview(data);
+        const authToken = await getAuthToken();
+        if (!authToken) {
+          setError('Please sign in to submit a review');
+          return { success: false };
+        }
+        const result = await submitReview(authToken, data);
         if (!result.success) {
           setError(result.error || 'Failed to submit review');
           return { success: false };
@@ -118,8 +150,67 @@ export function useSubmitReview() {
         setIsSubmitting(false);
       }
     },
-    []
+    [getAuthToken]
   );
 
   return { submit, isSubmitting, error };
 }
+
+/**
+ * Hook for editing or deleting your own review
+ * The author is checked on the server from the auth token
+ */
+export function useManageReview() {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const getAuthToken = useAuthToken();
+
+  const run = useCallback(
+    async (action: (authToken: string) => Promise<{ success: boolean; error?: string | null }>) => {
+      setIsSaving(true);
+      setError(null);
+
+      try {
+        const authToken = await getAuthToken();
+        if (!authToken) {
+          setError('Please sign in to change your review');
+          return false;
+        }
+        const result = await action(authToken);
+        if (!result.success) {
+          setError(result.error || 'Failed to update review');
+          return false;
+        }
+        return true;
+      } catch (e) {
+        const message = e instanceof Error ? e.message : 'Failed to update review';
+        setError(message);
+        return false;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [getAuthToken]
+  );
+
+  const update = useCallback(
+    (
+      reviewId: string,
+      data: {
+        rating: number;
+        text: string;
+        favoriteTrackId: string | null;
+        trackRatings?: TrackRatings;
+        hasListened: boolean;
+      }
+    ) => run((authToken) => updateReview(authToken, reviewId, data)),
+    [run]
+  );
+
+  const remove = useCallback(
+    (reviewId: string) => run((authToken) => deleteReview(authToken, reviewId)),
+    [run]
+  );
+
+  return { update, remove, isSaving, error };
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getPreferredStreamingService, setPreferredStreamingService } from '@/db/actions/user-actions';
+import { useAuthToken } from '@/hooks/use-auth';
+import type { StreamingService } from '@/lib/streaming-services';
+
+/**
+ * Hook for the member's preferred streaming service ("Listen on…")
+ * Signed-out visitors can still pick a service; it just isn't saved.
+ */
+export function usePreferredStreamingService() {
+  const getAuthToken = useAuthToken();
+  const [service, setService] = useState<StreamingService | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const saved = await getPreferredStreamingService(await getAuthToken());
+        if (!cancelled && saved) setService(saved);
+      } catch (e) {
+        console.error('Failed to load preferred streaming service:', e);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [getAuthToken]);
+
+  const choose = useCallback(
+    async (next: StreamingService) => {
+      setService(next);
+
+      const token = await getAuthToken();
+      if (!token) return;
+
+      const result = await setPreferredStreamingService(token, next);
+      if (!result.success) console.error('Failed to save preferred streaming service:', result.error);
+    },
+    [getAuthToken]
+  );
+
+  return { service, choose };
+}
@@ -5,16 +5,25 @@ import {
   getSubmissionsWithUserVotes,
   getUserSubmissionCount,
   submitAlbum,
+  updateSubmissionNote,
+  withdrawSubmission,
   castVote,
+  uncastVote,
+  allocateVotes,
+  submitBallot,
+  getUserBallot,
+  getBallotCount,
 } from '@/db/actions/submission-actions';
+import { useAuthToken } from '@/hooks/use-auth';
+import type { AlbumTrack } from '@/lib/album-tracks';
 
 export interface SubmissionData {
   id: string;
-  spotifyId: string;
+  spotifyId: string | null; // null for albums not on Spotify
   title: string;
   artist: string;
   coverUrl: string;
-  spotifyUrl: string;
+  spotifyUrl: string | null;
   genres: string[];
   votes: number;
   submitterFid: number | null;
@@ -22,18 +31,16 @@ export interface SubmissionData {
   submitter: string;
   daysAgo: number;
   hasVoted: boolean;
+  myVotes: number; // votes the user put on this album (quadratic mode weight, else 0/1)
   submissionNote: string | null;
 }
 
 /**
  * Hook to get submissions with user's vote status
- * Supports both FID (legacy) and userId (new)
+ * Reloads when the signed-in user changes (a new token getter)
  */
-export function useSubmissions(
-  cycleId: string | null,
-  userFid?: number | null,
-  userId?: string | null
-) {
+export function useSubmissions(cycleId: string | null) {
+  const getAuthToken = useAuthToken();
   const [submissions, setSubmissions] = useState<SubmissionData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -45,22 +52,15 @@ export function useSubmissions(
     }
 
     try {
-      // If user is logged in, get vote status too
-      if (userId || userFid) {
-        const data = await getSubmissionsWithUserVotes(cycleId, userFid ?? undefined, userId ?? undefined);
-        setSubmissions(data);
-      } else {
-        // Not logged in - just get submissions without vote status
-        const { getSubmissions } = await import('@/db/actions/submission-actions');
-        const data = await getSubmissions(cycleId);
-        setSubmissions(data.map(s => ({ ...s, hasVoted: false })));
-      }
+      // Signed out, nothing comes back marked as voted
+      const data = await getSubmissionsWithUserVotes(await getAuthToken(), cycleId);
+      setSubmissions(data);
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to load submissions');
     } finally {
       setIsLoading(false);
     }
-  }, [cycleId, userFid, userId]);
+  }, [cycleId, getAuthToken]);
 
   useEffect(() => {
     refresh();
@@ -70,26 +70,22 @@ export function useSubmissions(
 }
 
 /**
- * Hook to get user's submission count
- * Supports both FID (legacy) and userId (new)
+ * Hook to get user's submission count (0 while signed out)
  */
-export function useUserSubmissionCount(
-  cycleId: string | null,
-  fid?: number | null,
-  userId?: string | null
-) {
+export function useUserSubmissionCount(cycleId: string | null) {
+  const getAuthToken = useAuthToken();
   const [count, setCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
 
   const refresh = useCallback(async () => {
-    if ((!fid && !userId) || !cycleId) {
+    if (!cycleId) {
       setIsLoading(false);
       return;
     }
-    const c = await getUserSubmissionCount(cycleId, fid ?? undefined, userId ?? undefined);
+    const c = await getUserSubmissionCount(await getAuthToken(), cycleId);
     setCount(c);
     setIsLoading(false);
-  }, [fid, userId, cycleId]);
+  }, [cycleId, getAuthToken]);
 
   useEffect(() => {
     refresh();
@@ -100,35 +96,42 @@ export function useUserSubmissionCount(
 
 /**
  * Hook for submitting an album
- * Supports both FID (legacy) and userId (new)
+ * The submitter is identified on the server from the auth token
  */
 export function useSubmitAlbum() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const getAuthToken = useAuthToken();
 
   const submit = useCallback(
     async (data: {
-      spotifyId: string;
+      spotifyId: string | null;
       title: string;
       artist: string;
       coverUrl: string;
-      spotifyUrl: string;
-      tracks?: string[];
+      spotifyUrl: string | null;
+      sourceUrl?: string;
+      tracks?: AlbumTrack[];
       genres?: string[];
+      releaseDate?: string | null;
+      upc?: string | null;
+      isrcs?: string[];
       cycleId: string;
-      fid?: number;
-      userId?: string;
-      username: string;
       submissionNote?: string;
     }) => {
       setIsSubmitting(true);
       setError(null);
 
       try {
-        const result = await submitAlbum(data);
+        const authToken = await getAuthToken();
+        if (!authToken) {
+          setError('Please sign in to submit albums');
+          return { success: false };
+        }
+        const result = await submitAlbum(authToken, data);
         if (!result.success) {
           setError(result.error || 'Failed to submit');
-          return { success: false };
+          return { success: false, error: result.error };
         }
         return { success: true, album: result.album };
       } catch (e) {
@@ -139,26 +142,135 @@ export function useSubmitAlbum() {
         setIsSubmitting(false);
       }
     },
-    []
+    [getAuthToken]
   );
 
   return { submit, isSubmitting, error };
 }
 
 /**
- * Hook for voting
- * Supports both FID (legacy) and userId (new)
+ * Hook for editing the note on, or withdrawing, your own submission
+ * The submitter is identified on the server from the auth token
+ */
+export function useManageSubmission() {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const getAuthToken = useAuthToken();
+
+  const run = useCallback(
+    async (action: (authToken: string) => Promise<{ success: boolean; error?: string | null }>) => {
+      setIsSaving(true);
+      setError(null);
+
+      try {
+        const authToken = await getAuthToken();
+        if (!authToken) {
+          setError('Please sign in to change your submission');
+          return false;
+        }
+        const result = await action(authToken);
+        if (!result.success) {
+          setError(result.error || 'Failed to update submission');
+          return false;
+        }
+        return true;
+      } catch (e) {
+        const message = e instanceof Error ? e.message : 'Failed to update submission';
+        setError(message);
+        return false;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [getAuthToken]
+  );
+
+  const updateNote = useCallback(
+    (albumId: string, note: string) => run((authToken) => updateSubmissionNote(authToken, albumId, note)),
+    [run]
+  );
+
+  const withdraw = useCallback(
+    (albumId: string) => run((authToken) => withdrawSubmission(authToken, albumId)),
+    [run]
+  );
+
+  return { updateNote, withdraw, isSaving, error };
+}
+
+/**
+ * Hook for voting and un-voting
+ * The voter is identified on the server from the auth token
+ *
+ * `toggleVote` flips the vote optimistically: `optimisticVotes[albumId]` holds
+ * the expected state until the server answers and `onVoteChange` (usually the
+ * submissions refresh) has run, and is dropped again if the server refuses.
+ */
+export function useVote(onVoteChange?: () => Promise<void> | void) {
+  const [optimisticVotes, setOptimisticVotes] = useState<Record<string, boolean>>({});
+  const [error, setError] = useState<string | null>(null);
+  const getAuthToken = useAuthToken();
+
+  const toggleVote = useCallback(async (albumId: string, hasVoted: boolean) => {
+    const nextVoted = !hasVoted;
+    setOptimisticVotes((prev) => ({ ...prev, [albumId]: nextVoted }));
+    setError(null);
+
+    try {
+      const authToken = await getAuthToken();
+      if (!authToken) {
+        setError('Authentication required to vote');
+        return false;
+      }
+      const result = nextVoted
+        ? await castVote(authToken, albumId)
+        : await uncastVote(authToken, albumId);
+      if (!result.success) {
+        setError(result.error || 'Failed to vote');
+        return false;
+      }
+      await onVoteChange?.();
+      return true;
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Failed to vote';
+      setError(message);
+      return false;
+    } finally {
+      setOptimisticVotes((prev) => {
+        const next = { ...prev };
+        delete next[albumId];
+        return next;
+      });
+    }
+  }, [getAuthToken, onVoteChange]);
+
+  const vote = useCallback((albumId: string) => toggleVote(albumId, false), [toggleVote]);
+
+  const isVoting = Object.keys(optimisticVotes).length > 0;
+
+  return { vote, toggleVote, optimisticVotes, isVoting, error };
+}
+
+/**
+ * Hook for setting the user's votes on an album in a quadratic cycle
+ * The voter is identified on the server from the auth token
  */
-export function useVote() {
-  const [isVoting, setIsVoting] = useState(false);
+export function useAllocateVotes() {
+  const [isAllocating, setIsAllocating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const getAuthToken = useAuthToken();
 
-  const vote = useCallback(async (albumId: string, fid?: number, userId?: string) => {
-    setIsVoting(true);
+  const allocate = useCallback(async (albumId: string, weight: number) => {
+    setIsAllocating(true);
     setError(null);
 
     try {
-      const result = await castVote(albumId, fid, userId);
+      const authToken = await getAuthToken();
+      if (!authToken) {
+        setError('Authentication required to vote');
+        return false;
+      }
+      const result = await allocateVotes(authToken, albumId, weight);
       if (!result.success) {
         setError(result.error || 'Failed to vote');
         return false;
@@ -169,9 +281,77 @@ export function useVote() {
       setError(message);
       return false;
     } finally {
-      setIsVoting(false);
+      setIsAllocating(false);
+    }
+  }, [getAuthToken]);
+
+  return { allocate, isAllocating, error };
+}
+
+/**
+ * Hook to get the user's ranked ballot and the cycle's ballot count
+ */
+export function useBallot(cycleId: string | null, userId?: string | null) {
+  const getAuthToken = useAuthToken();
+  const [ballot, setBallot] = useState<string[]>([]);
+  const [ballotCount, setBallotCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!cycleId) {
+      setIsLoading(false);
+      return;
+    }
+    const token = await getAuthToken();
+    const [mine, count] = await Promise.all([
+      userId ? getUserBallot(token, cycleId) : Promise.resolve([]),
+      getBallotCount(token, cycleId),
+    ]);
+    setBallot(mine);
+    setBallotCount(count);
+    setIsLoading(false);
+  }, [cycleId, userId, getAuthToken]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { ballot, ballotCount, isLoading, refresh };
+}
+
+/**
+ * Hook for submitting a ranked ballot
+ * The voter is identified on the server from the auth token
+ */
+export function useSubmitBallot() {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const getAuthToken = useAuthToken();
+
+  const submit = useCallback(async (cycleId: string, albumIds: string[]) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const authToken = await getAuthToken();
+      if (!authToken) {
+        setError('Authentication required to vote');
+        return false;
+      }
+      const result = await submitBallot(authToken, cycleId, albumIds);
+      if (!result.success) {
+        setError(result.error || 'Failed to save ballot');
+        return false;
+      }
+      return true;
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Failed to save ballot';
+      setError(message);
+      return false;
+    } finally {
+      setIsSubmitting(false);
     }
-  }, []);
+  }, [getAuthToken]);
 
-  return { vote, isVoting, error };
+  return { submit, isSubmitting, error };
 }
@@ -0,0 +1,24 @@
+import 'server-only';
+
+import { privateConfig } from '@/config/private-config';
+
+/**
+ * Check an admin API request
+ * True only when ADMIN_SECRET is configured and the request carries
+ * `Authorization: Bearer <ADMIN_SECRET>`.
+ */
+export function isAdminRequest(request: Request): boolean {
+  const secret = privateConfig.adminSecret;
+  const auth = request.headers.get('authorization');
+  return !!secret && auth === `Bearer ${secret}`;
+}
+
+/**
+ * Check a scheduled-job request (Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`).
+ * The admin secret is accepted too so the tick can be triggered by hand.
+ */
+export function isCronRequest(request: Request): boolean {
+  const secret = privateConfig.cronSecret;
+  const auth = request.headers.get('authorization');
+  return (!!secret && auth === `Bearer ${secret}`) || isAdminRequest(request);
+}
@@ -0,0 +1,57 @@
+/**
+ * Album identity keys — how editions of the same record are recognized
+ *
+ * Pure string helpers, shared by src/lib/canonical-albums.ts and
+ * scripts/backfill-canonical-albums.ts.
+ */
+
+// Words that mark a bracketed or dashed suffix as an edition note, e.g.
+// "(2009 Remaster)", "[Deluxe Edition]", " - 50th Anniversary Super Deluxe"
+const EDITION_WORDS =
+  /\b(remaster(ed)?|deluxe|edition|expanded|anniversary|reissue|version|mono|stereo|bonus|special|collector'?s|super|legacy|original motion picture)\b/i;
+
+/**
+ * Title with edition notes, punctuation and case removed
+ * "Abbey Road (Remastered 2019)" and "Abbey Road - Super Deluxe Edition" → "abbey road"
+ */
+export function normalizeTitle(title: string): string {
+  let result = title;
+
+  // Drop bracketed edition notes anywhere in the title
+  result = result.replace(/\s*[([][^)\]]*[)\]]/g, (part) => (EDITION_WORDS.test(part) ? '' : part));
+
+  // Drop a trailing " - …" edition note
+  const dash = result.lastIndexOf(' - ');
+  if (dash > 0 && EDITION_WORDS.test(result.slice(dash))) {
+    result = result.slice(0, dash);
+  }
+
+  return normalizeText(result);
+}
+
+/**
+ * The primary (first-credited) artist, normalized
+ * Album artists are stored comma-joined, as Spotify credits them
+ */
+export function normalizeArtist(artist: string): string {
+  return normalizeText(artist.split(',')[0] ?? artist).replace(/^the /, '');
+}
+
+/**
+ * Release year from a Spotify release date ('YYYY', 'YYYY-MM' or 'YYYY-MM-DD')
+ */
+export function releaseYearOf(releaseDate: string | null | undefined): number | null {
+  const year = Number(releaseDate?.slice(0, 4));
+  return Number.isInteger(year) && year > 0 ? year : null;
+}
+
+function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Latin accents
+    .normalize('NFC') // recompose other scripts' marks (e.g. kana voicing)
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
@@ -0,0 +1,288 @@
+import 'server-only';
+
+import { parseAlbumUrl, type AlbumUrl } from '@/lib/album-urls';
+import { lookupOdesli } from '@/lib/streaming-links';
+import { fetchAlbumMetadata, findSpotifyAlbumByUpc, isSpotifyConfigured, type AlbumMetadata } from '@/lib/spotify';
+import type { StreamingService } from '@/lib/streaming-services';
+import type { AlbumTrack } from '@/lib/album-tracks';
+
+/**
+ * Album links — turning a pasted album link on any service into a submission
+ *
+ * Spotify links are fetched as before. A link on another service is looked up
+ * on that service (Deezer and iTunes have public APIs, Bandcamp album pages
+ * carry structured data; YouTube Music and Tidal only through Odesli), then
+ * matched to Spotify through Odesli or the album's UPC. With a Spotify match
+ * the album is submitted as that Spotify album; without one it's submitted
+ * from the other service alone. Either way the title, artist, release date,
+ * UPC and ISRCs returned here are what `submitAlbum` resolves the canonical
+ * album from.
+ */
+
+export interface LinkedAlbum {
+  spotifyId: string | null; // null when the album isn't on Spotify
+  spotifyUrl: string | null;
+  title: string;
+  artist: string;
+  coverUrl: string;
+  tracks: AlbumTrack[];
+  genres: string[];
+  releaseDate: string | null;
+  upc: string | null;
+  isrcs: string[];
+  source: StreamingService; // the service of the pasted link
+  sourceUrl: string;
+}
+
+// What the source service tells us about an album
+interface SourceAlbum {
+  title: string;
+  artist: string;
+  coverUrl: string;
+  tracks: AlbumTrack[];
+  genres: string[];
+  releaseDate: string | null;
+  upc: string | null;
+}
+
+const LOOKUP_TIMEOUT_MS = 5000;
+
+async function fetchWithTimeout(url: string): Promise<Response | null> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS) });
+  return response.ok ? response : null;
+}
+
+interface DeezerAlbum {
+  title?: string;
+  upc?: string;
+  release_date?: string;
+  cover_xl?: string;
+  artist?: { name: string };
+  genres?: { data: { name: string }[] };
+  tracks?: { data: { id: number; title: string; duration: number; explicit_lyrics: boolean; preview: string }[] };
+}
+
+async function fetchDeezerAlbum(id: string): Promise<SourceAlbum | null> {
+  const response = await fetchWithTimeout(`https://api.deezer.com/album/${id}`);
+  const album = response ? ((await response.json()) as DeezerAlbum) : null;
+  if (!album?.title || !album.artist) return null;
+
+  return {
+    title: album.title,
+    artist: album.artist.name,
+    coverUrl: album.cover_xl ?? '',
+    tracks: (album.tracks?.data ?? []).map((track, i) => ({
+      id: String(track.id),
+      number: i + 1,
+      disc: 1,
+      title: track.title,
+      durationMs: track.duration * 1000,
+      explicit: track.explicit_lyrics,
+      previewUrl: track.preview || null,
+      isrc: null,
+    })),
+    genres: album.genres?.data.map((genre) => genre.name.toLowerCase()).slice(0, 3) ?? [],
+    releaseDate: album.release_date ?? null,
+    upc: album.upc ?? null,
+  };
+}
+
+interface ITunesResult {
+  wrapperType: 'collection' | 'track';
+  collectionName?: string;
+  artistName?: string;
+  artworkUrl100?: string;
+  releaseDate?: string;
+  primaryGenreName?: string;
+  trackId?: number;
+  trackName?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  trackTimeMillis?: number;
+  trackExplicitness?: string;
+  previewUrl?: string;
+}
+
+async function fetchAppleMusicAlbum(link: AlbumUrl): Promise<SourceAlbum | null> {
+  // Albums can be storefront-only, so look up in the link's country
+  const country = link.url.match(/apple\.com\/([a-z]{2})\//)?.[1] ?? 'us';
+  const response = await fetchWithTimeout(
+    `https://itunes.apple.com/lookup?id=${link.id}&entity=song&country=${country}`
+  );
+  const data = response ? ((await response.json()) as { results?: ITunesResult[] }) : null;
+
+  const album = data?.results?.find((result) => result.wrapperType === 'collection');
+  if (!album?.collectionName || !album.artistName) return null;
+
+  const tracks = (data?.results ?? [])
+    .filter((result) => result.wrapperType === 'track' && result.trackId && result.trackName)
+    .map((track) => ({
+      id: String(track.trackId),
+      number: track.trackNumber ?? 0,
+      disc: track.discNumber ?? 1,
+      title: track.trackName as string,
+      durationMs: track.trackTimeMillis ?? null,
+      explicit: track.trackExplicitness === 'explicit',
+      previewUrl: track.previewUrl ?? null,
+      isrc: null,
+    }))
+    .sort((a, b) => a.disc - b.disc || a.number - b.number);
+
+  return {
+    title: album.collectionName,
+    artist: album.artistName,
+    coverUrl: album.artworkUrl100?.replace('100x100bb', '600x600bb') ?? '',
+    tracks,
+    genres: album.primaryGenreName ? [album.primaryGenreName.toLowerCase()] : [],
+    releaseDate: album.releaseDate?.slice(0, 10) ?? null,
+    upc: null,
+  };
+}
+
+interface BandcampAlbum {
+  name?: string;
+  byArtist?: { name?: string };
+  image?: string | string[];
+  datePublished?: string;
+  keywords?: string | string[];
+  track?: { itemListElement?: { position?: number; item?: { '@id'?: string; name?: string; duration?: string } }[] };
+}
+
+// Bandcamp durations are ISO 8601, e.g. "P00H03M25S"
+function parseIsoDuration(duration: string | undefined): number | null {
+  const match = duration?.match(/^P(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/);
+  if (!match) return null;
+  const [, hours = '0', minutes = '0', seconds = '0'] = match;
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000;
+}
+
+async function fetchBandcampAlbum(id: string): Promise<SourceAlbum | null> {
+  // Rebuilt from the parsed id so only bandcamp.com album pages are fetched
+  const [subdomain, slug] = id.split('/');
+  const response = await fetchWithTimeout(`https://${subdomain}.bandcamp.com/album/${slug}`);
+  const html = response ? await response.text() : '';
+
+  const json = html.match(/<script type="application\/ld\+json"[^>]*>([\s\S]*?)<\/script>/)?.[1];
+  if (!json) return null;
+
+  const album = JSON.parse(json) as BandcampAlbum;
+  if (!album.name || !album.byArtist?.name) return null;
+
+  const published = album.datePublished ? new Date(album.datePublished) : null;
+  const keywords = typeof album.keywords === 'string' ? album.keywords.split(',') : album.keywords ?? [];
+
+  return {
+    title: album.name,
+    artist: album.byArtist.name,
+    coverUrl: (Array.isArray(album.image) ? album.image[0] : album.image) ?? '',
+    tracks: (album.track?.itemListElement ?? []).flatMap((entry, i) =>
+      entry.item?.name
+        ? [{
+            id: entry.item['@id'] ?? String(i + 1),
+            number: entry.position ?? i + 1,
+            disc: 1,
+            title: entry.item.name,
+            durationMs: parseIsoDuration(entry.item.duration),
+            explicit: false,
+            previewUrl: null,
+            isrc: null,
+          }]
+        : []
+    ),
+    genres: keywords.map((keyword) => keyword.trim().toLowerCase()).filter(Boolean).slice(0, 3),
+    releaseDate: published && !Number.isNaN(published.getTime()) ? published.toISOString().slice(0, 10) : null,
+    upc: null,
+  };
+}
+
+/**
+ * The album as its own service describes it; YouTube Music and Tidal have no
+ * public API, so those rely on Odesli alone
+ */
+async function fetchSourceAlbum(link: AlbumUrl): Promise<SourceAlbum | null> {
+  switch (link.service) {
+    case 'deezer':
+      return fetchDeezerAlbum(link.id);
+    case 'appleMusic':
+      return fetchAppleMusicAlbum(link);
+    case 'bandcamp':
+      return fetchBandcampAlbum(link.id);
+    default:
+      return null;
+  }
+}
+
+function fromSpotify(album: AlbumMetadata, link: AlbumUrl): LinkedAlbum {
+  return {
+    spotifyId: album.spotifyId,
+    spotifyUrl: album.spotifyUrl,
+    title: album.title,
+    artist: album.artist,
+    coverUrl: album.coverUrl,
+    tracks: album.tracks,
+    genres: album.genres,
+    releaseDate: album.releaseDate,
+    upc: album.upc,
+    isrcs: album.isrcs,
+    source: link.service,
+    sourceUrl: link.url,
+  };
+}
+
+/**
+ * Resolve a pasted album link on any supported service
+ * Returns null for links that aren't album links or albums that can't be found
+ */
+export async function resolveAlbumUrl(url: string): Promise<LinkedAlbum | null> {
+  const link = parseAlbumUrl(url);
+  if (!link) return null;
+
+  const spotifyConfigured = await isSpotifyConfigured();
+
+  if (link.service === 'spotify') {
+    const album = spotifyConfigured ? await fetchAlbumMetadata(link.url) : null;
+    return album ? fromSpotify(album, link) : null;
+  }
+
+  const [source, odesli] = await Promise.all([
+    fetchSourceAlbum(link).catch((error) => {
+      console.error(`Error fetching album from ${link.service}:`, error);
+      return null;
+    }),
+    lookupOdesli(link.url).catch((error) => {
+      console.error('Error looking up album on Odesli:', error);
+      return null;
+    }),
+  ]);
+
+  // Prefer the Spotify edition when there is one: it has track ISRCs and artist genres
+  if (spotifyConfigured) {
+    const spotifyUrl = odesli?.links.spotify;
+    const spotify = spotifyUrl
+      ? await fetchAlbumMetadata(spotifyUrl)
+      : source?.upc
+        ? await findSpotifyAlbumByUpc(source.upc)
+        : null;
+
+    if (spotify) return fromSpotify(spotify, link);
+  }
+
+  const title = source?.title ?? odesli?.title;
+  const artist = source?.artist ?? odesli?.artist;
+  if (!title || !artist) return null;
+
+  return {
+    spotifyId: null,
+    spotifyUrl: null,
+    title,
+    artist,
+    coverUrl: source?.coverUrl || odesli?.coverUrl || '',
+    tracks: source?.tracks ?? [],
+    genres: source?.genres ?? [],
+    releaseDate: source?.releaseDate ?? null,
+    upc: source?.upc ?? null,
+    isrcs: [],
+    source: link.service,
+    sourceUrl: link.url,
+  };
+}
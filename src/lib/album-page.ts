@@ -0,0 +1,95 @@
+import 'server-only';
+
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import { publicConfig } from '@/config/public-config';
+import { getFarcasterPageMetadata } from '@/neynar-farcaster-sdk/src/nextjs/get-farcaster-page-metadata';
+import { getAlbumById, getAlbumByWeek } from '@/db/actions/cycle-actions';
+import { getAlbumReviews } from '@/db/actions/review-actions';
+import { resolveGroup } from '@/lib/groups';
+import type { AlbumWithPhase } from '@/hooks/use-cycle';
+import type { StreamingLinks } from '@/lib/streaming-services';
+import { albumTracks } from '@/lib/album-tracks';
+import type { TrackStat } from '@/lib/track-ratings';
+
+/**
+ * Public album pages — /album/[id] and /week/[year]/[number]
+ *
+ * Rendered without a session, so only albums in open groups resolve; anything
+ * else is a 404. Loads are cached per request so metadata and the page share
+ * one set of queries.
+ */
+
+export type PageAlbum = NonNullable<Awaited<ReturnType<typeof getAlbumById>>>;
+
+export const loadAlbum = cache(async (albumId: string) => getAlbumById(null, albumId));
+
+/**
+ * The album picked in a week; `groupSlug` defaults to the default group
+ */
+export const loadWeekAlbum = cache(async (year: number, weekNumber: number, groupSlug?: string) => {
+  if (!Number.isInteger(year) || !Number.isInteger(weekNumber)) return null;
+
+  const group = await resolveGroup(groupSlug);
+  if (!group) return null;
+
+  return getAlbumByWeek(null, group.id, year, weekNumber);
+});
+
+/**
+ * The album as the client views it (`useAlbum`'s shape)
+ */
+export function toAlbumData(album: PageAlbum): AlbumWithPhase {
+  return {
+    id: album.id,
+    spotifyId: album.spotifyId,
+    title: album.title,
+    artist: album.artist,
+    coverUrl: album.coverUrl,
+    spotifyUrl: album.spotifyUrl,
+    avgRating: album.avgRating,
+    totalReviews: album.totalReviews,
+    mostLovedTrack: album.mostLovedTrack,
+    mostLovedTrackId: album.mostLovedTrackId,
+    mostLovedTrackVotes: album.mostLovedTrackVotes,
+    weekNumber: album.weekNumber,
+    cyclePhase: album.cyclePhase,
+    submittedByFid: album.submittedByFid,
+    submittedByUserId: album.submittedByUserId ?? null,
+    submittedByUsername: album.submittedByUsername,
+    tracks: albumTracks(album.trackList, album.tracks),
+    trackStats: album.trackStats as TrackStat[] | null,
+    genres: (album.genres as string[] | null) ?? null,
+    submissionNote: album.submissionNote ?? null,
+    streamingLinks: album.streamingLinks as StreamingLinks | null,
+  };
+}
+
+export const loadAlbumReviews = cache(async (albumId: string) => getAlbumReviews(null, albumId));
+
+/**
+ * Page metadata for an album: a mini app embed that launches on `path`, and
+ * OG / embed images rendered from the album's stats (the `review` share image)
+ */
+export async function getAlbumPageMetadata(album: PageAlbum, path: string): Promise<Metadata> {
+  const rating = album.avgRating !== null ? `rated ${album.avgRating}/5` : 'not rated yet';
+
+  return getFarcasterPageMetadata({
+    title: `${album.title} — ${album.artist}`,
+    description: `Week ${album.weekNumber} on ${publicConfig.name}, ${rating} by ${album.totalReviews ?? 0} listeners`,
+    homeUrl: publicConfig.homeUrl,
+    path,
+    splashImageUrl: publicConfig.splashImageUrl,
+    splashBackgroundColor: publicConfig.splashBackgroundColor,
+    buttonTitle: publicConfig.shareButtonTitle,
+    searchParams: Promise.resolve({
+      personalize: 'true',
+      shareType: 'review',
+      albumTitle: album.title,
+      artist: album.artist,
+      weekNumber: album.weekNumber.toString(),
+      avgRating: (album.avgRating ?? 0).toString(),
+      totalReviews: (album.totalReviews ?? 0).toString(),
+    }),
+  });
+}
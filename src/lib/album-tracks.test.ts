@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { albumTracks, tallyFavorites } from '@/lib/album-tracks';
+
+const track = (id: string, number: number, title: string) => ({
+  id, number, disc: 1, title, durationMs: null, explicit: false, previewUrl: null, isrc: null,
+});
+
+describe('tallyFavorites', () => {
+  const tracks = [track('t1', 1, 'Airbag'), track('t2', 2, 'Paranoid Android')];
+
+  it('counts legacy title picks toward the track with that title', () => {
+    const tally = tallyFavorites(
+      [
+        { trackId: 't1', title: 'Airbag', count: 2 },
+        { trackId: null, title: 'Paranoid Android', count: 1 },
+        { trackId: 't2', title: 'Paranoid Android', count: 2 },
+      ],
+      tracks
+    );
+
+    assert.deepEqual(tally, [
+      { trackId: 't2', title: 'Paranoid Android', count: 3 },
+      { trackId: 't1', title: 'Airbag', count: 2 },
+    ]);
+  });
+
+  it('merges picks of a renamed track by id and keeps unmatched titles apart', () => {
+    const tally = tallyFavorites(
+      [
+        { trackId: 't1', title: 'Airbag (Remastered)', count: 1 },
+        { trackId: 't1', title: 'Airbag', count: 1 },
+        { trackId: null, title: 'Lucky', count: 1 },
+      ],
+      tracks
+    );
+
+    assert.deepEqual(tally, [
+      { trackId: 't1', title: 'Airbag (Remastered)', count: 2 },
+      { trackId: null, title: 'Lucky', count: 1 },
+    ]);
+  });
+
+  it('matches picks to positional ids on albums without a track list', () => {
+    const legacy = albumTracks(null, ['Airbag', 'Paranoid Android']) ?? [];
+    const tally = tallyFavorites([{ trackId: null, title: 'Paranoid Android', count: 4 }], legacy);
+
+    assert.deepEqual(tally, [{ trackId: '#2', title: 'Paranoid Android', count: 4 }]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Album tracks — the structured track list stored in `albums.track_list`
+ *
+ * Pure helpers, shared by the data layer, the UI and
+ * scripts/backfill-track-lists.ts. Albums submitted before track lists were
+ * stored only have `albums.tracks` (names); those tracks get positional ids
+ * ("#3") so the favorite-track picker works the same for them.
+ */
+
+export interface AlbumTrack {
+  id: string; // the service's track id — favorites are keyed by it, so renames don't matter
+  number: number; // position on its disc
+  disc: number;
+  title: string;
+  durationMs: number | null;
+  explicit: boolean;
+  previewUrl: string | null;
+  isrc: string | null;
+}
+
+const LEGACY_ID_PREFIX = '#';
+
+/**
+ * An album's tracks in play order: its track list, else its legacy track names
+ */
+export function albumTracks(trackList: unknown, names: unknown): AlbumTrack[] | null {
+  if (Array.isArray(trackList)) {
+    return [...(trackList as AlbumTrack[])].sort((a, b) => a.disc - b.disc || a.number - b.number);
+  }
+
+  if (Array.isArray(names)) {
+    return (names as string[]).map((title, i) => ({
+      id: `${LEGACY_ID_PREFIX}${i + 1}`,
+      number: i + 1,
+      disc: 1,
+      title,
+      durationMs: null,
+      explicit: false,
+      previewUrl: null,
+      isrc: null,
+    }));
+  }
+
+  return null;
+}
+
+/**
+ * Whether a track id is a positional id from `albumTracks`, not a real track id
+ */
+export function isLegacyTrackId(id: string): boolean {
+  return id.startsWith(LEGACY_ID_PREFIX);
+}
+
+export interface FavoriteTally {
+  trackId: string | null; // null when the pick matches no track on the album
+  title: string; // the title as picked
+  count: number;
+}
+
+/**
+ * Favorite picks per track, most picked first
+ * Picks stored by title alone (legacy reviews) count toward the track with that title
+ */
+export function tallyFavorites(picks: FavoriteTally[], tracks: AlbumTrack[]): FavoriteTally[] {
+  const tallies = new Map<string, FavoriteTally>();
+  for (const pick of picks) {
+    const trackId = pick.trackId ?? tracks.find((track) => track.title === pick.title)?.id ?? null;
+    const key = trackId !== null ? `id:${trackId}` : `title:${pick.title}`;
+    const tally = tallies.get(key);
+    if (tally) {
+      tally.count += pick.count;
+    } else {
+      tallies.set(key, { trackId, title: pick.title, count: pick.count });
+    }
+  }
+
+  return [...tallies.values()].sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Total running time, or null when no track has a duration
+ */
+export function albumRuntimeMs(tracks: AlbumTrack[]): number | null {
+  const timed = tracks.filter((track) => track.durationMs !== null);
+  return timed.length > 0 ? timed.reduce((sum, track) => sum + (track.durationMs ?? 0), 0) : null;
+}
+
+/**
+ * A track length, e.g. "3:07"
+ */
+export function formatTrackDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * An album length, e.g. "42 min" or "1 hr 12 min"
+ */
+export function formatRuntime(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} hr ${minutes % 60} min`;
+}
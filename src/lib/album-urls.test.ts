@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseAlbumUrl } from '@/lib/album-urls';
+
+describe('parseAlbumUrl', () => {
+  it('recognizes album links on each service and rebuilds them from the id', () => {
+    const cases: [string, string, string, string][] = [
+      ['https://open.spotify.com/album/4LH4d3cOWNNsVw41Gqt2kv?si=abc', 'spotify', '4LH4d3cOWNNsVw41Gqt2kv', 'https://open.spotify.com/album/4LH4d3cOWNNsVw41Gqt2kv'],
+      ['spotify:album:4LH4d3cOWNNsVw41Gqt2kv', 'spotify', '4LH4d3cOWNNsVw41Gqt2kv', 'https://open.spotify.com/album/4LH4d3cOWNNsVw41Gqt2kv'],
+      ['https://music.apple.com/gb/album/in-rainbows/1109714933?i=1', 'appleMusic', '1109714933', 'https://music.apple.com/gb/album/1109714933'],
+      ['https://music.youtube.com/playlist?list=OLAK5uy_abc-123&si=x', 'youtubeMusic', 'OLAK5uy_abc-123', 'https://music.youtube.com/playlist?list=OLAK5uy_abc-123'],
+      ['https://music.youtube.com/browse/MPREb_xyz', 'youtubeMusic', 'MPREb_xyz', 'https://music.youtube.com/browse/MPREb_xyz'],
+      ['https://www.deezer.com/en/album/302127', 'deezer', '302127', 'https://www.deezer.com/album/302127'],
+      ['https://listen.tidal.com/album/77646164', 'tidal', '77646164', 'https://tidal.com/browse/album/77646164'],
+      ['https://Artist.bandcamp.com/album/Album-Name', 'bandcamp', 'artist/album-name', 'https://artist.bandcamp.com/album/album-name'],
+      ['  open.spotify.com/album/4LH4d3cOWNNsVw41Gqt2kv  ', 'spotify', '4LH4d3cOWNNsVw41Gqt2kv', 'https://open.spotify.com/album/4LH4d3cOWNNsVw41Gqt2kv'],
+    ];
+
+    for (const [input, service, id, url] of cases) {
+      assert.deepEqual(parseAlbumUrl(input), { service, id, url }, input);
+    }
+  });
+
+  it('rejects lookalike hosts', () => {
+    for (const input of [
+      'https://notdeezer.com/album/1',
+      'https://deezer.com.evil.example/album/1',
+      'https://evil-open.spotify.com/album/4LH4d3cOWNNsVw41Gqt2kv',
+      'https://music.apple.com.evil.example/us/album/x/1109714933',
+      'https://fakemusic.youtube.com/browse/MPREb_xyz',
+      'https://eviltidal.com/album/77646164',
+      'https://artist.bandcamp.com.evil.example/album/album-name',
+    ]) {
+      assert.equal(parseAlbumUrl(input), null, input);
+    }
+  });
+
+  it('rejects URLs where the real host only appears in the path, query or credentials', () => {
+    for (const input of [
+      'https://evil.example/?x=foo.bandcamp.com/album/bar',
+      'https://evil.example/open.spotify.com/album/4LH4d3cOWNNsVw41Gqt2kv',
+      'https://evil.example/#www.deezer.com/album/302127',
+      'https://open.spotify.com@evil.example/album/4LH4d3cOWNNsVw41Gqt2kv',
+      'https://music.youtube.com:8443/browse/MPREb_xyz',
+    ]) {
+      assert.equal(parseAlbumUrl(input), null, input);
+    }
+  });
+
+  it('rejects other schemes, search queries and non-album links', () => {
+    for (const input of [
+      'javascript:alert(1)//open.spotify.com/album/4LH4d3cOWNNsVw41Gqt2kv',
+      'in rainbows radiohead',
+      'https://open.spotify.com/track/4LH4d3cOWNNsVw41Gqt2kv',
+      'https://www.deezer.com/en/artist/399',
+      'https://music.youtube.com/playlist?list=PLabc',
+    ]) {
+      assert.equal(parseAlbumUrl(input), null, input);
+    }
+  });
+});
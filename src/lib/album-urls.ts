@@ -0,0 +1,121 @@
+import type { StreamingService } from '@/lib/streaming-services';
+
+/**
+ * Album links — recognizing a pasted album URL on any supported service
+ *
+ * Pure parsing, shared by the submission form (is this a link or a search?)
+ * and the server-side resolver (src/lib/album-links.ts). Hosts are matched
+ * exactly, and what gets stored and shown to the group is a URL rebuilt from
+ * the parsed id, never the pasted text.
+ */
+
+export interface AlbumUrl {
+  service: StreamingService;
+  id: string; // the service's album id (Bandcamp: "<artist>/<album-slug>")
+  url: string; // the canonical album URL, rebuilt from the id
+}
+
+interface AlbumUrlPattern {
+  service: StreamingService;
+  host: RegExp; // matched against the whole hostname
+  match: (url: URL, host: RegExpMatchArray) => { id: string; url: string } | null;
+}
+
+const PATTERNS: AlbumUrlPattern[] = [
+  // https://open.spotify.com/album/4LH4d3cOWNNsVw41Gqt2kv?si=xxx
+  {
+    service: 'spotify',
+    host: /^open\.spotify\.com$/,
+    match: (url) => {
+      const id = url.pathname.match(/^\/(?:intl-[a-z]+\/)?album\/([a-zA-Z0-9]+)\/?$/)?.[1];
+      return id ? { id, url: `https://open.spotify.com/album/${id}` } : null;
+    },
+  },
+  // https://music.apple.com/us/album/in-rainbows/1109714933 (a track link carries ?i=…)
+  // The storefront is kept: some albums only exist in one
+  {
+    service: 'appleMusic',
+    host: /^music\.apple\.com$/,
+    match: (url) => {
+      const m = url.pathname.match(/^\/(?:([a-z]{2})\/)?album\/(?:[^/]+\/)?(?:id)?(\d+)\/?$/);
+      return m ? { id: m[2], url: `https://music.apple.com/${m[1] ?? 'us'}/album/${m[2]}` } : null;
+    },
+  },
+  // https://music.youtube.com/playlist?list=OLAK5uy_…, https://music.youtube.com/browse/MPREb_…
+  {
+    service: 'youtubeMusic',
+    host: /^music\.youtube\.com$/,
+    match: (url) => {
+      const list = url.pathname === '/playlist' ? url.searchParams.get('list') : null;
+      if (list && /^OLAK5uy_[\w-]+$/.test(list)) {
+        return { id: list, url: `https://music.youtube.com/playlist?list=${list}` };
+      }
+      const browse = url.pathname.match(/^\/browse\/(MPREb_[\w-]+)\/?$/)?.[1];
+      return browse ? { id: browse, url: `https://music.youtube.com/browse/${browse}` } : null;
+    },
+  },
+  // https://www.deezer.com/en/album/302127
+  {
+    service: 'deezer',
+    host: /^(?:www\.)?deezer\.com$/,
+    match: (url) => {
+      const id = url.pathname.match(/^\/(?:[a-z]{2}\/)?album\/(\d+)\/?$/)?.[1];
+      return id ? { id, url: `https://www.deezer.com/album/${id}` } : null;
+    },
+  },
+  // https://tidal.com/browse/album/77646164, https://listen.tidal.com/album/77646164
+  {
+    service: 'tidal',
+    host: /^(?:listen\.)?tidal\.com$/,
+    match: (url) => {
+      const id = url.pathname.match(/^\/(?:browse\/)?album\/(\d+)\/?$/)?.[1];
+      return id ? { id, url: `https://tidal.com/browse/album/${id}` } : null;
+    },
+  },
+  // https://artist.bandcamp.com/album/album-name
+  {
+    service: 'bandcamp',
+    host: /^([a-z0-9-]+)\.bandcamp\.com$/,
+    match: (url, host) => {
+      const slug = url.pathname.match(/^\/album\/([a-z0-9-]+)\/?$/i)?.[1]?.toLowerCase();
+      return slug ? { id: `${host[1]}/${slug}`, url: `https://${host[1]}.bandcamp.com/album/${slug}` } : null;
+    },
+  },
+];
+
+/**
+ * The input as an http(s) URL; a link pasted without its scheme gets https
+ */
+function toUrl(input: string): URL | null {
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:/i.test(input) ? input : `https://${input}`);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The service and album id of an album link, or null for anything else
+ * (a search query, a track or artist link, an unsupported or lookalike host)
+ */
+export function parseAlbumUrl(input: string): AlbumUrl | null {
+  const trimmed = input.trim();
+
+  // spotify:album:4LH4d3cOWNNsVw41Gqt2kv
+  const uri = trimmed.match(/^spotify:album:([a-zA-Z0-9]+)$/);
+  if (uri) return { service: 'spotify', id: uri[1], url: `https://open.spotify.com/album/${uri[1]}` };
+
+  const url = toUrl(trimmed);
+  if (!url || url.username || url.password || url.port) return null;
+
+  // URL lowercases the hostname; a trailing dot is the same host
+  const hostname = url.hostname.replace(/\.$/, '');
+  for (const { service, host, match } of PATTERNS) {
+    const hostMatch = hostname.match(host);
+    const album = hostMatch ? match(url, hostMatch) : null;
+    if (album) return { service, ...album };
+  }
+
+  return null;
+}
@@ -0,0 +1,134 @@
+import 'server-only';
+
+import { and, eq, isNotNull, isNull, or, sql } from 'drizzle-orm';
+import { db } from '@/neynar-db-sdk/db';
+import { albums, canonicalAlbums, cycles } from '@/db/schema';
+import { normalizeArtist, normalizeTitle, releaseYearOf } from '@/lib/album-identity';
+
+/**
+ * Canonical albums — one identity for every edition of a record
+ *
+ * Duplicate and past-winner checks compare canonical albums rather than
+ * Spotify ids, so a deluxe edition or regional release of an album counts as
+ * that album. An edition joins an existing canonical album when it shares its
+ * UPC with an edition already linked to it, when at least half of the shorter
+ * tracklist's ISRCs overlap with a linked edition by the same primary artist
+ * (a compilation sharing a couple of songs doesn't count), or when its
+ * normalized title, primary artist and release year match (a canonical album
+ * with no known year matches any year).
+ */
+
+type TxClient = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbClient = typeof db | TxClient;
+
+export interface AlbumEdition {
+  title: string;
+  artist: string;
+  releaseDate?: string | null;
+  upc?: string | null;
+  isrcs?: string[] | null;
+}
+
+/**
+ * The canonical album an edition belongs to, or null for a record not seen before
+ */
+export async function findCanonicalAlbum(edition: AlbumEdition, client: DbClient = db): Promise<string | null> {
+  const isrcs = edition.isrcs ?? [];
+  const artistKey = normalizeArtist(edition.artist);
+
+  if (edition.upc) {
+    const [linked] = await client
+      .select({ canonicalAlbumId: albums.canonicalAlbumId })
+      .from(albums)
+      .where(and(isNotNull(albums.canonicalAlbumId), eq(albums.upc, edition.upc)))
+      .limit(1);
+
+    if (linked?.canonicalAlbumId) return linked.canonicalAlbumId;
+  }
+
+  if (isrcs.length > 0) {
+    const sharing = await client
+      .select({ canonicalAlbumId: canonicalAlbums.id, isrcs: albums.isrcs })
+      .from(albums)
+      .innerJoin(canonicalAlbums, eq(canonicalAlbums.id, albums.canonicalAlbumId))
+      .where(
+        and(
+          eq(canonicalAlbums.artistKey, artistKey),
+          sql`${albums.isrcs} ?| array[${sql.join(isrcs.map((isrc) => sql`${isrc}`), sql`, `)}]`
+        )
+      )
+      .limit(20);
+
+    const wanted = new Set(isrcs);
+    const match = sharing.find((row) => {
+      const theirs = (row.isrcs as string[] | null) ?? [];
+      const shared = theirs.filter((isrc) => wanted.has(isrc)).length;
+      return shared * 2 >= Math.min(theirs.length, isrcs.length);
+    });
+
+    if (match) return match.canonicalAlbumId;
+  }
+
+  const year = releaseYearOf(edition.releaseDate);
+  const [match] = await client
+    .select({ id: canonicalAlbums.id })
+    .from(canonicalAlbums)
+    .where(
+      and(
+        eq(canonicalAlbums.titleKey, normalizeTitle(edition.title)),
+        eq(canonicalAlbums.artistKey, artistKey),
+        year !== null ? or(eq(canonicalAlbums.releaseYear, year), isNull(canonicalAlbums.releaseYear)) : undefined
+      )
+    )
+    .limit(1);
+
+  return match?.id ?? null;
+}
+
+/**
+ * The canonical album for an edition, created if it's a new record
+ * Call inside the transaction that links the edition to it
+ */
+export async function resolveCanonicalAlbum(edition: AlbumEdition, tx: TxClient): Promise<string> {
+  const titleKey = normalizeTitle(edition.title);
+  const artistKey = normalizeArtist(edition.artist);
+
+  // Serialize creation per title so two editions submitted at once share one row
+  await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`canonical:${artistKey}:${titleKey}`}))`);
+
+  const existing = await findCanonicalAlbum(edition, tx);
+  if (existing) return existing;
+
+  const [created] = await tx
+    .insert(canonicalAlbums)
+    .values({
+      titleKey,
+      artistKey,
+      releaseYear: releaseYearOf(edition.releaseDate),
+      title: edition.title,
+      artist: edition.artist,
+    })
+    .returning({ id: canonicalAlbums.id });
+
+  return created.id;
+}
+
+/**
+ * A group's past win of any edition of a canonical album, with its week
+ */
+export async function findPastWinningEdition(groupId: string, canonicalAlbumId: string, client: DbClient = db) {
+  const [winner] = await client
+    .select({ id: albums.id, spotifyId: albums.spotifyId, title: albums.title, weekNumber: cycles.weekNumber })
+    .from(albums)
+    .innerJoin(cycles, eq(cycles.id, albums.cycleId))
+    .where(
+      and(
+        eq(cycles.groupId, groupId),
+        eq(albums.canonicalAlbumId, canonicalAlbumId),
+        eq(albums.status, 'selected')
+      )
+    )
+    .limit(1);
+
+  return winner ?? null;
+}
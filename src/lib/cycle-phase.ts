@@ -0,0 +1,110 @@
+/**
+ * Cycle phase state machine
+ *
+ * Every cycle moves through the same linear sequence:
+ *
+ *   upcoming → voting → listening → reviewing → closed
+ *
+ * `cycles.phase` stores the last phase a transition was recorded for (only
+ * `transitionCycle` in src/lib/cycle-state.ts writes it). Because the cron
+ * tick may lag a few minutes behind the clock, readers use `effectivePhase`,
+ * which never reports a phase earlier than the cycle's timestamps imply.
+ *
+ * Pure and isomorphic — imported by server actions and client components alike.
+ */
+
+export const CYCLE_PHASES = ['upcoming', 'voting', 'listening', 'reviewing', 'closed'] as const;
+
+export type CyclePhase = (typeof CYCLE_PHASES)[number];
+
+/**
+ * The only allowed transition out of each phase
+ */
+export const NEXT_PHASE: Record<CyclePhase, CyclePhase | null> = {
+  upcoming: 'voting',
+  voting: 'listening',
+  listening: 'reviewing',
+  reviewing: 'closed',
+  closed: null,
+};
+
+/**
+ * Audit event recorded in `cycle_events` when a cycle enters each phase
+ */
+export const PHASE_EVENTS: Record<CyclePhase, string> = {
+  upcoming: 'cycle_created',
+  voting: 'voting_opened',
+  listening: 'voting_closed',
+  reviewing: 'reviews_opened',
+  closed: 'cycle_closed',
+};
+
+/**
+ * Member actions that depend on the cycle phase, and where each is allowed
+ */
+export type CycleAction = 'submit' | 'vote' | 'review' | 'editReview';
+
+const ALLOWED_PHASES: Record<CycleAction, CyclePhase[]> = {
+  submit: ['voting'],
+  vote: ['voting'],
+  review: ['reviewing', 'closed'], // archive albums stay open to new reviews
+  editReview: ['reviewing'], // reviews only exist from 'reviewing' on, and lock when the cycle closes
+};
+
+const CLOSED_MESSAGES: Record<CycleAction, string> = {
+  submit: 'Submissions are only open during voting',
+  vote: 'Voting is closed for this cycle',
+  review: 'Reviews are not open for this cycle',
+  editReview: 'Reviews are locked once the cycle closes',
+};
+
+interface CycleTimes {
+  startDate: Date;
+  votingEndsAt: Date;
+  reviewOpensAt: Date | null;
+  endDate: Date;
+}
+
+/**
+ * Phase a cycle should be in at `now`, from its timestamps alone.
+ * null reviewOpensAt = old cycle, reviews opened as soon as voting closed.
+ */
+export function scheduledPhase(cycle: CycleTimes, now: Date): CyclePhase {
+  if (now < cycle.startDate) return 'upcoming';
+  if (now < cycle.votingEndsAt) return 'voting';
+  if (now < (cycle.reviewOpensAt ?? cycle.votingEndsAt)) return 'listening';
+  if (now <= cycle.endDate) return 'reviewing';
+  return 'closed';
+}
+
+/**
+ * Normalize a stored phase value. Unknown values fall back to 'upcoming'
+ * so the schedule decides.
+ */
+export function toCyclePhase(value: string): CyclePhase {
+  return (CYCLE_PHASES as readonly string[]).includes(value) ? (value as CyclePhase) : 'upcoming';
+}
+
+/**
+ * The authoritative phase: the recorded phase, or the scheduled one if the
+ * recorded transition hasn't happened yet.
+ */
+export function effectivePhase(cycle: CycleTimes & { phase: string }, now: Date): CyclePhase {
+  const stored = toCyclePhase(cycle.phase);
+  const scheduled = scheduledPhase(cycle, now);
+  return CYCLE_PHASES.indexOf(scheduled) > CYCLE_PHASES.indexOf(stored) ? scheduled : stored;
+}
+
+/**
+ * Whether an action is allowed in a phase
+ */
+export function canPerform(phase: CyclePhase, action: CycleAction): boolean {
+  return ALLOWED_PHASES[action].includes(phase);
+}
+
+/**
+ * Error message for an action attempted outside its phase
+ */
+export function phaseError(action: CycleAction): string {
+  return CLOSED_MESSAGES[action];
+}
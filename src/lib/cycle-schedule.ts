@@ -0,0 +1,258 @@
+import 'server-only';
+
+import { asc, eq } from 'drizzle-orm';
+import { db } from '@/neynar-db-sdk/db';
+import { cycleSchedules } from '@/db/schema';
+
+/**
+ * Cycle schedule — the single source of cycle boundaries
+ *
+ * Cadence lives in the `cycle_schedules` table so it can change for future
+ * cycles without a redeploy. Each schedule row starts at `effectiveFrom` (a
+ * local midnight in its timezone) and lays out back-to-back cycles from there
+ * until the next row takes over. Boundaries are computed on local calendar
+ * days, so they stay on local midnight even across DST changes. Each group
+ * has its own list of schedules.
+ */
+
+export type CycleSchedule = Pick<
+  typeof cycleSchedules.$inferSelect,
+  | 'timezone'
+  | 'cycleLengthDays'
+  | 'votingLengthDays'
+  | 'reviewOffsetDays'
+  | 'effectiveFrom'
+  | 'votingMode'
+  | 'maxRankedChoices'
+  | 'voteCredits'
+  | 'maxSubmissions'
+>;
+
+export type VotingMode = 'upvote' | 'ranked' | 'quadratic';
+
+const VOTING_MODES: VotingMode[] = ['upvote', 'ranked', 'quadratic'];
+
+export interface CycleBoundaries {
+  weekNumber: number;
+  year: number;
+  startDate: Date;
+  votingEndsAt: Date;
+  reviewOpensAt: Date;
+  endDate: Date;
+  // Voting settings the cycle inherits from its schedule
+  votingMode: VotingMode;
+  maxRankedChoices: number;
+  voteCredits: number;
+  maxSubmissions: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The original Playgroup cadence, seeded when no schedule exists yet.
+ * Anchor: Mar 2 2026 00:00:00 Jakarta = Mar 1 2026 17:00:00 UTC
+ * 14-day cycles: 7 days voting, reviews open on day 12 (3 days before end)
+ */
+export const DEFAULT_CYCLE_SCHEDULE: CycleSchedule = {
+  timezone: 'Asia/Jakarta',
+  cycleLengthDays: 14,
+  votingLengthDays: 7,
+  reviewOffsetDays: 11,
+  effectiveFrom: new Date('2026-03-01T17:00:00.000Z'),
+  votingMode: 'upvote',
+  maxRankedChoices: 3,
+  voteCredits: 5,
+  maxSubmissions: 3,
+};
+
+// ===========================================
+// TIMEZONE HELPERS
+// ===========================================
+
+/**
+ * Calendar date of an instant in a timezone, as a UTC-midnight day number
+ * (days since epoch) so plain integer math can be used on it.
+ */
+function localDayNumber(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return Math.floor(Date.UTC(get('year'), get('month') - 1, get('day')) / DAY_MS);
+}
+
+/**
+ * Offset (local − UTC) of a timezone at a given instant, in ms
+ */
+function timeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * UTC instant of local midnight on a given day number in a timezone
+ */
+function localMidnight(dayNumber: number, timeZone: string): Date {
+  const guess = dayNumber * DAY_MS;
+  const offset = timeZoneOffsetMs(new Date(guess), timeZone);
+  let result = guess - offset;
+  // Re-check once in case the offset changes between the guess and the answer (DST)
+  const corrected = timeZoneOffsetMs(new Date(result), timeZone);
+  if (corrected !== offset) result = guess - corrected;
+  return new Date(result);
+}
+
+/**
+ * The next local midnight after `now` in a timezone — the earliest valid
+ * `effectiveFrom` for a new schedule
+ */
+export function nextLocalMidnight(now: Date, timeZone: string): Date {
+  return localMidnight(localDayNumber(now, timeZone) + 1, timeZone);
+}
+
+// ===========================================
+// BOUNDARIES
+// ===========================================
+
+/**
+ * Compute the boundaries of the cycle that contains `now`.
+ *
+ * `schedules` must be sorted by `effectiveFrom` ascending. Before the first
+ * schedule starts, its first cycle is returned. `weekNumber` counts cycles
+ * from the very first schedule, so it keeps increasing across cadence changes.
+ *
+ * Default cadence example (Jakarta times):
+ *   startDate    = Mar 2  00:00:00
+ *   votingEndsAt = Mar 9  00:00:00  ("Mar 8 midnight")
+ *   reviewOpensAt= Mar 13 00:00:00  (last 3 days of listening)
+ *   endDate      = Mar 15 23:59:59.999
+ *   Next cycle   = Mar 16 00:00:00
+ */
+export function computeCycleBoundaries(now: Date, schedules: CycleSchedule[]): CycleBoundaries {
+  const list = schedules.length > 0 ? schedules : [DEFAULT_CYCLE_SCHEDULE];
+
+  // The active schedule is the last one that has started (or the first, if none has)
+  let activeIndex = 0;
+  list.forEach((s, i) => {
+    if (s.effectiveFrom.getTime() <= now.getTime()) activeIndex = i;
+  });
+
+  // Cycles laid out by earlier schedules (a cut-short final cycle still counts)
+  let previousCycles = 0;
+  for (let i = 0; i < activeIndex; i++) {
+    const from = localDayNumber(list[i].effectiveFrom, list[i].timezone);
+    const until = localDayNumber(list[i + 1].effectiveFrom, list[i].timezone);
+    previousCycles += Math.ceil(Math.max(0, until - from) / list[i].cycleLengthDays);
+  }
+
+  const schedule = list[activeIndex];
+  const tz = schedule.timezone;
+  const anchorDay = localDayNumber(schedule.effectiveFrom, tz);
+  const today = localDayNumber(now, tz);
+  const cycleIndex = Math.max(0, Math.floor((today - anchorDay) / schedule.cycleLengthDays));
+
+  const startDay = anchorDay + cycleIndex * schedule.cycleLengthDays;
+  const startDate = localMidnight(startDay, tz);
+  const votingEndsAt = localMidnight(startDay + schedule.votingLengthDays, tz);
+  const reviewOpensAt = localMidnight(startDay + schedule.reviewOffsetDays, tz);
+  const endDate = new Date(localMidnight(startDay + schedule.cycleLengthDays, tz).getTime() - 1); // 1ms before next cycle
+
+  const weekNumber = previousCycles + cycleIndex + 1; // 1-indexed
+  // Year follows the local start date
+  const year = new Date(startDay * DAY_MS).getUTCFullYear();
+
+  return {
+    weekNumber,
+    year,
+    startDate,
+    votingEndsAt,
+    reviewOpensAt,
+    endDate,
+    votingMode: VOTING_MODES.find((mode) => mode === schedule.votingMode) ?? 'upvote',
+    maxRankedChoices: schedule.maxRankedChoices,
+    voteCredits: schedule.voteCredits,
+    maxSubmissions: schedule.maxSubmissions,
+  };
+}
+
+/**
+ * Load a group's cycle schedules, oldest first.
+ * Seeds the default cadence the first time so the table is always the source of truth.
+ */
+export async function getCycleSchedules(groupId: string): Promise<CycleSchedule[]> {
+  const load = () =>
+    db
+      .select()
+      .from(cycleSchedules)
+      .where(eq(cycleSchedules.groupId, groupId))
+      .orderBy(asc(cycleSchedules.effectiveFrom));
+
+  const rows = await load();
+  if (rows.length > 0) return rows;
+
+  await db.insert(cycleSchedules).values({ ...DEFAULT_CYCLE_SCHEDULE, groupId }).onConflictDoNothing();
+  return load();
+}
+
+/**
+ * Boundaries of a group's cycle containing `now`, using the schedules in the database
+ */
+export async function getCycleBoundaries(groupId: string, now: Date): Promise<CycleBoundaries> {
+  return computeCycleBoundaries(now, await getCycleSchedules(groupId));
+}
+
+/**
+ * Validate a proposed schedule. Returns an error message, or null if valid.
+ */
+export function validateCycleSchedule(schedule: CycleSchedule): string | null {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: schedule.timezone });
+  } catch {
+    return `Unknown timezone: ${schedule.timezone}`;
+  }
+
+  const { cycleLengthDays, votingLengthDays, reviewOffsetDays, effectiveFrom } = schedule;
+  if (![cycleLengthDays, votingLengthDays, reviewOffsetDays].every(Number.isInteger)) {
+    return 'Lengths must be whole days';
+  }
+  if (votingLengthDays < 1 || votingLengthDays >= cycleLengthDays) {
+    return 'Voting must last at least 1 day and end before the cycle does';
+  }
+  if (reviewOffsetDays < votingLengthDays || reviewOffsetDays >= cycleLengthDays) {
+    return 'Reviews must open after voting closes and before the cycle ends';
+  }
+  if (!VOTING_MODES.some((mode) => mode === schedule.votingMode)) {
+    return `votingMode must be one of: ${VOTING_MODES.join(', ')}`;
+  }
+  if (!Number.isInteger(schedule.maxRankedChoices) || schedule.maxRankedChoices < 1) {
+    return 'maxRankedChoices must be a whole number of at least 1';
+  }
+  if (!Number.isInteger(schedule.voteCredits) || schedule.voteCredits < 1) {
+    return 'voteCredits must be a whole number of at least 1';
+  }
+  if (!Number.isInteger(schedule.maxSubmissions) || schedule.maxSubmissions < 1) {
+    return 'maxSubmissions must be a whole number of at least 1';
+  }
+  if (Number.isNaN(effectiveFrom.getTime())) {
+    return 'effectiveFrom must be a valid date';
+  }
+  if (localMidnight(localDayNumber(effectiveFrom, schedule.timezone), schedule.timezone).getTime() !== effectiveFrom.getTime()) {
+    return `effectiveFrom must be local midnight in ${schedule.timezone}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,272 @@
+import 'server-only';
+
+import { db } from '@/neynar-db-sdk/db';
+import { cycles, cycleEvents, albums, votes, rankedBallots } from '@/db/schema';
+import { eq, and, asc, sql, getTableColumns } from 'drizzle-orm';
+import type { CycleBoundaries } from '@/lib/cycle-schedule';
+import {
+  NEXT_PHASE,
+  PHASE_EVENTS,
+  canPerform,
+  effectivePhase,
+  phaseError,
+  type CycleAction,
+  type CyclePhase,
+} from '@/lib/cycle-phase';
+import { runInstantRunoff } from '@/lib/instant-runoff';
+
+/**
+ * Cycle state — the only code that writes `cycles.phase`
+ *
+ * `createCycle` inserts a cycle in 'upcoming'; `transitionCycle` moves it one
+ * step along the state machine in src/lib/cycle-phase.ts. Both record the
+ * change in `cycle_events` in the same transaction. Server actions consult
+ * `checkCyclePhase` before any phase-dependent write.
+ */
+
+export type TransitionActor = 'cron' | 'admin';
+
+export interface CycleTransition {
+  cycleId: string;
+  groupId: string;
+  weekNumber: number;
+  event: string;
+  fromPhase: CyclePhase | null;
+  toPhase: CyclePhase;
+  details: Record<string, unknown> | null;
+}
+
+type TxClient = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbClient = typeof db | TxClient;
+
+// ===========================================
+// PHASE SIDE EFFECTS
+// ===========================================
+
+interface WinnerPick {
+  id: string;
+  title: string;
+  artist: string;
+  summary: Record<string, unknown>; // mode-specific detail for the audit event
+}
+
+/**
+ * Upvote and quadratic modes: highest weighted vote total wins,
+ * earliest submission breaks ties
+ */
+async function pickUpvoteWinner(tx: TxClient, cycleId: string): Promise<WinnerPick | null> {
+  // Single aggregating query replaces N+1 vote-count loop
+  const albumsWithVotes = await tx
+    .select({
+      ...getTableColumns(albums),
+      voteCount: sql<number>`coalesce(sum(${votes.weight}), 0)::int`,
+    })
+    .from(albums)
+    .leftJoin(votes, eq(votes.albumId, albums.id))
+    .where(and(eq(albums.cycleId, cycleId), eq(albums.status, 'voting')))
+    .groupBy(albums.id);
+
+  if (albumsWithVotes.length === 0) return null;
+
+  // Find the highest vote count
+  const maxVotes = Math.max(...albumsWithVotes.map((a) => a.voteCount));
+  const topAlbums = albumsWithVotes.filter((a) => a.voteCount === maxVotes);
+
+  // Tiebreaker: earliest submission wins
+  topAlbums.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const winner = topAlbums[0];
+
+  return { id: winner.id, title: winner.title, artist: winner.artist, summary: { votes: winner.voteCount } };
+}
+
+/**
+ * Ranked mode: instant runoff over every ballot; the round-by-round
+ * result is stored on the cycle for the Vote tab
+ */
+async function pickRankedWinner(tx: TxClient, cycleId: string): Promise<WinnerPick | null> {
+  const candidates = await tx
+    .select({ id: albums.id, title: albums.title, artist: albums.artist, createdAt: albums.createdAt })
+    .from(albums)
+    .where(and(eq(albums.cycleId, cycleId), eq(albums.status, 'voting')));
+
+  if (candidates.length === 0) return null;
+
+  const rows = await tx
+    .select({ voterId: rankedBallots.voterId, albumId: rankedBallots.albumId })
+    .from(rankedBallots)
+    .where(eq(rankedBallots.cycleId, cycleId))
+    .orderBy(asc(rankedBallots.voterId), asc(rankedBallots.rank));
+
+  // Group rows into one ordered ballot per voter
+  const ballots = new Map<string, string[]>();
+  for (const row of rows) {
+    ballots.set(row.voterId, [...(ballots.get(row.voterId) ?? []), row.albumId]);
+  }
+
+  const result = runInstantRunoff(
+    candidates.map((c) => ({ id: c.id, title: c.title, artist: c.artist, submittedAt: c.createdAt.toISOString() })),
+    [...ballots.values()]
+  );
+
+  await tx
+    .update(cycles)
+    .set({ runoffResult: result })
+    .where(eq(cycles.id, cycleId));
+
+  const winner = candidates.find((c) => c.id === result.winnerId);
+  if (!winner) return null;
+
+  return {
+    id: winner.id,
+    title: winner.title,
+    artist: winner.artist,
+    summary: { ballots: result.totalBallots, rounds: result.rounds.length },
+  };
+}
+
+/**
+ * Entering 'listening': pick the winner with the cycle's voting mode,
+ * mark the rest as lost and record the winner.
+ */
+async function selectWinner(tx: TxClient, cycleId: string): Promise<Record<string, unknown>> {
+  const [cycle] = await tx
+    .select({ votingMode: cycles.votingMode })
+    .from(cycles)
+    .where(eq(cycles.id, cycleId))
+    .limit(1);
+
+  const winner =
+    cycle?.votingMode === 'ranked'
+      ? await pickRankedWinner(tx, cycleId)
+      : await pickUpvoteWinner(tx, cycleId);
+
+  // No submissions — listening with no winner
+  if (!winner) return { winnerId: null };
+
+  await tx
+    .update(albums)
+    .set({ status: 'selected' })
+    .where(eq(albums.id, winner.id));
+
+  // Update all other voting albums to 'lost'
+  await tx
+    .update(albums)
+    .set({ status: 'lost' })
+    .where(and(eq(albums.cycleId, cycleId), eq(albums.status, 'voting')));
+
+  await tx
+    .update(cycles)
+    .set({ winnerId: winner.id })
+    .where(eq(cycles.id, cycleId));
+
+  return { winnerId: winner.id, title: winner.title, artist: winner.artist, ...winner.summary };
+}
+
+// ===========================================
+// TRANSITIONS
+// ===========================================
+
+/**
+ * Insert a new cycle for a group in the 'upcoming' phase and record its creation
+ */
+export async function createCycle(
+  tx: TxClient,
+  groupId: string,
+  boundaries: CycleBoundaries,
+  actor: TransitionActor
+): Promise<CycleTransition> {
+  const [created] = await tx
+    .insert(cycles)
+    .values({
+      groupId,
+      weekNumber: boundaries.weekNumber,
+      year: boundaries.year,
+      phase: 'upcoming',
+      startDate: boundaries.startDate,
+      endDate: boundaries.endDate,
+      votingEndsAt: boundaries.votingEndsAt,
+      reviewOpensAt: boundaries.reviewOpensAt,
+      votingMode: boundaries.votingMode,
+      maxRankedChoices: boundaries.maxRankedChoices,
+      voteCredits: boundaries.voteCredits,
+      maxSubmissions: boundaries.maxSubmissions,
+    })
+    .returning();
+
+  await tx.insert(cycleEvents).values({
+    cycleId: created.id,
+    event: PHASE_EVENTS.upcoming,
+    fromPhase: null,
+    toPhase: 'upcoming',
+    actor,
+  });
+
+  return {
+    cycleId: created.id,
+    groupId,
+    weekNumber: created.weekNumber,
+    event: PHASE_EVENTS.upcoming,
+    fromPhase: null,
+    toPhase: 'upcoming',
+    details: null,
+  };
+}
+
+/**
+ * Move a cycle from `from` to the next phase.
+ *
+ * The phase update is a compare-and-set on `from`, so concurrent callers
+ * can't both perform the same transition: the loser gets null back.
+ * Throws if `to` isn't the successor of `from`.
+ */
+export async function transitionCycle(
+  cycleId: string,
+  from: CyclePhase,
+  to: CyclePhase,
+  actor: TransitionActor
+): Promise<CycleTransition | null> {
+  if (NEXT_PHASE[from] !== to) {
+    throw new Error(`Invalid cycle transition: ${from} → ${to}`);
+  }
+
+  return await db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(cycles)
+      .set({ phase: to })
+      .where(and(eq(cycles.id, cycleId), eq(cycles.phase, from)))
+      .returning({ groupId: cycles.groupId, weekNumber: cycles.weekNumber });
+
+    if (!updated) return null; // Already transitioned by another caller
+
+    const details = to === 'listening' ? await selectWinner(tx, cycleId) : null;
+    const event = PHASE_EVENTS[to];
+
+    await tx.insert(cycleEvents).values({ cycleId, event, fromPhase: from, toPhase: to, actor, details });
+
+    return { cycleId, groupId: updated.groupId, weekNumber: updated.weekNumber, event, fromPhase: from, toPhase: to, details };
+  });
+}
+
+// ===========================================
+// GUARDS
+// ===========================================
+
+/**
+ * Check that `action` is allowed in the cycle's current phase.
+ * Returns an error message, or null if allowed.
+ */
+export async function checkCyclePhase(
+  cycleId: string,
+  action: CycleAction,
+  client: DbClient = db
+): Promise<string | null> {
+  const [cycle] = await client
+    .select()
+    .from(cycles)
+    .where(eq(cycles.id, cycleId))
+    .limit(1);
+
+  if (!cycle) return 'Cycle not found';
+
+  return canPerform(effectivePhase(cycle, new Date()), action) ? null : phaseError(action);
+}
@@ -0,0 +1,184 @@
+import 'server-only';
+
+import { db } from '@/neynar-db-sdk/db';
+import { cycles, groupMembers, users } from '@/db/schema';
+import { and, asc, desc, eq, sql, lte, gte, ne, isNotNull } from 'drizzle-orm';
+import { getCycleBoundaries } from '@/lib/cycle-schedule';
+import { listGroups, DEFAULT_GROUP_SLUG, type Group } from '@/lib/groups';
+import { createCycle, transitionCycle, type CycleTransition } from '@/lib/cycle-state';
+import { CYCLE_PHASES, NEXT_PHASE, scheduledPhase, toCyclePhase, type CyclePhase } from '@/lib/cycle-phase';
+import { sendAppNotification } from '@/lib/notifications';
+
+/**
+ * Scheduled cycle transitions
+ *
+ * Called by /api/cron/tick every few minutes. Each tick creates each group's
+ * cycle covering now if it's missing, then walks every unfinished cycle forward
+ * through the state machine until its phase matches its timestamps. Each
+ * step goes through `transitionCycle`, which records it in `cycle_events`
+ * and can't run twice, so the tick is idempotent.
+ */
+
+/**
+ * Transitions older than this are still recorded but not announced,
+ * so a late first tick (or catching up old cycles) doesn't spam users.
+ */
+const ANNOUNCE_WINDOW_MS = 6 * 60 * 60 * 1000;
+
+// ===========================================
+// CYCLE CREATION
+// ===========================================
+
+/**
+ * Create a group's cycle covering `now` if there isn't one yet.
+ * A group whose first schedule hasn't started gets its first cycle early, as 'upcoming'.
+ * An advisory lock per group serializes concurrent ticks so only one cycle is created.
+ */
+async function openCurrentCycle(groupId: string, now: Date): Promise<CycleTransition | null> {
+  const boundaries = await getCycleBoundaries(groupId, now);
+
+  return await db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`playgroup:open-cycle:${groupId}`}))`);
+
+    // A running or already-created future cycle means there's nothing to open
+    const [open] = await tx
+      .select({ id: cycles.id })
+      .from(cycles)
+      .where(and(eq(cycles.groupId, groupId), gte(cycles.endDate, now)))
+      .limit(1);
+
+    if (open) return null;
+
+    // Use max(computed, group's DB max + 1) to avoid weekNumber collisions
+    const [last] = await tx
+      .select({ weekNumber: cycles.weekNumber })
+      .from(cycles)
+      .where(eq(cycles.groupId, groupId))
+      .orderBy(desc(cycles.weekNumber))
+      .limit(1);
+
+    const weekNumber = Math.max(boundaries.weekNumber, (last?.weekNumber ?? 0) + 1);
+
+    return await createCycle(tx, groupId, { ...boundaries, weekNumber }, 'cron');
+  });
+}
+
+// ===========================================
+// ANNOUNCEMENTS
+// ===========================================
+
+/**
+ * Farcaster ids of a group's members, the audience for its announcements
+ */
+async function memberFids(groupId: string): Promise<number[]> {
+  const rows = await db
+    .select({ fid: users.fid })
+    .from(groupMembers)
+    .innerJoin(users, eq(users.id, groupMembers.userId))
+    .where(and(eq(groupMembers.groupId, groupId), isNotNull(users.fid)));
+
+  return rows.flatMap((r) => (r.fid ? [r.fid] : []));
+}
+
+/**
+ * Notify users about a transition. Keyed on cycle + event so a retried
+ * announcement is deduplicated by Neynar.
+ *
+ * The default group announces to everyone; other groups only to their members.
+ */
+async function announce(transition: CycleTransition, group: Group | undefined) {
+  const isDefaultGroup = !group || group.slug === DEFAULT_GROUP_SLUG;
+  const week = isDefaultGroup ? `Week ${transition.weekNumber}` : `${group.name} week ${transition.weekNumber}`;
+
+  let targetFids: number[] | undefined;
+  if (!isDefaultGroup) {
+    targetFids = await memberFids(group.id);
+    if (targetFids.length === 0) return; // an empty list would mean everyone
+  }
+
+  const notify = (title: string, body: string) =>
+    sendAppNotification({ uuid: `${transition.cycleId}:${transition.event}`, title, body, targetFids });
+
+  switch (transition.toPhase) {
+    case 'voting':
+      await notify(`${week} voting is open`, 'Submit an album and vote for what we listen to next.');
+      break;
+    case 'listening': {
+      const details = transition.details as { title?: string; artist?: string } | null;
+      if (!details?.title) break; // no submissions, nothing to announce
+      await notify(`${week} album is picked`, `${details.title} by ${details.artist} won the vote. Start listening!`);
+      break;
+    }
+    case 'reviewing':
+      await notify('Reviews are open', `How did the ${week} album land? Write your review before the cycle ends.`);
+      break;
+    default:
+      // 'upcoming' and 'closed' are covered by the announcements around them
+      break;
+  }
+}
+
+// ===========================================
+// TICK
+// ===========================================
+
+/**
+ * When a phase became due, used to decide whether it's fresh enough to announce
+ */
+function phaseDueAt(cycle: typeof cycles.$inferSelect, phase: CyclePhase): Date {
+  switch (phase) {
+    case 'upcoming':
+      return cycle.createdAt;
+    case 'voting':
+      return cycle.startDate;
+    case 'listening':
+      return cycle.votingEndsAt;
+    case 'reviewing':
+      return cycle.reviewOpensAt ?? cycle.votingEndsAt;
+    case 'closed':
+      return cycle.endDate;
+  }
+}
+
+/**
+ * Perform every transition that is due at `now`, oldest cycle first.
+ * Safe to call repeatedly; returns only the transitions this call performed.
+ */
+export async function runCycleTick(now: Date = new Date()): Promise<CycleTransition[]> {
+  const performed: { transition: CycleTransition; dueAt: Date }[] = [];
+
+  const allGroups = await listGroups();
+  for (const group of allGroups) {
+    const created = await openCurrentCycle(group.id, now);
+    if (created) performed.push({ transition: created, dueAt: now });
+  }
+
+  const openCycles = await db
+    .select()
+    .from(cycles)
+    .where(and(lte(cycles.startDate, now), ne(cycles.phase, 'closed')))
+    .orderBy(asc(cycles.startDate));
+
+  for (const cycle of openCycles) {
+    const target = scheduledPhase(cycle, now);
+    let phase = toCyclePhase(cycle.phase);
+
+    // Step one phase at a time so every phase's side effects and event happen
+    while (CYCLE_PHASES.indexOf(phase) < CYCLE_PHASES.indexOf(target)) {
+      const next = NEXT_PHASE[phase]!;
+      const transition = await transitionCycle(cycle.id, phase, next, 'cron');
+      if (!transition) break; // another tick got here first
+      performed.push({ transition, dueAt: phaseDueAt(cycle, next) });
+      phase = next;
+    }
+  }
+
+  const groupsById = new Map(allGroups.map((g) => [g.id, g]));
+  for (const { transition, dueAt } of performed) {
+    if (now.getTime() - dueAt.getTime() <= ANNOUNCE_WINDOW_MS) {
+      await announce(transition, groupsById.get(transition.groupId));
+    }
+  }
+
+  return performed.map(({ transition }) => transition);
+}
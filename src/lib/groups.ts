@@ -0,0 +1,181 @@
+import 'server-only';
+
+import { and, asc, eq, inArray, or } from 'drizzle-orm';
+import { db } from '@/neynar-db-sdk/db';
+import { groups, groupMembers, cycles, albums } from '@/db/schema';
+import type { SessionUser } from '@/lib/session';
+
+/**
+ * Groups — independent listening clubs on one deployment
+ *
+ * Every cycle and schedule belongs to a group; albums, votes, ballots and
+ * reviews hang off cycles, so they are group-scoped through `cycles.group_id`.
+ * The original club is the default group, created on first use.
+ *
+ * Open groups are visible to everyone and joined by opening them. Invite-only
+ * groups are visible to members only and joined with an invite code; every
+ * server action checks access with `checkGroupAccess` / `checkCycleAccess` /
+ * `checkAlbumAccess`, or filters with `visibleCycleIds`.
+ */
+
+export type Group = typeof groups.$inferSelect;
+
+export type GroupVisibility = 'open' | 'invite';
+
+export type GroupRole = 'owner' | 'moderator' | 'member';
+
+export const GROUP_ROLES: GroupRole[] = ['owner', 'moderator', 'member'];
+
+type TxClient = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbClient = typeof db | TxClient;
+
+export const DEFAULT_GROUP_SLUG = 'playgroup';
+
+const DEFAULT_GROUP_NAME = 'Playgroup';
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * The default group. Seeded the first time so there is always one.
+ */
+export async function getDefaultGroup(): Promise<Group> {
+  const [existing] = await db.select().from(groups).where(eq(groups.slug, DEFAULT_GROUP_SLUG)).limit(1);
+  if (existing) return existing;
+
+  await db.insert(groups).values({ slug: DEFAULT_GROUP_SLUG, name: DEFAULT_GROUP_NAME }).onConflictDoNothing();
+  const [seeded] = await db.select().from(groups).where(eq(groups.slug, DEFAULT_GROUP_SLUG)).limit(1);
+  return seeded;
+}
+
+/**
+ * All groups, default group first, then oldest first
+ */
+export async function listGroups(): Promise<Group[]> {
+  const defaultGroup = await getDefaultGroup();
+  const rows = await db.select().from(groups).orderBy(asc(groups.createdAt));
+  return [defaultGroup, ...rows.filter((g) => g.id !== defaultGroup.id)];
+}
+
+/**
+ * Look up a group by slug; no slug means the default group.
+ * Returns null for an unknown slug.
+ */
+export async function resolveGroup(slug?: string | null): Promise<Group | null> {
+  if (!slug || slug === DEFAULT_GROUP_SLUG) return getDefaultGroup();
+
+  const [group] = await db.select().from(groups).where(eq(groups.slug, slug)).limit(1);
+  return group ?? null;
+}
+
+/**
+ * Validate a proposed group. Returns an error message, or null if valid.
+ */
+export function validateGroup(group: { slug: string; name: string; visibility: string }): string | null {
+  if (!SLUG_PATTERN.test(group.slug) || group.slug.length > 40) {
+    return 'slug must be lowercase letters, numbers and dashes (max 40)';
+  }
+  if (!group.name.trim() || group.name.length > 60) {
+    return 'name is required (max 60 characters)';
+  }
+  if (group.visibility !== 'open' && group.visibility !== 'invite') {
+    return "visibility must be 'open' or 'invite'";
+  }
+  return null;
+}
+
+// ===========================================
+// ACCESS
+// ===========================================
+
+/**
+ * A user's role in a group, or null if they haven't joined it
+ */
+export async function getGroupRole(groupId: string, userId: string, client: DbClient = db): Promise<GroupRole | null> {
+  const [membership] = await client
+    .select({ role: groupMembers.role })
+    .from(groupMembers)
+    .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)))
+    .limit(1);
+
+  return GROUP_ROLES.find((role) => role === membership?.role) ?? null;
+}
+
+/**
+ * Check that `user` (null = signed out) may see and act in a group.
+ * Open groups admit everyone; invite-only groups admit members only.
+ * Returns an error message, or null if allowed.
+ */
+export async function checkGroupAccess(
+  groupId: string,
+  user: SessionUser | null,
+  client: DbClient = db
+): Promise<string | null> {
+  const [group] = await client
+    .select({ visibility: groups.visibility })
+    .from(groups)
+    .where(eq(groups.id, groupId))
+    .limit(1);
+
+  if (!group) return 'Group not found';
+  if (group.visibility === 'open') return null;
+  if (!user) return 'Sign in to see this group';
+
+  return (await getGroupRole(groupId, user.id, client)) ? null : 'This group is invite-only';
+}
+
+/**
+ * `checkGroupAccess` for the group a cycle belongs to
+ */
+export async function checkCycleAccess(
+  cycleId: string,
+  user: SessionUser | null,
+  client: DbClient = db
+): Promise<string | null> {
+  const [cycle] = await client
+    .select({ groupId: cycles.groupId })
+    .from(cycles)
+    .where(eq(cycles.id, cycleId))
+    .limit(1);
+
+  if (!cycle) return 'Cycle not found';
+  return checkGroupAccess(cycle.groupId, user, client);
+}
+
+/**
+ * `checkGroupAccess` for the group an album was submitted to
+ */
+export async function checkAlbumAccess(
+  albumId: string,
+  user: SessionUser | null,
+  client: DbClient = db
+): Promise<string | null> {
+  const [album] = await client
+    .select({ groupId: cycles.groupId })
+    .from(albums)
+    .innerJoin(cycles, eq(cycles.id, albums.cycleId))
+    .where(eq(albums.id, albumId))
+    .limit(1);
+
+  if (!album) return 'Album not found';
+  return checkGroupAccess(album.groupId, user, client);
+}
+
+/**
+ * Subquery of the cycle ids a viewer may see — every open group's cycles plus
+ * those of the invite-only groups they belong to. Use with `inArray`.
+ */
+export function visibleCycleIds(viewerId: string | null) {
+  const isOpen = eq(groups.visibility, 'open');
+  const isMember = viewerId
+    ? inArray(
+        groups.id,
+        db.select({ groupId: groupMembers.groupId }).from(groupMembers).where(eq(groupMembers.userId, viewerId))
+      )
+    : undefined;
+
+  return db
+    .select({ id: cycles.id })
+    .from(cycles)
+    .innerJoin(groups, eq(groups.id, cycles.groupId))
+    .where(isMember ? or(isOpen, isMember) : isOpen);
+}
@@ -0,0 +1,16 @@
+/**
+ * Ids — checks for ids that come from outside the app (URLs, deep links)
+ *
+ * Pure and isomorphic. Row ids are uuids, and Postgres rejects a malformed
+ * uuid with an error rather than matching nothing, so ids from a URL are
+ * checked before they reach a query.
+ */
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a string is a uuid (any version)
+ */
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
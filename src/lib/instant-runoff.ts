@@ -0,0 +1,77 @@
+/**
+ * Instant-runoff (ranked-choice) tally
+ *
+ * Each round counts every ballot for its highest-ranked candidate still in
+ * the race. A candidate with a majority of the ballots still counting wins;
+ * otherwise the candidate with the fewest votes is eliminated and its ballots
+ * move to their next choice. Ties for last place eliminate the most recent
+ * submission, matching the upvote mode's "earliest submission wins" rule.
+ *
+ * Pure and isomorphic — the result is stored on the cycle and rendered as is.
+ */
+
+export interface RunoffCandidate {
+  id: string;
+  title: string;
+  artist: string;
+  submittedAt: string; // ISO timestamp, used for tie-breaks
+}
+
+export interface RunoffRound {
+  round: number;
+  tallies: Record<string, number>; // candidate id → votes this round
+  exhausted: number; // ballots with no remaining choices
+  eliminated: string | null; // candidate id removed after this round
+}
+
+export interface RunoffResult {
+  candidates: RunoffCandidate[];
+  totalBallots: number;
+  rounds: RunoffRound[];
+  winnerId: string | null;
+}
+
+/**
+ * Run an instant-runoff count.
+ * `ballots` are candidate ids in preference order; ids not in `candidates` are ignored.
+ */
+export function runInstantRunoff(candidates: RunoffCandidate[], ballots: string[][]): RunoffResult {
+  const remaining = new Set(candidates.map((c) => c.id));
+  const submittedAt = new Map(candidates.map((c) => [c.id, c.submittedAt]));
+  const rounds: RunoffRound[] = [];
+
+  if (candidates.length === 0) {
+    return { candidates, totalBallots: ballots.length, rounds, winnerId: null };
+  }
+
+  while (remaining.size > 0) {
+    const tallies: Record<string, number> = {};
+    for (const id of remaining) tallies[id] = 0;
+
+    let exhausted = 0;
+    for (const ballot of ballots) {
+      const choice = ballot.find((id) => remaining.has(id));
+      if (choice) tallies[choice]++;
+      else exhausted++;
+    }
+
+    const counting = ballots.length - exhausted;
+    const ordered = [...remaining].sort(
+      (a, b) => tallies[b] - tallies[a] || submittedAt.get(a)!.localeCompare(submittedAt.get(b)!)
+    );
+    const leader = ordered[0];
+
+    // Majority of counting ballots, or the last one standing
+    if (tallies[leader] * 2 > counting || remaining.size === 1) {
+      rounds.push({ round: rounds.length + 1, tallies, exhausted, eliminated: null });
+      return { candidates, totalBallots: ballots.length, rounds, winnerId: leader };
+    }
+
+    // Fewest votes is eliminated; among equals, the latest submission goes first
+    const eliminated = ordered[ordered.length - 1];
+    rounds.push({ round: rounds.length + 1, tallies, exhausted, eliminated });
+    remaining.delete(eliminated);
+  }
+
+  return { candidates, totalBallots: ballots.length, rounds, winnerId: null };
+}
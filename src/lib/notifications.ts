@@ -0,0 +1,57 @@
+import 'server-only';
+
+import { privateConfig } from '@/config/private-config';
+import { publicConfig } from '@/config/public-config';
+
+/**
+ * Mini app notifications via Neynar managed notifications
+ *
+ * Neynar stores the notification tokens of every user who added the app
+ * (`webhookUrl` in the manifest points at Neynar), so we only send the
+ * message. An empty `target_fids` list means "everyone with notifications on".
+ */
+
+const NEYNAR_NOTIFICATIONS_URL = 'https://api.neynar.com/v2/farcaster/frame/notifications/';
+
+export interface AppNotification {
+  /** Stable id — Neynar drops repeats with the same uuid */
+  uuid: string;
+  title: string; // max 32 chars
+  body: string; // max 128 chars
+  targetPath?: string; // path inside the app, defaults to home
+  targetFids?: number[]; // defaults to everyone
+}
+
+/**
+ * Send a notification to the target users (or everyone) who enabled notifications.
+ * Failures are logged, never thrown — a missed announcement must not block a transition.
+ */
+export async function sendAppNotification(notification: AppNotification): Promise<boolean> {
+  try {
+    const response = await fetch(NEYNAR_NOTIFICATIONS_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': privateConfig.neynarApiKey,
+      },
+      body: JSON.stringify({
+        target_fids: notification.targetFids ?? [],
+        notification: {
+          uuid: notification.uuid,
+          title: notification.title.slice(0, 32),
+          body: notification.body.slice(0, 128),
+          target_url: `${publicConfig.homeUrl}${notification.targetPath ?? ''}`,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      console.error('Failed to send notification:', response.status, await response.text());
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Failed to send notification:', error);
+    return false;
+  }
+}
@@ -0,0 +1,48 @@
+import 'server-only';
+
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import { publicConfig } from '@/config/public-config';
+import { getFarcasterPageMetadata } from '@/neynar-farcaster-sdk/src/nextjs/get-farcaster-page-metadata';
+import { getProfile, getUserByUsername } from '@/db/actions/profile-actions';
+
+/**
+ * Public profile pages — /u/[username]
+ *
+ * Rendered without a session, so the stats only count activity in open
+ * groups. Loads are cached per request so metadata and the page share one set
+ * of queries.
+ */
+
+export type PageUser = NonNullable<Awaited<ReturnType<typeof getUserByUsername>>>;
+
+export const loadUser = cache(async (username: string) => getUserByUsername(decodeURIComponent(username)));
+
+export const loadProfile = cache(async (userId: string) => getProfile(null, userId));
+
+/**
+ * Page metadata for a profile: a mini app embed that launches on the profile,
+ * and OG / embed images rendered from its stats (the `profile` share image)
+ */
+export async function getProfilePageMetadata(user: PageUser): Promise<Metadata> {
+  const { stats } = await loadProfile(user.userId);
+
+  return getFarcasterPageMetadata({
+    title: `@${user.username} on ${publicConfig.name}`,
+    description: `${stats.totalSubmissions} albums submitted, ${stats.totalWins} picked, ${stats.totalReviews} reviews written`,
+    homeUrl: publicConfig.homeUrl,
+    path: `/u/${encodeURIComponent(user.username)}`,
+    splashImageUrl: publicConfig.splashImageUrl,
+    splashBackgroundColor: publicConfig.splashBackgroundColor,
+    buttonTitle: publicConfig.shareButtonTitle,
+    searchParams: Promise.resolve({
+      personalize: 'true',
+      shareType: 'profile',
+      username: user.username,
+      totalSubmissions: stats.totalSubmissions.toString(),
+      totalWins: stats.totalWins.toString(),
+      totalReviews: stats.totalReviews.toString(),
+      avgRating: stats.avgRatingGiven?.toString() ?? '-',
+    }),
+  });
+}
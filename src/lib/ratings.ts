@@ -0,0 +1,41 @@
+/**
+ * Ratings — album ratings in half stars
+ *
+ * Pure helpers, shared by the data layer (`validateReview`), the review form's
+ * half-star picker and every place a rating is shown, including share images.
+ * Ratings are stored as `reviews.rating` (real) in 0.5 steps from 0.5 to 5;
+ * averages keep one decimal.
+ */
+
+export const MIN_RATING = 0.5;
+export const MAX_RATING = 5;
+export const RATING_STEP = 0.5;
+
+/**
+ * Whether a rating is on the half-star scale
+ */
+export function isValidRating(rating: number): boolean {
+  return (
+    Number.isFinite(rating) &&
+    rating >= MIN_RATING &&
+    rating <= MAX_RATING &&
+    Number.isInteger(rating / RATING_STEP)
+  );
+}
+
+/**
+ * A rating or average for display, e.g. "4", "3.5" or "4.2"; "-" when there is none
+ */
+export function formatRating(rating: number | string | null | undefined): string {
+  const value = typeof rating === 'string' ? parseFloat(rating) : rating;
+  if (value === null || value === undefined || !Number.isFinite(value)) return '-';
+  return String(Math.round(value * 10) / 10);
+}
+
+/**
+ * A rating as stars rounded to the nearest half, e.g. "★★★½"
+ */
+export function ratingStars(rating: number): string {
+  const halves = Math.round(Math.min(Math.max(rating, 0), MAX_RATING) / RATING_STEP);
+  return '★'.repeat(Math.floor(halves / 2)) + (halves % 2 === 1 ? '½' : '');
+}
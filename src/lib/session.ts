@@ -0,0 +1,156 @@
+import 'server-only';
+
+import { createClient } from '@farcaster/quick-auth';
+import { createRemoteJWKSet, decodeJwt, jwtVerify } from 'jose';
+import { eq } from 'drizzle-orm';
+import { db } from '@/neynar-db-sdk/db';
+import { users } from '@/db/schema';
+import { publicConfig } from '@/config/public-config';
+import { privateConfig } from '@/config/private-config';
+import { PRIVY_APP_ID } from '@/lib/privy';
+
+/**
+ * Server-side session verification
+ *
+ * Every mutating server action receives the caller's auth token (a Farcaster
+ * Quick Auth JWT or a Privy access token) and resolves the acting user from
+ * it here. Client-supplied fids / user ids are never trusted.
+ */
+
+const FARCASTER_ISSUER = 'https://auth.farcaster.xyz';
+const PRIVY_ISSUER = 'privy.io';
+
+export type VerifiedIdentity =
+  | { provider: 'farcaster'; fid: number }
+  | { provider: 'privy'; privyId: string };
+
+export type SessionUser = typeof users.$inferSelect;
+
+export interface PrivyLinkedAccounts {
+  email: string | null;
+  walletAddresses: string[];
+  farcaster: {
+    fid: number;
+    username: string | null;
+    displayName: string | null;
+    pfpUrl: string | null;
+  } | null;
+}
+
+// Quick Auth client and Privy JWKS are created once and cache their keys
+const quickAuthClient = createClient();
+const privyJwks = PRIVY_APP_ID
+  ? createRemoteJWKSet(new URL(`https://auth.privy.io/api/v1/apps/${PRIVY_APP_ID}/jwks.json`))
+  : null;
+
+/**
+ * Verify an auth token and return the identity it proves.
+ * Returns null for missing, expired, forged or foreign-audience tokens.
+ */
+export async function verifyAuthToken(token: string | null | undefined): Promise<VerifiedIdentity | null> {
+  if (!token) return null;
+
+  let issuer: string | undefined;
+  try {
+    issuer = decodeJwt(token).iss;
+  } catch {
+    return null;
+  }
+
+  try {
+    if (issuer === FARCASTER_ISSUER) {
+      const payload = await quickAuthClient.verifyJwt({
+        token,
+        domain: publicConfig.canonicalDomain,
+      });
+      return { provider: 'farcaster', fid: Number(payload.sub) };
+    }
+
+    if (issuer === PRIVY_ISSUER && privyJwks) {
+      const { payload } = await jwtVerify(token, privyJwks, {
+        issuer: PRIVY_ISSUER,
+        audience: PRIVY_APP_ID,
+      });
+      if (!payload.sub) return null;
+      return { provider: 'privy', privyId: payload.sub };
+    }
+  } catch (error) {
+    console.warn('Rejected auth token:', error instanceof Error ? error.message : error);
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the users row for a verified token.
+ * Returns null when the token is invalid or the user has not been synced yet.
+ */
+export async function getSessionUser(token: string | null | undefined): Promise<SessionUser | null> {
+  const identity = await verifyAuthToken(token);
+  if (!identity) return null;
+
+  const [user] = await db
+    .select()
+    .from(users)
+    .where(
+      identity.provider === 'farcaster'
+        ? eq(users.fid, identity.fid)
+        : eq(users.privyId, identity.privyId)
+    )
+    .limit(1);
+
+  return user ?? null;
+}
+
+/**
+ * Fetch the accounts linked to a Privy user (email, wallets, Farcaster).
+ * Privy access tokens don't carry linked accounts, so this asks the Privy API.
+ * Returns null when the app secret isn't configured or the lookup fails.
+ */
+export async function getPrivyLinkedAccounts(privyId: string): Promise<PrivyLinkedAccounts | null> {
+  const appSecret = privateConfig.privyAppSecret;
+  if (!PRIVY_APP_ID || !appSecret) return null;
+
+  const response = await fetch(`https://auth.privy.io/api/v1/users/${encodeURIComponent(privyId)}`, {
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${PRIVY_APP_ID}:${appSecret}`).toString('base64')}`,
+      'privy-app-id': PRIVY_APP_ID,
+    },
+  });
+
+  if (!response.ok) {
+    console.error('Failed to fetch Privy user:', response.status);
+    return null;
+  }
+
+  const data: {
+    linked_accounts?: {
+      type: string;
+      address?: string;
+      fid?: number;
+      username?: string | null;
+      display_name?: string | null;
+      pfp?: string | null;
+    }[];
+  } = await response.json();
+
+  const accounts = data.linked_accounts ?? [];
+  const email = accounts.find((account) => account.type === 'email')?.address ?? null;
+  const walletAddresses = accounts
+    .filter((account) => (account.type === 'wallet' || account.type === 'smart_wallet') && account.address)
+    .map((account) => account.address!.toLowerCase());
+  const farcaster = accounts.find((account) => account.type === 'farcaster' && account.fid);
+
+  return {
+    email,
+    walletAddresses,
+    farcaster: farcaster
+      ? {
+          fid: farcaster.fid!,
+          username: farcaster.username ?? null,
+          displayName: farcaster.display_name ?? null,
+          pfpUrl: farcaster.pfp ?? null,
+        }
+      : null,
+  };
+}
@@ -1,5 +1,8 @@
 'use server';
 
+import { parseAlbumUrl } from '@/lib/album-urls';
+import type { AlbumTrack } from '@/lib/album-tracks';
+
 /**
  * Spotify API integration using Client Credentials flow
  * No user login required - uses app credentials to fetch public album data
@@ -18,10 +21,23 @@ interface SpotifyAlbum {
   images: { url: string; width: number; height: number }[];
   external_urls: { spotify: string };
   tracks: {
-    items: { name: string; track_number: number }[];
+    items: {
+      id: string;
+      name: string;
+      track_number: number;
+      disc_number: number;
+      duration_ms: number;
+      explicit: boolean;
+      preview_url: string | null;
+    }[];
   };
   release_date: string;
   total_tracks: number;
+  external_ids?: { upc?: string };
+}
+
+interface SpotifyTracks {
+  tracks: ({ id: string; external_ids?: { isrc?: string } } | null)[];
 }
 
 interface SpotifyArtist {
@@ -30,7 +46,8 @@ interface SpotifyArtist {
 
 interface SpotifySearchResult {
   albums: {
-    items: SpotifyAlbum[];
+    items: Omit<SpotifyAlbum, 'tracks'>[]; // search results don't include tracks
+    total: number;
   };
 }
 
@@ -40,12 +57,37 @@ export interface AlbumMetadata {
   artist: string;
   coverUrl: string;
   spotifyUrl: string;
-  tracks: string[];
+  tracks: AlbumTrack[];
   releaseDate: string;
   totalTracks: number;
   genres: string[];
+  upc: string | null;
+  isrcs: string[]; // track ISRCs, used to recognize other editions
+}
+
+/**
+ * A search hit, enough to tell editions apart before fetching full metadata
+ */
+export interface AlbumCandidate {
+  spotifyId: string;
+  title: string;
+  artist: string;
+  year: string; // from the release date, which may be only a year
+  totalTracks: number;
+  coverUrl: string;
+  spotifyUrl: string;
 }
 
+export interface AlbumSearchPage {
+  items: AlbumCandidate[];
+  total: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+// Candidates per search page
+const SEARCH_PAGE_SIZE = 10;
+
 // Cache token in memory (server-side)
 let cachedToken: { token: string; expiresAt: number } | null = null;
 
@@ -89,30 +131,6 @@ async function getAccessToken(): Promise<string> {
   return data.access_token;
 }
 
-/**
- * Extract Spotify album ID from various URL formats
- */
-function extractSpotifyAlbumId(url: string): string | null {
-  // Handle various Spotify URL formats:
-  // https://open.spotify.com/album/4LH4d3cOWNNsVw41Gqt2kv
-  // https://open.spotify.com/album/4LH4d3cOWNNsVw41Gqt2kv?si=xxx
-  // spotify:album:4LH4d3cOWNNsVw41Gqt2kv
-
-  const patterns = [
-    /spotify\.com\/album\/([a-zA-Z0-9]+)/,
-    /spotify:album:([a-zA-Z0-9]+)/,
-  ];
-
-  for (const pattern of patterns) {
-    const match = url.match(pattern);
-    if (match) {
-      return match[1];
-    }
-  }
-
-  return null;
-}
-
 /**
  * Fetch genre tags for the primary artist of an album
  */
@@ -129,20 +147,52 @@ async function fetchArtistGenres(artistId: string, token: string): Promise<strin
   }
 }
 
+/**
+ * Fetch ISRCs for an album's tracks by track id (album track listings don't include them)
+ */
+async function fetchTrackIsrcs(trackIds: string[], token: string): Promise<Map<string, string>> {
+  const isrcs = new Map<string, string>();
+  if (trackIds.length === 0) return isrcs;
+  try {
+    const response = await fetch(`https://api.spotify.com/v1/tracks?ids=${trackIds.slice(0, 50).join(',')}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!response.ok) return isrcs;
+    const data: SpotifyTracks = await response.json();
+    for (const track of data.tracks) {
+      if (track?.external_ids?.isrc) isrcs.set(track.id, track.external_ids.isrc);
+    }
+    return isrcs;
+  } catch {
+    return isrcs;
+  }
+}
+
 /**
  * Build AlbumMetadata from a SpotifyAlbum object (shared helper)
  */
 async function buildAlbumMetadata(album: SpotifyAlbum, token: string): Promise<AlbumMetadata> {
   const coverUrl = album.images[0]?.url || '';
-  const tracks = album.tracks.items
-    .sort((a, b) => a.track_number - b.track_number)
-    .map((track) => track.name);
   const artist = album.artists.map((a) => a.name).join(', ');
 
   // Fetch genres from primary artist (more reliable than album genres)
-  const genres = album.artists[0]?.id
-    ? await fetchArtistGenres(album.artists[0].id, token)
-    : [];
+  const [genres, isrcs] = await Promise.all([
+    album.artists[0]?.id ? fetchArtistGenres(album.artists[0].id, token) : Promise.resolve([]),
+    fetchTrackIsrcs(album.tracks.items.map((track) => track.id), token),
+  ]);
+
+  const tracks: AlbumTrack[] = album.tracks.items
+    .sort((a, b) => a.disc_number - b.disc_number || a.track_number - b.track_number)
+    .map((track) => ({
+      id: track.id,
+      number: track.track_number,
+      disc: track.disc_number,
+      title: track.name,
+      durationMs: track.duration_ms,
+      explicit: track.explicit,
+      previewUrl: track.preview_url,
+      isrc: isrcs.get(track.id) ?? null,
+    }));
 
   return {
     spotifyId: album.id,
@@ -154,6 +204,8 @@ async function buildAlbumMetadata(album: SpotifyAlbum, token: string): Promise<A
     releaseDate: album.release_date,
     totalTracks: album.total_tracks,
     genres,
+    upc: album.external_ids?.upc ?? null,
+    isrcs: tracks.flatMap((track) => (track.isrc ? [track.isrc] : [])),
   };
 }
 
@@ -161,16 +213,16 @@ async function buildAlbumMetadata(album: SpotifyAlbum, token: string): Promise<A
  * Fetch album metadata from Spotify API by URL
  */
 export async function fetchAlbumMetadata(spotifyUrl: string): Promise<AlbumMetadata | null> {
-  const albumId = extractSpotifyAlbumId(spotifyUrl);
+  const link = parseAlbumUrl(spotifyUrl);
 
-  if (!albumId) {
+  if (link?.service !== 'spotify') {
     return null;
   }
 
   try {
     const token = await getAccessToken();
 
-    const response = await fetch(`https://api.spotify.com/v1/albums/${albumId}`, {
+    const response = await fetch(`https://api.spotify.com/v1/albums/${link.id}`, {
       headers: {
         Authorization: `Bearer ${token}`,
       },
@@ -192,15 +244,15 @@ export async function fetchAlbumMetadata(spotifyUrl: string): Promise<AlbumMetad
 }
 
 /**
- * Search for an album by query string (artist + album name)
- * Returns the top match with full metadata including genres
+ * Search albums by query string (artist + album name), one page at a time
+ * Returns lightweight candidates; fetch the chosen one with fetchAlbumMetadata
  */
-export async function searchAlbum(query: string): Promise<AlbumMetadata | null> {
+export async function searchAlbums(query: string, offset = 0): Promise<AlbumSearchPage | null> {
   try {
     const token = await getAccessToken();
 
     const searchResponse = await fetch(
-      `https://api.spotify.com/v1/search?q=${encodeURIComponent(query)}&type=album&limit=1`,
+      `https://api.spotify.com/v1/search?q=${encodeURIComponent(query)}&type=album&limit=${SEARCH_PAGE_SIZE}&offset=${offset}`,
       {
         headers: { Authorization: `Bearer ${token}` },
       }
@@ -211,25 +263,48 @@ export async function searchAlbum(query: string): Promise<AlbumMetadata | null>
     }
 
     const searchData: SpotifySearchResult = await searchResponse.json();
-    const firstResult = searchData.albums?.items?.[0];
+    const items = (searchData.albums?.items ?? []).map((album) => ({
+      spotifyId: album.id,
+      title: album.name,
+      artist: album.artists.map((a) => a.name).join(', '),
+      year: album.release_date?.slice(0, 4) ?? '',
+      totalTracks: album.total_tracks,
+      coverUrl: album.images[0]?.url || '',
+      spotifyUrl: album.external_urls.spotify,
+    }));
+    const total = searchData.albums?.total ?? 0;
+
+    return { items, total, offset, hasMore: offset + items.length < total };
+  } catch (error) {
+    console.error('Error searching albums on Spotify:', error);
+    return null;
+  }
+}
 
-    if (!firstResult) {
-      return null;
-    }
+/**
+ * The Spotify edition with a given UPC, if Spotify carries it
+ * Used to find the Spotify match for an album linked from another service
+ */
+export async function findSpotifyAlbumByUpc(upc: string): Promise<AlbumMetadata | null> {
+  try {
+    const token = await getAccessToken();
 
-    // Fetch full album details (search results don't include tracks)
-    const albumResponse = await fetch(`https://api.spotify.com/v1/albums/${firstResult.id}`, {
-      headers: { Authorization: `Bearer ${token}` },
-    });
+    const searchResponse = await fetch(
+      `https://api.spotify.com/v1/search?q=${encodeURIComponent(`upc:${upc}`)}&type=album&limit=1`,
+      {
+        headers: { Authorization: `Bearer ${token}` },
+      }
+    );
 
-    if (!albumResponse.ok) {
-      return null;
+    if (!searchResponse.ok) {
+      throw new Error(`Spotify search error: ${searchResponse.status}`);
     }
 
-    const album: SpotifyAlbum = await albumResponse.json();
-    return buildAlbumMetadata(album, token);
+    const searchData: SpotifySearchResult = await searchResponse.json();
+    const match = searchData.albums?.items[0];
+    return match ? fetchAlbumMetadata(match.external_urls.spotify) : null;
   } catch (error) {
-    console.error('Error searching album on Spotify:', error);
+    console.error('Error searching Spotify by UPC:', error);
     return null;
   }
 }
@@ -0,0 +1,172 @@
+import 'server-only';
+
+import { privateConfig } from '@/config/private-config';
+import { STREAMING_SERVICES, isStreamingService, type StreamingLinks } from '@/lib/streaming-services';
+import fixtureLinks from '@/lib/streaming-links-fixtures.json';
+
+/**
+ * Streaming links — where else an album can be played
+ *
+ * Resolved once when an album is submitted and stored in `albums.streaming_links`.
+ * Each provider looks the album up by its UPC / track ISRCs (or, for services
+ * with no public code lookup, by a link it's already known by) and returns whatever
+ * services it found. Providers run side by side; for each service the first
+ * provider in the list wins, and a failing provider is just skipped.
+ *
+ * Set STREAMING_LINKS_PROVIDER=fixture to resolve from
+ * src/lib/streaming-links-fixtures.json instead of the network.
+ */
+
+export interface AlbumLinkQuery {
+  links: StreamingLinks; // where the album is already known to be, e.g. its Spotify link
+  upc: string | null;
+  isrcs: string[];
+}
+
+export interface StreamingLinksProvider {
+  name: string;
+  resolve(album: AlbumLinkQuery): Promise<StreamingLinks>;
+}
+
+// Submissions wait on the lookups, so each gets a short budget
+const PROVIDER_TIMEOUT_MS = 4000;
+
+async function fetchJson<T>(url: string): Promise<T | null> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS) });
+  return response.ok ? ((await response.json()) as T) : null;
+}
+
+/**
+ * Deezer's public API, by UPC, else by the first track's ISRC
+ */
+export const deezerProvider: StreamingLinksProvider = {
+  name: 'deezer',
+  async resolve({ upc, isrcs }) {
+    if (upc) {
+      const album = await fetchJson<{ link?: string }>(`https://api.deezer.com/album/upc:${upc}`);
+      if (album?.link) return { deezer: album.link };
+    }
+
+    if (isrcs[0]) {
+      const track = await fetchJson<{ album?: { id: number } }>(`https://api.deezer.com/track/isrc:${isrcs[0]}`);
+      if (track?.album?.id) return { deezer: `https://www.deezer.com/album/${track.album.id}` };
+    }
+
+    return {};
+  },
+};
+
+/**
+ * Apple Music via the iTunes lookup API, by UPC
+ */
+export const appleMusicProvider: StreamingLinksProvider = {
+  name: 'apple-music',
+  async resolve({ upc }) {
+    if (!upc) return {};
+
+    const data = await fetchJson<{ results?: { collectionViewUrl?: string }[] }>(
+      `https://itunes.apple.com/lookup?upc=${upc}&entity=album`
+    );
+    const url = data?.results?.[0]?.collectionViewUrl;
+    return url ? { appleMusic: url.split('?')[0] } : {};
+  },
+};
+
+interface OdesliResponse {
+  entityUniqueId?: string;
+  entitiesByUniqueId?: Record<string, { title?: string; artistName?: string; thumbnailUrl?: string }>;
+  linksByPlatform?: Record<string, { url: string }>;
+}
+
+export interface OdesliAlbum {
+  title: string | null;
+  artist: string | null;
+  coverUrl: string | null;
+  links: StreamingLinks;
+}
+
+/**
+ * Odesli (song.link) lookup of an album link on any service: the album's
+ * title, artist and cover as that service has them, and its links elsewhere
+ */
+export async function lookupOdesli(url: string): Promise<OdesliAlbum | null> {
+  const data = await fetchJson<OdesliResponse>(
+    `https://api.song.link/v1-alpha.1/links?url=${encodeURIComponent(url)}`
+  );
+  if (!data) return null;
+
+  const links: StreamingLinks = {};
+  for (const service of STREAMING_SERVICES) {
+    const link = data.linksByPlatform?.[service]?.url;
+    if (link) links[service] = link;
+  }
+
+  const entity = data.entityUniqueId ? data.entitiesByUniqueId?.[data.entityUniqueId] : undefined;
+  return {
+    title: entity?.title ?? null,
+    artist: entity?.artistName ?? null,
+    coverUrl: entity?.thumbnailUrl ?? null,
+    links,
+  };
+}
+
+/**
+ * Odesli, from a link the album is known by — covers YouTube Music, Tidal and
+ * Bandcamp, which have no public UPC lookup
+ */
+export const odesliProvider: StreamingLinksProvider = {
+  name: 'odesli',
+  async resolve({ links }) {
+    const known = links.spotify ?? Object.values(links)[0];
+    if (!known) return {};
+
+    return (await lookupOdesli(known))?.links ?? {};
+  },
+};
+
+/**
+ * Links from a local fixture map keyed `upc:<UPC>` or `isrc:<ISRC>`, for
+ * development and tests without network access
+ */
+export function createFixtureProvider(fixtures: Record<string, StreamingLinks>): StreamingLinksProvider {
+  return {
+    name: 'fixture',
+    async resolve({ upc, isrcs }) {
+      const keys = [...(upc ? [`upc:${upc}`] : []), ...isrcs.map((isrc) => `isrc:${isrc}`)];
+      const key = keys.find((k) => fixtures[k]);
+      return key ? fixtures[key] : {};
+    },
+  };
+}
+
+function defaultProviders(): StreamingLinksProvider[] {
+  if (privateConfig.streamingLinksProvider === 'fixture') {
+    return [createFixtureProvider(fixtureLinks)];
+  }
+  return [deezerProvider, appleMusicProvider, odesliProvider];
+}
+
+/**
+ * Resolve an album's links on every service we can find it on
+ * Always includes the links it's already known by
+ */
+export async function resolveStreamingLinks(
+  album: AlbumLinkQuery,
+  providers: StreamingLinksProvider[] = defaultProviders()
+): Promise<StreamingLinks> {
+  const results = await Promise.allSettled(providers.map((provider) => provider.resolve(album)));
+
+  const links: StreamingLinks = { ...album.links };
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      console.error(`Streaming links provider ${providers[i].name} failed:`, result.reason);
+      return;
+    }
+
+    for (const [service, url] of Object.entries(result.value)) {
+      if (isStreamingService(service) && url && !links[service]) links[service] = url;
+    }
+  });
+
+  return links;
+}
@@ -0,0 +1,26 @@
+/**
+ * Streaming services an album can be linked on
+ *
+ * Shared by the server-side resolver (src/lib/streaming-links.ts) and the
+ * "Listen on…" picker, so no server-only imports here.
+ */
+
+export const STREAMING_SERVICES = ['spotify', 'appleMusic', 'youtubeMusic', 'tidal', 'deezer', 'bandcamp'] as const;
+
+export type StreamingService = (typeof STREAMING_SERVICES)[number];
+
+// Album page URL per service; services the album isn't found on are left out
+export type StreamingLinks = Partial<Record<StreamingService, string>>;
+
+export const STREAMING_SERVICE_LABELS: Record<StreamingService, string> = {
+  spotify: 'Spotify',
+  appleMusic: 'Apple Music',
+  youtubeMusic: 'YouTube Music',
+  tidal: 'Tidal',
+  deezer: 'Deezer',
+  bandcamp: 'Bandcamp',
+};
+
+export function isStreamingService(value: string): value is StreamingService {
+  return (STREAMING_SERVICES as readonly string[]).includes(value);
+}
@@ -0,0 +1,51 @@
+/**
+ * Track ratings — members' per-track reactions in reviews
+ *
+ * Pure helpers, shared by the data layer (`updateAlbumStats` aggregates
+ * `review_track_ratings` into `albums.track_stats`) and the review form /
+ * track ranking in the UI. Stats are keyed by AlbumTrack id; titles come from
+ * the album's track list at render time.
+ */
+
+export const TRACK_REACTIONS = ['skip', 'like', 'love'] as const;
+
+export type TrackReaction = (typeof TRACK_REACTIONS)[number];
+
+// trackId → reaction, for the tracks a reviewer rated
+export type TrackRatings = Record<string, TrackReaction>;
+
+export const TRACK_REACTION_LABELS: Record<TrackReaction, string> = {
+  skip: 'Skip',
+  like: 'Like',
+  love: 'Love',
+};
+
+export interface TrackStat {
+  trackId: string;
+  skips: number;
+  likes: number;
+  loves: number;
+  favorites: number; // reviews that picked it as their favorite track
+  score: number; // see trackScore
+}
+
+export function isTrackReaction(value: string): value is TrackReaction {
+  return (TRACK_REACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * A track's standing: a favorite pick or a love counts 2, a like 1, a skip -1
+ */
+export function trackScore(stat: Omit<TrackStat, 'score'>): number {
+  return stat.favorites * 2 + stat.loves * 2 + stat.likes - stat.skips;
+}
+
+/**
+ * Tracks ranked best first (ties: more favorite picks, then more reactions)
+ */
+export function rankTracks(stats: TrackStat[]): TrackStat[] {
+  const reactions = (stat: TrackStat) => stat.skips + stat.likes + stat.loves;
+  return [...stats].sort(
+    (a, b) => b.score - a.score || b.favorites - a.favorites || reactions(b) - reactions(a)
+  );
+}